@@ -4,9 +4,9 @@
 */
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
-import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateAdjustedImages, generateFusedImage, generateFusedImages, generateTexturedImage, removeBackgroundImage } from './services/geminiService';
+import { generateEditedImage, generateLocalEditedImage, generateMaskedEdit, generateFilteredImage, generateAdjustedImage, generateAdjustedImages, generateFusedImage, generateFusedImages, regenerateAdjustedImage, regenerateFusedImage, generateTexturedImage, removeBackgroundImage } from './services/geminiService';
 import Header from './components/Header';
 import Spinner from './components/Spinner';
 import FilterPanel from './components/FilterPanel';
@@ -15,9 +15,42 @@ import CropPanel from './components/CropPanel';
 import FusionPanel from './components/FusionPanel';
 import TexturePanel from './components/TexturePanel';
 import ErasePanel from './components/ErasePanel';
-import { UndoIcon, RedoIcon, EyeIcon, BullseyeIcon, DownloadIcon, RefreshIcon, NewFileIcon, UploadIcon } from './components/icons';
+import { UndoIcon, RedoIcon, EyeIcon, BullseyeIcon, DownloadIcon, RefreshIcon, NewFileIcon, UploadIcon, ArchiveBoxIcon, FolderOpenIcon, CompareIcon, DiffIcon, WarningIcon, LayersIcon } from './components/icons';
 import StartScreen from './components/StartScreen';
 import PastForwardPage from './components/PastForwardPage';
+import SettingsModal from './components/SettingsModal';
+import { describeError, type ErrorDescription } from './services/modelErrors';
+import { getImageModelProvider } from './services/imageModelProvider';
+import type { BatchProgress, BatchResult, EditResult, GenerationParams, PinnedParams } from './types';
+import AdvancedOptions from './components/AdvancedOptions';
+import BranchSwitcher from './components/BranchSwitcher';
+import HistoryTimeline from './components/HistoryTimeline';
+import CompareView, { type CompareSource } from './components/CompareView';
+import DiffView from './components/DiffView';
+import { getImageDiff, type ExpectedRegion } from './lib/imageDiff';
+import { compositeChangedRegion, getPreserveOptions, setPreserveOptions, withPreservedRegions, type PreserveOptions, type PreserveSettings } from './lib/regionComposite';
+import PreserveRegionsOptions from './components/PreserveRegionsOptions';
+import MaskCanvas, { type MaskTool } from './components/MaskCanvas';
+import MaskToolbar from './components/MaskToolbar';
+import { invertMask } from './lib/maskUtils';
+import LayersPanel from './components/LayersPanel';
+import AdjustmentPreview from './components/AdjustmentPreview';
+import TonePanel from './components/TonePanel';
+import ColorMatchPanel from './components/ColorMatchPanel';
+import { DEFAULT_TONE_SETTINGS, applyTone, applyToneToImageData, isDefaultTone, type ToneSettings } from './lib/toneCurves';
+import { DEFAULT_COLOR_MATCH_OPTIONS, applyColorMatchToImageData, computeColorStats, matchColors, type ColorMatchOptions, type ColorStats } from './lib/colorMatch';
+import { DEFAULT_LUT_STRENGTH, applyLut, applyLutToImageData } from './lib/cubeLut';
+import type { LutPreset } from './lib/lutStore';
+import { createZip, type ZipEntry } from './lib/zipUtils';
+import { DEFAULT_LOCAL_ADJUSTMENTS, applyAdjustmentsToImageData, applyLocalAdjustments, describeLocalAdjustments, isDefaultAdjustments, type LocalAdjustments } from './lib/localAdjustments';
+import { compositeLayers, createImageLayer, createLayerStack, getLayer, getLayerImageKeys, insertLayer, replaceLayerImageKeys, updateLayer, type LayerStack } from './lib/layers';
+import type { ImageArea } from './lib/localRetouch';
+import { getRetouchOptions, setRetouchOptions, HOTSPOT_MARKERS, type HotspotMarker } from './services/retouchHotspot';
+import { createProject, loadProject, saveProject, whenProjectsSaved, type ProjectMeta, type ProjectState } from './lib/projectStore';
+import { createPreviewUrl, deleteImages, getImage, putImage } from './lib/imageStore';
+import { useImageFile, useObjectUrl } from './components/imageHooks';
+import { exportProjectArchive, importProjectArchive, PROJECT_ARCHIVE_EXTENSION } from './lib/projectArchive';
+import { addHistoryNode, canRedoHistory, canUndoHistory, createHistoryTree, duplicateHistoryNode, getActiveBranch, getCurrentNode, getHistoryImageKeys, getHistoryNodes, getRootNode, getSiblings, redoHistory, removeHistoryNode, selectHistoryNode, undoHistory, type HistoryTree, type OperationImages } from './lib/historyTree';
 
 // Helper to convert a data URL string to a File object
 const dataURLtoFile = (dataurl: string, filename: string): File => {
@@ -36,6 +69,37 @@ const dataURLtoFile = (dataurl: string, filename: string): File => {
     return new File([u8arr], filename, {type:mime});
 }
 
+// 中止当前的控制器并换上新的，之后开始的请求不受影响
+const abortRetries = (ref: { current: AbortController }) => {
+    ref.current.abort();
+    ref.current = new AbortController();
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+// 把图片文件作为 PNG 下载，文件名基于原文件名加后缀
+const downloadImageFile = (file: File, suffix: string) => {
+    const originalName = file.name.substring(0, file.name.lastIndexOf('.')) || 'image';
+    downloadBlob(file, `${originalName}-${suffix}.png`);
+};
+
+// 批量结果被应用到画布时，转换成历史节点上记录的生成参数
+const batchResultParams = (result: BatchResult): GenerationParams => ({
+    seed: result.seed,
+    temperature: result.temperature,
+    provider: getImageModelProvider().id,
+    model: result.model,
+    prompt: result.prompt,
+});
+
 // Helper for cropping
 function getCroppedImg(
   image: HTMLImageElement,
@@ -76,13 +140,18 @@ function getCroppedImg(
   });
 }
 
+// 编辑停止后多久自动保存到 IndexedDB
+const AUTOSAVE_DELAY_MS = 1000;
+
 const MAX_FILE_SIZE_MB = 15;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 
-type Tab = 'retouch' | 'adjust' | 'filters' | 'crop' | 'fusion' | 'texture' | 'erase';
+type Tab = 'retouch' | 'adjust' | 'tone' | 'match' | 'filters' | 'crop' | 'fusion' | 'texture' | 'erase';
 
 const tabNames: Record<Tab, string> = {
   adjust: '调整',
+  tone: '曲线',
+  match: '配色',
   filters: '滤镜',
   texture: '纹理',
   erase: '抠图',
@@ -91,33 +160,104 @@ const tabNames: Record<Tab, string> = {
   retouch: '修饰',
 };
 
-const TABS: Tab[] = ['fusion', 'adjust', 'filters', 'texture', 'erase', 'crop', 'retouch'];
+// 历史记录中的操作名称；图层操作不对应任何标签页
+const operationNames: Record<LastAction['type'], string> = {
+  ...tabNames,
+  layers: '图层',
+  localAdjust: '即时调整',
+  lut: 'LUT',
+};
+
+const TABS: Tab[] = ['fusion', 'adjust', 'tone', 'match', 'filters', 'texture', 'erase', 'crop', 'retouch'];
+
+// 支持“保留未编辑区域”的标签页
+const PRESERVE_TABS: Tab[] = ['retouch', 'tone', 'match', 'filters', 'texture'];
 
-type LastAction = 
-  | { type: 'retouch', prompt: string, hotspot: { x: number, y: number } }
+type LastAction = (
+  // local 为高分辨率局部修饰，area 是框选的区域（没有时取热点周围）；
+  // masked 为按涂抹蒙版修饰，没有热点，蒙版保存在 preserve.mask 中
+  | { type: 'retouch', prompt: string, hotspot?: { x: number, y: number }, local?: boolean, area?: ImageArea, masked?: boolean }
   | { type: 'adjust', prompt: string, count?: number, variationIntensity?: string }
   | { type: 'filters', prompt: string }
   | { type: 'fusion', prompt: string, sourceImages: File[], count?: number, variationIntensity?: string }
   | { type: 'texture', prompt: string }
-  | { type: 'erase' };
+  | { type: 'erase' }
+  | { type: 'crop' }
+  // 只修改了图层（不透明度、混合模式、文字等）
+  | { type: 'layers' }
+  // 本地计算的即时调整，保存参数以便之后重新编辑
+  | { type: 'localAdjust', adjustments: LocalAdjustments }
+  // 曲线和色阶，同样在本地计算
+  | { type: 'tone', tone: ToneSettings }
+  // 按参考图配色，参考图保存在 imageStore 中以便之后查看
+  | { type: 'match', referenceKey: string, strength: number, luminanceOnly: boolean }
+  // 3D LUT 调色，LUT 本身保存在预设中
+  | { type: 'lut', presetId: string, name: string, strength: number }
+) & {
+  // 高级选项中固定的种子/温度
+  pinned?: PinnedParams;
+  // 保留未编辑区域时的合成设置
+  preserve?: PreserveSettings;
+  // 启用图层后的图层栈；节点的图片是它的合成结果
+  layers?: LayerStack;
+};
+
+// 操作中引用的 imageStore 图片（图层、配色参考图），和节点图片一起保存、打包和清理
+const lastActionImages: OperationImages<LastAction> = {
+  keys: operation => [
+    ...(operation.type === 'match' ? [operation.referenceKey] : []),
+    ...(operation.layers ? getLayerImageKeys(operation.layers) : []),
+  ],
+  replaceKeys: (operation, replace) => {
+    let replaced = operation;
+    if (replaced.type === 'match') {
+      replaced = { ...replaced, referenceKey: replace(replaced.referenceKey) };
+    }
+    if (replaced.layers) {
+      replaced = { ...replaced, layers: replaceLayerImageKeys(replaced.layers, replace) };
+    }
+    return replaced;
+  },
+};
 
 type View = 'editor' | 'past-forward';
 
+// 修饰只应改动热点附近：超出这个半径（相对图片长边）的变化视为漂移
+const RETOUCH_REGION_RADIUS = 0.15;
+
+// 操作要求修改的范围；整体编辑（滤镜、调整等）没有范围。局部修饰以框选的区域为准，蒙版修饰以蒙版为准
+const expectedRegionOf = (operation: LastAction | null): ExpectedRegion | undefined => {
+  if (operation?.type !== 'retouch') return undefined;
+  if (operation.masked) return operation.preserve?.mask ? { shape: 'mask', mask: operation.preserve.mask } : undefined;
+  if (operation.local && operation.area) return { shape: 'rect', ...operation.area };
+  return operation.hotspot && { shape: 'circle', x: operation.hotspot.x, y: operation.hotspot.y, radius: RETOUCH_REGION_RADIUS };
+};
+
 const EditorView: React.FC<{
     onFileSelect: (files: FileList | null) => void;
     onImageGenerated: (dataUrl: string) => void;
 }> = ({ onFileSelect, onImageGenerated }) => {
-  const [history, setHistory] = useState<File[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  // 编辑历史树：每个节点保存图片、产生它的操作和实际使用的生成参数
+  const [historyTree, setHistoryTree] = useState<HistoryTree<LastAction> | null>(null);
+  // 当前项目，自动保存到 IndexedDB
+  const [project, setProject] = useState<ProjectMeta | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorDescription | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('fusion');
   const [isComparing, setIsComparing] = useState(false);
-  const [lastAction, setLastAction] = useState<LastAction | null>(null);
+  // 按住分支缩略图或悬停在时间轴上时临时预览的历史节点
+  const [previewNodeId, setPreviewNodeId] = useState<string | null>(null);
+  // 对比模式中 A/B 两侧的来源（见 compareSources）
+  const [compareIds, setCompareIds] = useState<{ leftId: string; rightId: string } | null>(null);
+  const [isDiffOpen, setIsDiffOpen] = useState(false);
+  // 有明确修改范围的历史节点是否改动了范围以外的内容
+  const [driftWarnings, setDriftWarnings] = useState<Record<string, boolean>>({});
+
+  // Errors are stored as display descriptions so typed model errors keep their code
+  const reportError = useCallback((e: unknown) => {
+    setError(e ? describeError(e) : null);
+  }, []);
 
-  // State for image URLs
-  const [imageSrc, setImageSrc] = useState<string | null>(null);
-  const [originalImageSrc, setOriginalImageSrc] = useState<string | null>(null);
 
   // Cropping state
   const imgRef = useRef<HTMLImageElement>(null);
@@ -128,27 +268,99 @@ const EditorView: React.FC<{
   // Retouch state
   const [retouchPrompt, setRetouchPrompt] = useState('');
   const [retouchHotspot, setRetouchHotspot] = useState<{ x: number, y: number } | null>(null);
+  const [retouchPinned, setRetouchPinned] = useState<PinnedParams>({});
+  // 整图修饰、只发送热点周围/框选区域的高分辨率局部修饰，或按涂抹的蒙版修饰
+  const [retouchScope, setRetouchScope] = useState<'full' | 'local' | 'mask'>('full');
+  const [hotspotMarker, setHotspotMarker] = useState<HotspotMarker>(() => getRetouchOptions().marker);
+  const [preserveOptions, setPreserveOptionsState] = useState<PreserveOptions>(getPreserveOptions);
+  // 手动涂抹的蒙版，只对当前状态有效
+  const [preserveMask, setPreserveMask] = useState<string | null>(null);
+  const [maskTool, setMaskTool] = useState<MaskTool | null>(null);
+  const [brushSize, setBrushSize] = useState(60);
+  // 当前显示图片的原始尺寸，蒙版画布按它设置宽高比
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+
+  // 图层：正在编辑的图层栈（与当前节点保存的不同即为未应用的修改）
+  const [isLayersOpen, setIsLayersOpen] = useState(false);
+  const [layerStack, setLayerStack] = useState<LayerStack | null>(null);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  // 生成式编辑的输入图层；null 为可见图层的合成图
+  const [layerTarget, setLayerTarget] = useState<string | null>(null);
+  const [layerMaskTool, setLayerMaskTool] = useState<MaskTool | null>(null);
+  // 未应用的图层修改的合成预览
+  const [layerPreviewFile, setLayerPreviewFile] = useState<File | undefined>();
+
+  // 即时调整的滑块；重新编辑某一步时记住那一步的父节点，结果作为它的新分支
+  const [localAdjustments, setLocalAdjustments] = useState<LocalAdjustments>(DEFAULT_LOCAL_ADJUSTMENTS);
+  const [localAdjustParentId, setLocalAdjustParentId] = useState<string | null>(null);
+  const [toneSettings, setToneSettings] = useState<ToneSettings>(DEFAULT_TONE_SETTINGS);
+  // 滤镜面板中选中的 LUT 和强度
+  const [selectedLut, setSelectedLut] = useState<LutPreset | null>(null);
+  const [lutStrength, setLutStrength] = useState(DEFAULT_LUT_STRENGTH);
+  // 配色的参考图和选项；参考图的统计在选中后计算一次
+  const [colorMatchReference, setColorMatchReference] = useState<File | null>(null);
+  const [colorMatchOptions, setColorMatchOptions] = useState<ColorMatchOptions>(DEFAULT_COLOR_MATCH_OPTIONS);
+  const [referenceStats, setReferenceStats] = useState<ColorStats | null>(null);
   
   // Fusion results state for multiple images
-  const [fusionResults, setFusionResults] = useState<string[]>([]);
+  const [fusionResults, setFusionResults] = useState<BatchResult[]>([]);
   
   // 添加进度状态管理
-  const [fusionProgress, setFusionProgress] = useState<{ current: number; total: number } | null>(null);
+  const [fusionProgress, setFusionProgress] = useState<BatchProgress | null>(null);
   
   // Adjustment results state for multiple images
-  const [adjustmentResults, setAdjustmentResults] = useState<string[]>([]);
-  const [adjustmentProgress, setAdjustmentProgress] = useState<{ current: number; total: number } | null>(null);
+  const [adjustmentResults, setAdjustmentResults] = useState<BatchResult[]>([]);
+  const [adjustmentProgress, setAdjustmentProgress] = useState<BatchProgress | null>(null);
+  
+  // 记住批量生成时的输入图片，单独重试某个位置时使用同样的输入（批量完成后当前图片可能已改变）
+  // 同时记住产生这批结果的操作和父节点，应用某个结果时作为新节点挂在批量生成时的位置下
+  const adjustmentBatchInputRef = useRef<{ imageFile: File; parentId: string; operation: LastAction } | null>(null);
+  const fusionBatchInputRef = useRef<{ imageFile: File; sourceImages: File[]; parentId: string; operation: LastAction } | null>(null);
+  
+  // 批量结果的预览图是 blob URL，不再出现在任何结果列表中时释放掉
+  const batchObjectUrlsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const live = new Set(
+      [...fusionResults, ...adjustmentResults].flatMap(result => result.imageUrl ? [result.imageUrl] : [])
+    );
+    batchObjectUrlsRef.current.forEach(url => {
+      if (!live.has(url)) URL.revokeObjectURL(url);
+    });
+    batchObjectUrlsRef.current = live;
+  }, [fusionResults, adjustmentResults]);
+
+  // 历史节点、图层和批量结果都不再引用的图片从 imageStore 中删除（等排队中的项目保存完成后）
+  const liveImageKeysRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const live = new Set([
+      ...(historyTree ? getHistoryImageKeys(historyTree, lastActionImages) : []),
+      ...(layerStack ? getLayerImageKeys(layerStack) : []),
+      ...[...fusionResults, ...adjustmentResults].flatMap(result => result.imageKey ? [result.imageKey] : []),
+    ]);
+    const dropped = [...liveImageKeysRef.current].filter(key => !live.has(key));
+    liveImageKeysRef.current = live;
+    if (dropped.length > 0) {
+      whenProjectsSaved()
+        .then(() => deleteImages(dropped))
+        .catch(e => console.warn('Failed to delete unused images', e));
+    }
+  }, [historyTree, layerStack, fusionResults, adjustmentResults]);
   
-  // AbortController for canceling batch generation
+  // AbortController for canceling generation (single edits and batches)
   const [abortController, setAbortController] = useState<AbortController | null>(null);
+  // 单独重试批量结果时使用；取消生成、开始新的批量或清空结果时中止，迟到的结果不会写进新的一批
+  const adjustmentRetryRef = useRef(new AbortController());
+  const fusionRetryRef = useRef(new AbortController());
   
-  // Cancel batch generation
+  // Cancel generation: aborts the in-flight request(s); late results are discarded
   const handleCancelGeneration = useCallback(() => {
+    abortRetries(adjustmentRetryRef);
+    abortRetries(fusionRetryRef);
     if (abortController) {
       abortController.abort();
       setAbortController(null);
       setIsLoading(false);
-      setError('生成已取消');
+      reportError('生成已取消');
       
       // 清理进度状态，但保留已生成的结果
       setTimeout(() => {
@@ -159,116 +371,394 @@ const EditorView: React.FC<{
     }
   }, [abortController]);
 
-  const currentImageFile = history[historyIndex];
-  const originalImageFile = history[0];
+  const currentNode = historyTree ? getCurrentNode<LastAction>(historyTree) : null;
+  const currentImageFile = useImageFile(currentNode?.imageKey);
+  const currentParams = currentNode?.params;
+  const lastAction = currentNode?.operation ?? null;
+  const originalImageFile = useImageFile(historyTree ? getRootNode(historyTree).imageKey : undefined);
+  const previewImageFile = useImageFile(previewNodeId ? historyTree?.nodes[previewNodeId]?.imageKey : undefined);
+
+  // 当前节点及其兄弟节点，用于分支切换；仅在树变化时重新计算，避免缩略图 URL 反复重建
+  const branchSiblings = useMemo(() => historyTree
+    ? getSiblings<LastAction>(historyTree).map(node => ({
+        id: node.id,
+        imageKey: node.imageKey,
+        title: node.operation && 'prompt' in node.operation ? node.operation.prompt : node.params?.prompt ?? '',
+      }))
+    : [], [historyTree]);
+
+  // 时间轴显示当前活动分支上的所有状态
+  const timelineItems = useMemo(() => historyTree
+    ? getActiveBranch<LastAction>(historyTree).map(node => ({
+        id: node.id,
+        imageKey: node.imageKey,
+        label: node.operation ? operationNames[node.operation.type] : '原图',
+        prompt: node.operation && 'prompt' in node.operation
+          ? node.operation.prompt
+          : node.operation?.type === 'localAdjust' ? describeLocalAdjustments(node.operation.adjustments)
+          : node.operation?.type === 'lut' ? `${node.operation.name} · 强度 ${node.operation.strength}%`
+          : node.operation?.type === 'match' ? `强度 ${node.operation.strength}%${node.operation.luminanceOnly ? ' · 只匹配亮度' : ''}` : undefined,
+        createdAt: node.createdAt,
+        isRoot: node.parentId === null,
+        driftWarning: driftWarnings[node.id],
+      }))
+    : [], [historyTree, driftWarnings]);
+
+  const currentExpectedRegion = useMemo(() => expectedRegionOf(lastAction), [lastAction]);
 
-  // Effect to manage the object URL for the current image
+  // 蒙版是在当前图片上画的，切换到其他状态后不再适用
   useEffect(() => {
-    if (!currentImageFile) {
-      setImageSrc(null);
-      return;
-    }
-    const objectUrl = URL.createObjectURL(currentImageFile);
-    setImageSrc(objectUrl);
-    
-    // Cleanup function to revoke the object URL when the component unmounts or the file changes
-    return () => URL.revokeObjectURL(objectUrl);
-  }, [currentImageFile]);
+    setPreserveMask(null);
+    setMaskTool(null);
+  }, [currentNode?.id]);
+
+  // 切换状态时载入该状态保存的图层；仍然存在的选中图层和编辑目标保留
+  useEffect(() => {
+    const layers = currentNode?.operation?.layers ?? null;
+    setLayerStack(layers);
+    setLayerMaskTool(null);
+    setSelectedLayerId(id => layers && getLayer(layers, id) ? id : null);
+    setLayerTarget(id => layers && getLayer(layers, id) ? id : null);
+  }, [currentNode?.id]);
+
+  const isLayersDirty = layerStack !== (lastAction?.layers ?? null);
 
-  // Effect to manage the object URL for the original image
+  // 即时调整、曲线和色阶的参数只对当前状态有效
   useEffect(() => {
-    if (!originalImageFile) {
-      setOriginalImageSrc(null);
+    setLocalAdjustments(DEFAULT_LOCAL_ADJUSTMENTS);
+    setLocalAdjustParentId(null);
+    setToneSettings(DEFAULT_TONE_SETTINGS);
+  }, [currentNode?.id]);
+
+  // 图层有未应用的修改时在画布上显示合成预览；拖动滑块时稍作延迟，避免反复合成
+  useEffect(() => {
+    if (!layerStack || !isLayersDirty) {
+      setLayerPreviewFile(undefined);
       return;
     }
-    const objectUrl = URL.createObjectURL(originalImageFile);
-    setOriginalImageSrc(objectUrl);
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      compositeLayers(layerStack).then(
+        file => { if (!cancelled) setLayerPreviewFile(file); },
+        e => console.warn('Failed to composite layers', e)
+      );
+    }, 150);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [layerStack, isLayersDirty]);
+
+  const selectedLayer = layerStack ? getLayer(layerStack, selectedLayerId) : undefined;
+  const targetLayer = layerStack ? getLayer(layerStack, layerTarget) : undefined;
+  // 生成式编辑的输入：选中的目标图层，或者画布上显示的（合成）图片
+  const targetLayerFile = useImageFile(targetLayer?.kind === 'image' ? targetLayer.imageKey : undefined);
+  const editImageFile = targetLayer?.kind === 'image'
+    ? targetLayerFile
+    : isLayersDirty ? layerPreviewFile : currentImageFile;
+  const localAdjustParentFile = useImageFile(localAdjustParentId ? historyTree?.nodes[localAdjustParentId]?.imageKey : undefined);
+  // 即时调整的输入；重新编辑某一步时为那一步之前的图片
+  const localAdjustSourceFile = localAdjustParentId ? localAdjustParentFile : editImageFile;
+
+  // 本地调整在画布上的实时预览：当前标签页的处理函数，参数变化时才重建
+  const previewProcess = useMemo(() => {
+    if (activeTab === 'adjust' && !isDefaultAdjustments(localAdjustments)) {
+      return (pixels: ImageData) => applyAdjustmentsToImageData(pixels, localAdjustments);
+    }
+    if (activeTab === 'tone' && !isDefaultTone(toneSettings)) {
+      return (pixels: ImageData) => applyToneToImageData(pixels, toneSettings);
+    }
+    if (activeTab === 'filters' && selectedLut && lutStrength > 0) {
+      return (pixels: ImageData) => applyLutToImageData(pixels, selectedLut.lut, lutStrength);
+    }
+    if (activeTab === 'match' && referenceStats && colorMatchOptions.strength > 0) {
+      return (pixels: ImageData) => applyColorMatchToImageData(pixels, referenceStats, colorMatchOptions);
+    }
+    return null;
+  }, [activeTab, localAdjustments, toneSettings, selectedLut, lutStrength, referenceStats, colorMatchOptions]);
+  const previewSourceFile = activeTab === 'adjust' ? localAdjustSourceFile : editImageFile;
+  // 涂抹了保留区域时只预览涂抹区域内的变化
+  const previewMask = PRESERVE_TABS.includes(activeTab) && preserveOptions.mode === 'brush' ? preserveMask : null;
+  // 本地工具（曲线、配色）作用范围的说明
+  const localEditScopeLabel = [
+    targetLayer?.kind === 'image' ? `图层“${targetLayer.name}”` : '',
+    preserveOptions.mode === 'brush' ? '涂抹区域' : '',
+  ].filter(Boolean).join('的');
+
+  useEffect(() => {
+    setReferenceStats(null);
+    if (!colorMatchReference) return;
+    let cancelled = false;
+    computeColorStats(colorMatchReference).then(
+      stats => { if (!cancelled) setReferenceStats(stats); },
+      e => reportError(e instanceof Error ? e : '无法读取参考图')
+    );
+    return () => { cancelled = true; };
+  }, [colorMatchReference]);
+
+  // 可以作为配色参考的合成素材：历史中的合成操作和最近一次批量合成的输入
+  const fusionSourceImages = useMemo(() => {
+    const files = new Set<File>(fusionBatchInputRef.current?.sourceImages ?? []);
+    (historyTree ? getHistoryNodes<LastAction>(historyTree) : []).forEach(node => {
+      if (node.operation?.type === 'fusion') node.operation.sourceImages.forEach(file => files.add(file));
+    });
+    return [...files];
+  }, [historyTree, fusionResults]);
+
+  // 在后台检查活动分支上有修改范围的编辑是否超出了范围（结果按图片缓存，不会重复计算）
+  useEffect(() => {
+    if (!historyTree) return;
+    let cancelled = false;
+    getActiveBranch<LastAction>(historyTree).forEach(node => {
+      const expectedRegion = expectedRegionOf(node.operation);
+      const parent = node.parentId ? historyTree.nodes[node.parentId] : undefined;
+      if (!expectedRegion || !parent) return;
+      getImageDiff(parent.imageKey, node.imageKey, { expectedRegion }).then(
+        diff => { if (!cancelled) setDriftWarnings(warnings => ({ ...warnings, [node.id]: diff.driftWarning })); },
+        e => console.warn('Failed to compare images', e)
+      );
+    });
+    return () => { cancelled = true; };
+  }, [historyTree]);
+
+  // 对比模式可选的来源：任意历史状态（包括其他分支）和成功的批量结果
+  const compareSources = useMemo((): CompareSource[] => [
+    ...(historyTree ? getHistoryNodes<LastAction>(historyTree) : []).map((node, index) => ({
+      id: node.id,
+      label: `${index + 1}. ${node.operation ? operationNames[node.operation.type] : '原图'}${node.id === historyTree?.currentId ? '（当前）' : ''}`,
+      imageKey: node.imageKey,
+      group: '编辑历史',
+    })),
+    ...adjustmentResults.flatMap(result => result.imageKey ? [{
+      id: `adjust-${result.index}`,
+      label: `调整结果 #${result.index + 1}`,
+      imageKey: result.imageKey,
+      group: '批量调整结果',
+    }] : []),
+    ...fusionResults.flatMap(result => result.imageKey ? [{
+      id: `fusion-${result.index}`,
+      label: `合成结果 #${result.index + 1}`,
+      imageKey: result.imageKey,
+      group: '批量合成结果',
+    }] : []),
+  ], [historyTree, adjustmentResults, fusionResults]);
 
-    // Cleanup function to revoke the object URL when the component unmounts or the file changes
-    return () => URL.revokeObjectURL(objectUrl);
-  }, [originalImageFile]);
+  // Object URLs for the current, original and previewed images
+  const imageSrc = useObjectUrl(currentImageFile);
+  const originalImageSrc = useObjectUrl(originalImageFile);
+  const previewSrc = useObjectUrl(previewImageFile);
+  const layerPreviewSrc = useObjectUrl(layerPreviewFile);
 
-  const displaySrc = isComparing ? originalImageSrc : imageSrc;
+  const displaySrc = (previewNodeId && previewSrc) || (isComparing ? originalImageSrc : (isLayersDirty && layerPreviewSrc) || imageSrc);
+  // 蒙版只画在当前状态上，预览或对比其他状态时隐藏
+  // 编辑图层蒙版时只显示图层蒙版
+  const showLayerMaskCanvas = isLayersOpen && !!selectedLayer && !!layerMaskTool && !previewNodeId && !isComparing;
+  const showMaskCanvas = (preserveOptions.mode === 'brush' && PRESERVE_TABS.includes(activeTab) || activeTab === 'retouch' && retouchScope === 'mask')
+    && !previewNodeId && !isComparing && !showLayerMaskCanvas;
 
-  const updateHistory = (newFile: File) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newFile);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  // 新的编辑作为 parentId（默认当前节点）的子节点加入历史树；已有的重做记录保留为其他分支
+  const updateHistory = (imageKey: string, operation: LastAction, params?: GenerationParams, parentId?: string) => {
+    setHistoryTree(tree => tree && addHistoryNode(tree, imageKey, operation, params, parentId));
     // Reset any single-use state
     setCrop(undefined);
     setCompletedCrop(undefined);
     setRetouchHotspot(null);
   };
+
+  // 启用了图层时，编辑结果作为新图层放在编辑目标之上（没有目标时放在最上面），历史节点保存合成图。
+  // 挂到其他节点下的结果（例如较早的批量生成）和裁剪不使用当前的图层
+  const commitEdit = async (imageKey: string, operation: LastAction, params?: GenerationParams, parentId?: string) => {
+    if (!layerStack || operation.type === 'crop' || (parentId && parentId !== historyTree?.currentId)) {
+      updateHistory(imageKey, operation, params, parentId);
+      return;
+    }
+    const layer = await createImageLayer(layerStack, imageKey, operationNames[operation.type]);
+    const layers = insertLayer(layerStack, layer, layerTarget);
+    setSelectedLayerId(layer.id);
+    updateHistory(putImage(await compositeLayers(layers)), { ...operation, layers }, params, parentId);
+  };
   
   const handleLocalFileSelect = (files: FileList | null) => {
     if (files && files.length > 0) {
       const file = files[0];
       if (file.size > MAX_FILE_SIZE_BYTES) {
-        setError(`图片文件大小不能超过 ${MAX_FILE_SIZE_MB}MB。请选择一个较小的文件。`);
+        reportError(`图片文件大小不能超过 ${MAX_FILE_SIZE_MB}MB。请选择一个较小的文件。`);
         return;
       }
-      setHistory([file]);
-      setHistoryIndex(0);
+      // 更换主图会开始新项目，先保存当前项目
+      const state = getProjectState();
+      if (project && state) persistProject(project, state);
+      setHistoryTree(createHistoryTree<LastAction>(putImage(file)));
+      setProject(createProject(file.name));
       setActiveTab('fusion');
       setError(null);
-      setLastAction(null);
       onFileSelect(files);
     }
   };
 
-  const handleLocalImageGenerated = (dataUrl: string) => {
+  const handleLocalImageGenerated = (dataUrl: string, prompt: string) => {
     setIsLoading(true); // show spinner while converting
     try {
         const newFile = dataURLtoFile(dataUrl, `generated-${Date.now()}.png`);
-        setHistory([newFile]);
-        setHistoryIndex(0);
+        setHistoryTree(createHistoryTree<LastAction>(putImage(newFile)));
+        setProject(createProject(`文生图：${prompt.slice(0, 20)}`));
         setActiveTab('fusion'); // or another default
         setError(null);
-        setLastAction(null);
         onImageGenerated(dataUrl);
     } catch(e) {
         console.error("Failed to process generated image", e);
-        setError(e instanceof Error ? e.message : '处理生成图像时出错');
+        reportError(e instanceof Error ? e : '处理生成图像时出错');
     } finally {
         setIsLoading(false);
     }
   }
 
-  const handleUndo = useCallback(() => {
-    if (historyIndex > 0) {
-      setHistoryIndex(historyIndex - 1);
+  // 还原项目：历史树、批量结果及其输入、未提交的修饰提示词
+  const applyProject = (meta: ProjectMeta, state: ProjectState<LastAction>) => {
+    adjustmentBatchInputRef.current = state.adjustment.input;
+    fusionBatchInputRef.current = state.fusion.input && { ...state.fusion.input, sourceImages: state.fusion.input.sourceImages ?? [] };
+    setProject(meta);
+    setHistoryTree(state.tree);
+    abortRetries(adjustmentRetryRef);
+    abortRetries(fusionRetryRef);
+    setAdjustmentResults(state.adjustment.results);
+    setFusionResults(state.fusion.results);
+    setRetouchPrompt(state.retouchPrompt);
+    setActiveTab('fusion');
+    setError(null);
+  };
+
+  const handleResumeProject = async (id: string) => {
+    const loaded = await loadProject<LastAction>(id, lastActionImages);
+    if (!loaded) {
+      throw new Error('找不到该项目，可能已被删除。');
+    }
+    applyProject(loaded.meta, loaded.state);
+    if (loaded.missingImages > 0) {
+      reportError(`项目中有 ${loaded.missingImages} 张图片已从本地存储中丢失，相关的步骤和结果无法显示。`);
     }
-  }, [historyIndex]);
+  };
 
-  const handleRedo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(historyIndex + 1);
+  // 打开项目文件；导入的项目作为新项目自动保存到本地
+  const handleOpenProject = async (file: File) => {
+    const { meta, state } = await importProjectArchive<LastAction>(file, lastActionImages);
+    const current = getProjectState();
+    if (project && current) persistProject(project, current);
+    applyProject(meta, state);
+  };
+
+  const handleSaveProjectFile = async () => {
+    const state = getProjectState();
+    if (!project || !state) return;
+    setIsLoading(true);
+    try {
+      const archive = await exportProjectArchive(project, state, lastActionImages);
+      downloadBlob(archive, `${project.name.replace(/[\\/:*?"<>|]/g, '_')}${PROJECT_ARCHIVE_EXTENSION}`);
+    } catch (e) {
+      console.error('Failed to export project', e);
+      reportError(e instanceof Error ? e : '导出项目时出错');
+    } finally {
+      setIsLoading(false);
     }
-  }, [historyIndex, history.length]);
+  };
+
+  const getProjectState = (): ProjectState<LastAction> | null => historyTree && {
+    tree: historyTree,
+    adjustment: { results: adjustmentResults, input: adjustmentBatchInputRef.current },
+    fusion: { results: fusionResults, input: fusionBatchInputRef.current },
+    retouchPrompt,
+  };
+
+  const persistProject = (meta: ProjectMeta, state: ProjectState<LastAction>) => {
+    saveProject(meta, state, lastActionImages).catch(e => {
+      console.warn('Failed to autosave project', e);
+      if (e instanceof DOMException && e.name === 'QuotaExceededError') {
+        reportError('存储空间不足，自动保存失败。请回到主页清理旧项目。');
+      }
+    });
+  };
+
+  // 历史、批量结果或提示词变化后自动保存；批量生成中每完成一张都会保存，崩溃后已生成的结果不会丢失
+  useEffect(() => {
+    const state = getProjectState();
+    if (!project || !state) return;
+    const timer = setTimeout(() => persistProject(project, state), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, historyTree, adjustmentResults, fusionResults, retouchPrompt]);
+
+  // 撤销/重做沿当前活动分支移动
+  const handleUndo = useCallback(() => {
+    setHistoryTree(tree => tree && undoHistory(tree));
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    setHistoryTree(tree => tree && redoHistory(tree));
+  }, []);
+
+  const handleSelectHistoryNode = useCallback((id: string) => {
+    setPreviewNodeId(null);
+    setHistoryTree(tree => tree && selectHistoryNode(tree, id));
+  }, []);
+
+  const handleDeleteHistoryNode = useCallback((id: string) => {
+    setPreviewNodeId(null);
+    setHistoryTree(tree => tree && removeHistoryNode(tree, id));
+  }, []);
+
+  const handleDuplicateHistoryNode = useCallback((id: string) => {
+    setHistoryTree(tree => tree && duplicateHistoryNode(tree, id));
+  }, []);
+
+  const handleExportHistoryNode = useCallback((id: string) => {
+    const node = historyTree?.nodes[id];
+    if (!node) return;
+    getImage(node.imageKey)
+      .then(file => downloadImageFile(file, `step-${node.createdAt}`))
+      .catch(e => reportError(e instanceof Error ? e : '导出图片时出错'));
+  }, [historyTree]);
+
+  // 默认对比父状态和当前状态；从时间轴打开时对比所选状态和当前状态
+  const handleOpenCompare = useCallback((leftId?: string) => {
+    if (!historyTree) return;
+    const current = getCurrentNode<LastAction>(historyTree);
+    setCompareIds({ leftId: leftId ?? current.parentId ?? current.id, rightId: current.id });
+    setPreviewNodeId(null);
+  }, [historyTree]);
 
   const handleStartOver = useCallback(() => {
-    setHistory([]);
-    setHistoryIndex(-1);
-    setLastAction(null);
+    // 回主页前立即保存，不等自动保存的延时
+    const state = getProjectState();
+    if (project && state) persistProject(project, state);
+    setProject(null);
+    setHistoryTree(null);
+    setCompareIds(null);
+    setIsDiffOpen(false);
+    setIsLayersOpen(false);
+    setDriftWarnings({});
+    abortRetries(adjustmentRetryRef);
+    abortRetries(fusionRetryRef);
+    setAdjustmentResults([]);
+    setFusionResults([]);
+    adjustmentBatchInputRef.current = null;
+    fusionBatchInputRef.current = null;
     setCrop(undefined);
     setCompletedCrop(undefined);
     setRetouchHotspot(null);
     setRetouchPrompt('');
-  }, []);
+  }, [project, historyTree, adjustmentResults, fusionResults, retouchPrompt]);
   
-  const handleSaveImage = useCallback(() => {
-    if (currentImageFile) {
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(currentImageFile);
-        const originalName = currentImageFile.name.substring(0, currentImageFile.name.lastIndexOf('.')) || 'image';
-        link.download = `${originalName}-edited.png`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(link.href);
-    }
-  }, [currentImageFile]);
+  // 保存拼合后的图片；图层有未应用的修改时保存画布上看到的合成结果
+  const handleSaveImage = useCallback(async () => {
+    try {
+      const file = layerStack && isLayersDirty ? await compositeLayers(layerStack) : currentImageFile;
+      if (file) {
+          downloadImageFile(file, 'edited');
+      }
+    } catch (e) {
+      console.error('Failed to export image', e);
+      reportError(e instanceof Error ? e : '导出图片时出错');
+    }
+  }, [currentImageFile, layerStack, isLayersDirty]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -295,35 +785,253 @@ const EditorView: React.FC<{
     };
   }, [isLoading, currentImageFile, handleUndo, handleRedo, handleSaveImage]);
 
-  const runGenerativeTask = async (task: () => Promise<string>) => {
+  // 成功后把结果作为 operation 节点挂在 parentId（默认当前节点）下
+  const runGenerativeTask = async (task: (signal: AbortSignal) => Promise<EditResult>, operation: LastAction, parentId?: string) => {
+    const controller = new AbortController();
+    setAbortController(controller);
     setIsLoading(true);
     setError(null);
     setRetouchHotspot(null);
     try {
-      const resultDataUrl = await task();
-      const newFile = dataURLtoFile(resultDataUrl, `edit-${Date.now()}.png`);
-      updateHistory(newFile);
+      const { dataUrl, params } = await task(controller.signal);
+      // 用户已取消：迟到的结果不写入历史
+      if (controller.signal.aborted) return;
+      const newFile = dataURLtoFile(dataUrl, `edit-${Date.now()}.png`);
+      await commitEdit(putImage(newFile), operation, params, parentId);
     } catch (e) {
+      if (controller.signal.aborted) return;
       console.error(e);
-      setError(e instanceof Error ? e.message : '发生了未知错误');
+      reportError(e instanceof Error ? e : '发生了未知错误');
     } finally {
-      setIsLoading(false);
+      if (!controller.signal.aborted) setIsLoading(false);
+      setAbortController(current => current === controller ? null : current);
     }
   };
   
-  const handleApplyFilter = (prompt: string) => {
-    setLastAction({ type: 'filters', prompt });
-    runGenerativeTask(() => generateFilteredImage(currentImageFile, prompt));
+  const updatePreserveOptions = (next: Partial<PreserveOptions>) => {
+    setPreserveOptions(next);
+    setPreserveOptionsState(getPreserveOptions());
+  };
+
+  const handleEnableLayers = async () => {
+    if (!currentNode) return;
+    try {
+      const stack = await createLayerStack(currentNode.imageKey);
+      setLayerStack(stack);
+      setSelectedLayerId(stack.layers[0].id);
+    } catch (e) {
+      console.error('Failed to create layers', e);
+      reportError(e instanceof Error ? e : '创建图层时出错');
+    }
+  };
+
+  // 把图层的修改作为新的历史步骤，节点保存合成图和图层栈
+  const handleApplyLayers = async () => {
+    if (!layerStack || !isLayersDirty) return;
+    setIsLoading(true);
+    setError(null);
+    setLayerMaskTool(null);
+    try {
+      updateHistory(putImage(await compositeLayers(layerStack)), { type: 'layers', layers: layerStack });
+    } catch (e) {
+      console.error('Failed to composite layers', e);
+      reportError(e instanceof Error ? e : '合成图层时出错');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleInvertLayerMask = () => {
+    if (!imageSize || !selectedLayer) return;
+    const id = selectedLayer.id;
+    invertMask(selectedLayer.mask ?? null, imageSize.width, imageSize.height)
+      .then(mask => setLayerStack(stack => stack && updateLayer(stack, id, { mask })))
+      .catch(e => reportError(e instanceof Error ? e : '反选蒙版时出错'));
+  };
+
+  const handleApplyLocalAdjustments = async () => {
+    if (!localAdjustSourceFile || isDefaultAdjustments(localAdjustments)) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const file = await applyLocalAdjustments(localAdjustSourceFile, localAdjustments);
+      await commitEdit(putImage(file), { type: 'localAdjust', adjustments: localAdjustments }, undefined, localAdjustParentId ?? undefined);
+    } catch (e) {
+      console.error('Failed to apply local adjustments', e);
+      reportError(e instanceof Error ? e : '应用调整时出错');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 曲线和色阶作用于编辑目标（图层或合成图）；涂抹了保留区域时只改变涂抹区域
+  const handleApplyTone = async () => {
+    if (!editImageFile || isDefaultTone(toneSettings)) return;
+    const preserve = getPreserveSettings();
+    if (preserve === null) return;
+    setIsLoading(true);
+    setError(null);
+    setMaskTool(null);
+    try {
+      let file = await applyTone(editImageFile, toneSettings);
+      if (preserve) {
+        file = dataURLtoFile(await compositeChangedRegion(editImageFile, file, preserve, { align: false }), `tone-${Date.now()}.png`);
+      }
+      await commitEdit(putImage(file), { type: 'tone', tone: toneSettings, preserve });
+    } catch (e) {
+      console.error('Failed to apply tone curves', e);
+      reportError(e instanceof Error ? e : '应用曲线时出错');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // LUT 和曲线一样在本地作用于编辑目标，涂抹了保留区域时只改变涂抹区域
+  const handleApplyLut = async () => {
+    if (!editImageFile || !selectedLut || lutStrength <= 0) return;
+    const preserve = getPreserveSettings();
+    if (preserve === null) return;
+    setIsLoading(true);
+    setError(null);
+    setMaskTool(null);
+    try {
+      let file = await applyLut(editImageFile, selectedLut.lut, lutStrength);
+      if (preserve) {
+        file = dataURLtoFile(await compositeChangedRegion(editImageFile, file, preserve, { align: false }), `lut-${Date.now()}.png`);
+      }
+      await commitEdit(putImage(file), { type: 'lut', presetId: selectedLut.id, name: selectedLut.name, strength: lutStrength, preserve });
+      // 结果上不再叠加预览
+      setSelectedLut(null);
+    } catch (e) {
+      console.error('Failed to apply LUT', e);
+      reportError(e instanceof Error ? e : '应用 LUT 时出错');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 用同一个 LUT 和强度处理一批图片，打包下载；不进入编辑历史
+  const handleBatchApplyLut = async (files: File[]) => {
+    if (!selectedLut || files.length === 0) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const entries: ZipEntry[] = [];
+      for (const [index, file] of files.entries()) {
+        const result = await applyLut(file, selectedLut.lut, lutStrength);
+        const baseName = file.name.substring(0, file.name.lastIndexOf('.')) || 'image';
+        entries.push({ name: `${String(index + 1).padStart(3, '0')}-${baseName}.png`, data: new Uint8Array(await result.arrayBuffer()) });
+      }
+      downloadBlob(createZip(entries), `${selectedLut.name.replace(/[\\/:*?"<>|]/g, '_')}-lut.zip`);
+    } catch (e) {
+      console.error('Failed to apply LUT to batch', e);
+      reportError(e instanceof Error ? e : '批量应用 LUT 时出错');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 配色和曲线一样在本地作用于编辑目标，涂抹了保留区域时只改变涂抹区域
+  const handleApplyColorMatch = async () => {
+    if (!editImageFile || !colorMatchReference || !referenceStats) return;
+    const preserve = getPreserveSettings();
+    if (preserve === null) return;
+    setIsLoading(true);
+    setError(null);
+    setMaskTool(null);
+    try {
+      let file = await matchColors(editImageFile, referenceStats, colorMatchOptions);
+      if (preserve) {
+        file = dataURLtoFile(await compositeChangedRegion(editImageFile, file, preserve, { align: false }), `color-match-${Date.now()}.png`);
+      }
+      await commitEdit(putImage(file), { type: 'match', referenceKey: putImage(colorMatchReference), ...colorMatchOptions, preserve });
+    } catch (e) {
+      console.error('Failed to match colors', e);
+      reportError(e instanceof Error ? e : '匹配颜色时出错');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 用同一张参考图处理调整和合成的全部批量结果，结果原位替换
+  const handleApplyColorMatchToBatch = async () => {
+    if (!referenceStats) return;
+    const stats = referenceStats;
+    const options = colorMatchOptions;
+    // 逐张处理，避免同时解码多张全尺寸图片。每张完成后单独写回，
+    // 处理期间重试完成的结果（图片已经换了）保持不变
+    const matchResults = async (results: BatchResult[], setResults: (update: (current: BatchResult[]) => BatchResult[]) => void) => {
+      for (const result of results) {
+        if (result.status !== 'success' || !result.imageKey) continue;
+        const file = await matchColors(await getImage(result.imageKey), stats, options);
+        const matched: BatchResult = { ...result, imageKey: putImage(file), imageUrl: await createPreviewUrl(file) };
+        setResults(current => current.map(item =>
+          item.index === result.index && item.imageKey === result.imageKey ? matched : item
+        ));
+      }
+    };
+    setIsLoading(true);
+    setError(null);
+    try {
+      await matchResults(adjustmentResults, setAdjustmentResults);
+      await matchResults(fusionResults, setFusionResults);
+    } catch (e) {
+      console.error('Failed to match colors of batch results', e);
+      reportError(e instanceof Error ? e : '批量匹配颜色时出错');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // 载入当前这一步的调整参数，在它之前的图片上重新编辑
+  const handleEditLocalAdjustmentStep = () => {
+    if (lastAction?.type !== 'localAdjust' || !currentNode?.parentId) return;
+    setLocalAdjustments(lastAction.adjustments);
+    setLocalAdjustParentId(currentNode.parentId);
+  };
+
+  const handleInvertMask = () => {
+    if (!imageSize) return;
+    invertMask(preserveMask, imageSize.width, imageSize.height)
+      .then(setPreserveMask)
+      .catch(e => reportError(e instanceof Error ? e : '反选蒙版时出错'));
+  };
+
+  // 当前选择的合成设置；手动涂抹模式下还没有涂抹时返回 null 并提示用户
+  const getPreserveSettings = (): PreserveSettings | undefined | null => {
+    if (preserveOptions.mode === 'off') return undefined;
+    if (preserveOptions.mode === 'brush' && !preserveMask) {
+      reportError('请先在图片上涂抹要修改的区域，或把“保留未编辑区域”切换为自动检测。');
+      return null;
+    }
+    return { feather: preserveOptions.feather, mask: preserveOptions.mode === 'brush' ? preserveMask ?? undefined : undefined };
+  };
+
+  // 生成当前图片的编辑，按需把结果只合成回修改过的区域
+  const runPreservingTask = (task: (signal: AbortSignal) => Promise<EditResult>, operation: LastAction, preserve: PreserveSettings | undefined) => {
+    if (!editImageFile) return;
+    const source = editImageFile;
+    setMaskTool(null);
+    runGenerativeTask(withPreservedRegions(task, async () => source, preserve), { ...operation, preserve });
+  };
+
+  const handleApplyFilter = (prompt: string, pinned?: PinnedParams) => {
+    if (!editImageFile) return;
+    const preserve = getPreserveSettings();
+    if (preserve === null) return;
+    runPreservingTask(signal => generateFilteredImage(editImageFile, prompt, { ...pinned, signal }), { type: 'filters', prompt, pinned }, preserve);
   };
   
-  const handleApplyAdjustment = async (prompt: string, count: number = 1, variationIntensity?: string) => {
-    setLastAction({ type: 'adjust', prompt, count, variationIntensity });
+  const handleApplyAdjustment = async (prompt: string, count: number = 1, variationIntensity?: string, pinned?: PinnedParams) => {
+    if (!historyTree || !editImageFile) return;
+    const operation: LastAction = { type: 'adjust', prompt, count, variationIntensity, pinned };
+    abortRetries(adjustmentRetryRef);
     setAdjustmentResults([]); // 清空之前的结果
     setAdjustmentProgress(null); // 清空进度状态
     
     if (count === 1) {
       // 单张图片，使用原有逻辑
-      runGenerativeTask(() => generateAdjustedImage(currentImageFile, prompt));
+      runGenerativeTask(signal => generateAdjustedImage(editImageFile, prompt, { ...pinned, signal }), operation);
     } else {
       // 多张图片，使用流式生成
       setIsLoading(true);
@@ -333,47 +1041,54 @@ const EditorView: React.FC<{
       // 创建 AbortController
       const controller = new AbortController();
       setAbortController(controller);
+      adjustmentBatchInputRef.current = { imageFile: editImageFile, parentId: historyTree.currentId, operation };
       
       try {
         const results = await generateAdjustedImages(
-          currentImageFile,
+          editImageFile,
           prompt,
           count,
           variationIntensity || 'moderate',
-          (imageUrl: string, current: number, total: number) => {
-            // 进度回调：每生成一张图片就添加到结果中
-            setAdjustmentResults(prev => {
-              const newResults = [...prev, imageUrl];
-              return newResults;
-            });
-            setAdjustmentProgress({ current, total });
+          (event) => {
+            if (event.type === 'retry') {
+              // 重试时在进度中显示“重试 2/3”
+              setAdjustmentProgress(prev => prev && { ...prev, retry: { index: event.index, attempt: event.attempt, maxAttempts: event.maxAttempts } });
+              return;
+            }
+            // 进度回调：每生成一张图片就添加到结果中（并发完成顺序不定，按位置排序）
+            setAdjustmentResults(prev => [...prev, event.result].sort((a, b) => a.index - b.index));
+            setAdjustmentProgress({ current: event.current, total: event.total });
           },
-          controller.signal
+          controller.signal,
+          pinned
         );
         
         // 确保所有结果都被设置
         setAdjustmentResults(results);
         setAdjustmentProgress({ current: count, total: count });
       } catch (error: any) {
+        if (controller.signal.aborted) return;
         console.error('批量调整失败:', error);
-        setError(error.message || '调整过程中发生错误');
+        reportError(error instanceof Error ? error : '调整过程中发生错误');
       } finally {
-        setIsLoading(false);
-        setAbortController(null); // 清理 AbortController
+        if (!controller.signal.aborted) setIsLoading(false);
+        setAbortController(current => current === controller ? null : current); // 清理 AbortController
         // 几秒后清除进度状态
         setTimeout(() => setAdjustmentProgress(null), 3000);
       }
     }
   };
   
-  const handleApplyFusion = async (sourceImages: File[], prompt: string, count: number = 1, variationIntensity?: string) => {
-    setLastAction({ type: 'fusion', prompt, sourceImages });
+  const handleApplyFusion = async (sourceImages: File[], prompt: string, count: number = 1, variationIntensity?: string, pinned?: PinnedParams) => {
+    if (!historyTree || !editImageFile) return;
+    const operation: LastAction = { type: 'fusion', prompt, sourceImages, count, variationIntensity, pinned };
+    abortRetries(fusionRetryRef);
     setFusionResults([]); // 清空之前的结果
     setFusionProgress(null); // 清空进度状态
     
     if (count === 1) {
       // 单张图片，使用原有逻辑
-      runGenerativeTask(() => generateFusedImage(currentImageFile, sourceImages, prompt));
+      runGenerativeTask(signal => generateFusedImage(editImageFile, sourceImages, prompt, { ...pinned, signal }), operation);
     } else {
       // 多张图片，使用流式生成
       setIsLoading(true);
@@ -383,75 +1098,111 @@ const EditorView: React.FC<{
       // 创建 AbortController
       const controller = new AbortController();
       setAbortController(controller);
+      const batchInput = { imageFile: editImageFile, sourceImages, parentId: historyTree.currentId, operation };
+      fusionBatchInputRef.current = batchInput;
       
       try {
         const results = await generateFusedImages(
-          currentImageFile, 
+          editImageFile, 
           sourceImages, 
           prompt, 
           count, 
           variationIntensity,
-          (imageUrl, current, total) => {
-            // 每生成一张图片就立即添加到结果中
-            setFusionResults(prev => [...prev, imageUrl]);
-            setFusionProgress({ current, total });
+          (event) => {
+            if (event.type === 'retry') {
+              setFusionProgress(prev => prev && { ...prev, retry: { index: event.index, attempt: event.attempt, maxAttempts: event.maxAttempts } });
+              return;
+            }
+            // 每生成一张图片就立即添加到结果中（并发完成顺序不定，按位置排序）
+            setFusionResults(prev => [...prev, event.result].sort((a, b) => a.index - b.index));
+            setFusionProgress({ current: event.current, total: event.total });
           },
-          controller.signal
+          controller.signal,
+          pinned
         );
         
-        // 如果需要，可以将第一张设为当前图片
-        if (results.length > 0) {
-          const firstResult = await fetch(results[0]).then(r => r.blob());
-          const file = new File([firstResult], 'fusion-result.png', { type: 'image/png' });
-          updateHistory(file);
+        // 如果需要，可以将第一张成功的结果设为当前图片
+        // 取消后不再把结果写入历史
+        const firstSuccess = results.find(result => result.status === 'success');
+        if (firstSuccess?.imageKey && !controller.signal.aborted) {
+          // 和网格中的“应用”一样经过 commitEdit：启用了图层时结果作为新图层插在编辑目标之上
+          await commitEdit(firstSuccess.imageKey, operation, batchResultParams(firstSuccess), batchInput.parentId);
         }
       } catch (e) {
+        if (controller.signal.aborted) return;
         console.error("Failed to generate fusion images", e);
-        setError(e instanceof Error ? e.message : '生成合成图片时出错');
+        reportError(e instanceof Error ? e : '生成合成图片时出错');
       } finally {
-        setIsLoading(false);
-        setAbortController(null); // 清理 AbortController
+        if (!controller.signal.aborted) setIsLoading(false);
+        setAbortController(current => current === controller ? null : current); // 清理 AbortController
         setFusionProgress(null); // 清空进度状态
       }
     }
   };
   
   // 处理应用单个合成结果到主画布
-  const handleApplyFusionResult = async (imageUrl: string) => {
+  // 结果的全尺寸图片已在 imageStore 中，直接作为新的历史节点
+  const handleApplyFusionResult = (imageUrl: string) => {
+    const input = fusionBatchInputRef.current;
+    const result = fusionResults.find(item => item.imageUrl === imageUrl);
+    if (!input || !result?.imageKey) return;
+    commitEdit(result.imageKey, input.operation, batchResultParams(result), input.parentId)
+      .catch(e => reportError(e instanceof Error ? e : '应用结果时出错'));
+    abortRetries(fusionRetryRef);
+    setFusionResults([]); // 清空结果
+  };
+  
+  // 处理应用单个调整结果到主画布
+  const handleApplyAdjustmentResult = (imageUrl: string) => {
+    const input = adjustmentBatchInputRef.current;
+    const result = adjustmentResults.find(item => item.imageUrl === imageUrl);
+    if (!input || !result?.imageKey) return;
+    commitEdit(result.imageKey, input.operation, batchResultParams(result), input.parentId)
+      .catch(e => reportError(e instanceof Error ? e : '应用结果时出错'));
+    abortRetries(adjustmentRetryRef);
+    setAdjustmentResults([]); // 清空结果
+  };
+
+  // 重试批量结果中的单个位置：新种子、同样的变化描述，可选地修改指令，结果原位替换
+  // 重试期间批量被取消或换成了新的一批时丢弃结果
+  const handleRetryAdjustmentResult = async (index: number, instruction?: string) => {
+    const input = adjustmentBatchInputRef.current;
+    const previous = adjustmentResults.find(result => result.index === index);
+    if (!input || !previous) return;
+    const { signal } = adjustmentRetryRef.current;
     try {
-      const response = await fetch(imageUrl);
-      const blob = await response.blob();
-      const file = new File([blob], 'fusion-applied.png', { type: 'image/png' });
-      updateHistory(file);
-      setFusionResults([]); // 清空结果
+      const result = await regenerateAdjustedImage(input.imageFile, previous, instruction, signal);
+      if (signal.aborted || adjustmentBatchInputRef.current !== input) return;
+      setAdjustmentResults(prev => prev.map(item => item.index === index ? result : item));
     } catch (e) {
-      console.error("Failed to apply fusion result", e);
-      setError('应用合成结果时出错');
+      if (!signal.aborted) throw e;
     }
   };
   
-  // 处理应用单个调整结果到主画布
-  const handleApplyAdjustmentResult = async (imageUrl: string) => {
+  const handleRetryFusionResult = async (index: number, instruction?: string) => {
+    const input = fusionBatchInputRef.current;
+    const previous = fusionResults.find(result => result.index === index);
+    if (!input || !previous) return;
+    const { signal } = fusionRetryRef.current;
     try {
-      const response = await fetch(imageUrl);
-      const blob = await response.blob();
-      const file = new File([blob], 'adjustment-applied.png', { type: 'image/png' });
-      updateHistory(file);
-      setAdjustmentResults([]); // 清空结果
+      const result = await regenerateFusedImage(input.imageFile, input.sourceImages, previous, instruction, signal);
+      if (signal.aborted || fusionBatchInputRef.current !== input) return;
+      setFusionResults(prev => prev.map(item => item.index === index ? result : item));
     } catch (e) {
-      console.error("Failed to apply adjustment result", e);
-      setError('应用调整结果时出错');
+      if (!signal.aborted) throw e;
     }
   };
 
-  const handleApplyTexture = (prompt: string) => {
-    setLastAction({ type: 'texture', prompt });
-    runGenerativeTask(() => generateTexturedImage(currentImageFile, prompt));
+  const handleApplyTexture = (prompt: string, pinned?: PinnedParams) => {
+    if (!editImageFile) return;
+    const preserve = getPreserveSettings();
+    if (preserve === null) return;
+    runPreservingTask(signal => generateTexturedImage(editImageFile, prompt, { ...pinned, signal }), { type: 'texture', prompt, pinned }, preserve);
   };
 
-  const handleRemoveBackground = () => {
-    setLastAction({ type: 'erase' });
-    runGenerativeTask(() => removeBackgroundImage(currentImageFile));
+  const handleRemoveBackground = (pinned?: PinnedParams) => {
+    if (!editImageFile) return;
+    runGenerativeTask(signal => removeBackgroundImage(editImageFile, { ...pinned, signal }), { type: 'erase', pinned });
   };
 
   const handleApplyCrop = async () => {
@@ -464,11 +1215,10 @@ const EditorView: React.FC<{
                 completedCrop,
                 `crop-${Date.now()}.png`
             );
-            updateHistory(croppedImageFile);
-            setLastAction(null); // Crop is not a generative action we can re-run
+            updateHistory(putImage(croppedImageFile), { type: 'crop' }); // Crop is not a generative action we can re-run
         } catch(e) {
             console.error("Cropping failed", e);
-            setError(e instanceof Error ? e.message : '裁剪图片时出错');
+            reportError(e instanceof Error ? e : '裁剪图片时出错');
         } finally {
             setIsLoading(false);
         }
@@ -476,7 +1226,7 @@ const EditorView: React.FC<{
   };
 
   const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
-    if (activeTab !== 'retouch' || !imgRef.current) return;
+    if (activeTab !== 'retouch' || retouchScope === 'mask' || !imgRef.current) return;
     
     const rect = imgRef.current.getBoundingClientRect();
     const scaleX = imgRef.current.naturalWidth / rect.width;
@@ -488,56 +1238,117 @@ const EditorView: React.FC<{
     setRetouchHotspot({ x, y });
   };
 
+  // 局部修饰时框选的区域（原图像素坐标）
+  const getRetouchSelection = (): ImageArea | undefined => {
+    const image = imgRef.current;
+    if (retouchScope !== 'local' || !completedCrop?.width || !completedCrop?.height || !image) return undefined;
+    const scaleX = image.naturalWidth / image.width;
+    const scaleY = image.naturalHeight / image.height;
+    return {
+      x: Math.round(completedCrop.x * scaleX),
+      y: Math.round(completedCrop.y * scaleY),
+      width: Math.round(completedCrop.width * scaleX),
+      height: Math.round(completedCrop.height * scaleY),
+    };
+  };
+
+  const canApplyRetouch = !!retouchPrompt.trim() && (retouchScope === 'mask'
+    ? !!preserveMask
+    : !!retouchHotspot || (retouchScope === 'local' && !!completedCrop?.width && !!completedCrop?.height));
+
   const handleApplyRetouch = () => {
-    if (retouchPrompt && retouchHotspot) {
-      setLastAction({ type: 'retouch', prompt: retouchPrompt, hotspot: retouchHotspot });
-      runGenerativeTask(() => generateEditedImage(currentImageFile, retouchPrompt, retouchHotspot));
+    if (retouchScope === 'mask') {
+      if (!editImageFile || !retouchPrompt || !preserveMask) return;
+      // 模型只被要求修改涂抹区域，再用同一个蒙版合成，确保蒙版外的像素保持原样
+      const mask = preserveMask;
+      runPreservingTask(
+        signal => generateMaskedEdit(editImageFile, mask, retouchPrompt, { ...retouchPinned, signal }),
+        { type: 'retouch', prompt: retouchPrompt, masked: true, pinned: retouchPinned },
+        { feather: preserveOptions.feather, mask }
+      );
+      setRetouchPrompt('');
+      return;
+    }
+    const area = getRetouchSelection();
+    // 只框选了区域时以区域中心作为热点
+    const hotspot = retouchHotspot ?? (area && { x: Math.round(area.x + area.width / 2), y: Math.round(area.y + area.height / 2) });
+    if (editImageFile && retouchPrompt && hotspot) {
+      const preserve = getPreserveSettings();
+      if (preserve === null) return;
+      const local = retouchScope === 'local';
+      runPreservingTask(
+        signal => local
+          ? generateLocalEditedImage(editImageFile, retouchPrompt, hotspot, area, { ...retouchPinned, signal })
+          : generateEditedImage(editImageFile, retouchPrompt, hotspot, { ...retouchPinned, signal }),
+        { type: 'retouch', prompt: retouchPrompt, hotspot, local: local || undefined, area, pinned: retouchPinned },
+        preserve
+      );
       setRetouchPrompt('');
     }
   };
 
-  const handleRegenerate = useCallback(() => {
-    if (!lastAction || historyIndex < 1 || isLoading) return;
+  // keepSeed 为 true 时按当前节点实际使用的种子和温度复现同一个请求，否则换一个种子重新生成。
+  // 新结果作为当前节点的兄弟分支加入历史树，原来的结果保留
+  const handleRegenerate = useCallback((keepSeed: boolean = false) => {
+    if (!historyTree || !currentNode?.parentId || !lastAction || lastAction.type === 'crop' || lastAction.type === 'layers' || lastAction.type === 'localAdjust' || lastAction.type === 'tone' || lastAction.type === 'match' || lastAction.type === 'lut' || lastAction.layers || isLoading) return;
 
     // The image state *before* the last action was applied
-    const imageToEdit = history[historyIndex - 1];
+    const parentId = currentNode.parentId;
+    // 父节点的图片可能已换出到磁盘，在任务中按需读取
+    const parentImageKey = historyTree.nodes[parentId].imageKey;
+    const params = currentNode.params;
+    const { pinned } = lastAction;
+    const options = {
+      temperature: params?.temperature ?? pinned?.temperature,
+      seed: keepSeed ? params?.seed : undefined,
+    };
 
-    let task: (() => Promise<string>) | null = null;
+    let task: ((signal: AbortSignal) => Promise<EditResult>) | null = null;
     switch (lastAction.type) {
-      case 'retouch':
-        task = () => generateEditedImage(imageToEdit, lastAction.prompt, lastAction.hotspot);
+      case 'retouch': {
+        const { prompt, hotspot, area } = lastAction;
+        const mask = lastAction.preserve?.mask;
+        if (lastAction.masked && mask) {
+          task = async signal => generateMaskedEdit(await getImage(parentImageKey), mask, prompt, { ...options, signal });
+        } else if (hotspot) {
+          task = async signal => lastAction.local
+            ? generateLocalEditedImage(await getImage(parentImageKey), prompt, hotspot, area, { ...options, signal })
+            : generateEditedImage(await getImage(parentImageKey), prompt, hotspot, { ...options, signal });
+        }
         break;
+      }
       case 'adjust':
         if (lastAction.count && lastAction.count > 1) {
           // 多图调整，使用异步处理
-          handleApplyAdjustment(lastAction.prompt, lastAction.count, lastAction.variationIntensity);
+          handleApplyAdjustment(lastAction.prompt, lastAction.count, lastAction.variationIntensity, pinned);
           return;
         } else {
           // 单图调整
-          task = () => generateAdjustedImage(imageToEdit, lastAction.prompt);
+          task = async signal => generateAdjustedImage(await getImage(parentImageKey), lastAction.prompt, { ...options, signal });
         }
         break;
       case 'filters':
-        task = () => generateFilteredImage(imageToEdit, lastAction.prompt);
+        task = async signal => generateFilteredImage(await getImage(parentImageKey), lastAction.prompt, { ...options, signal });
         break;
       case 'texture':
-        task = () => generateTexturedImage(imageToEdit, lastAction.prompt);
+        task = async signal => generateTexturedImage(await getImage(parentImageKey), lastAction.prompt, { ...options, signal });
         break;
       case 'erase':
-        task = () => removeBackgroundImage(imageToEdit);
+        task = async signal => removeBackgroundImage(await getImage(parentImageKey), { ...options, signal });
         break;
       case 'fusion':
-        task = () => generateFusedImage(imageToEdit, lastAction.sourceImages, lastAction.prompt);
+        task = async signal => generateFusedImage(await getImage(parentImageKey), lastAction.sourceImages, lastAction.prompt, { ...options, signal });
         break;
     }
 
     if (task) {
-      // Set the history index back by one. The `runGenerativeTask` will then
-      // overwrite the last state with the new regenerated one.
-      setHistoryIndex(historyIndex - 1);
-      runGenerativeTask(task);
+      // 沿用原来的合成设置，结果合成回父状态
+      runGenerativeTask(withPreservedRegions(task, () => getImage(parentImageKey), lastAction.preserve), lastAction, parentId);
     }
-  }, [lastAction, history, historyIndex, isLoading]);
+  }, [historyTree, currentNode, lastAction, isLoading]);
+
+  // 图层上的编辑依赖当时的图层栈，无法只凭父节点的图片重新生成；本地调整的结果是确定的，没有重新生成的必要
+  const canRegenerate = !!currentNode?.parentId && !!lastAction && !['crop', 'layers', 'localAdjust', 'tone', 'match', 'lut'].includes(lastAction.type) && !lastAction.layers;
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -551,6 +1362,23 @@ const EditorView: React.FC<{
     handleLocalFileSelect(e.target.files);
   };
 
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleProjectFileInputChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      await handleOpenProject(file);
+    } catch (e) {
+      console.error('Failed to open project', e);
+      reportError(e instanceof Error ? e : '打开项目时出错');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const ActionButtons = () => (
     <>
       <input
@@ -560,6 +1388,13 @@ const EditorView: React.FC<{
         accept="image/*"
         onChange={handleFileInputChange}
       />
+      <input
+        ref={projectFileInputRef}
+        type="file"
+        className="hidden"
+        accept={`${PROJECT_ARCHIVE_EXTENSION},.zip`}
+        onChange={handleProjectFileInputChange}
+      />
       <button
         onClick={handleStartOver}
         disabled={isLoading}
@@ -580,7 +1415,7 @@ const EditorView: React.FC<{
       </button>
       <button
         onClick={handleUndo}
-        disabled={historyIndex <= 0 || isLoading}
+        disabled={!historyTree || !canUndoHistory(historyTree) || isLoading}
         className="p-3 bg-white/10 rounded-full text-gray-300 hover:bg-white/20 transition-all active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed"
         aria-label="撤销"
         title="撤销 (Ctrl+Z)"
@@ -589,7 +1424,7 @@ const EditorView: React.FC<{
       </button>
       <button
         onClick={handleRedo}
-        disabled={historyIndex >= history.length - 1 || isLoading}
+        disabled={!historyTree || !canRedoHistory(historyTree) || isLoading}
         className="p-3 bg-white/10 rounded-full text-gray-300 hover:bg-white/20 transition-all active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed"
         aria-label="重做"
         title="重做 (Ctrl+Y)"
@@ -597,8 +1432,8 @@ const EditorView: React.FC<{
         <RedoIcon className="w-6 h-6" />
       </button>
        <button
-        onClick={handleRegenerate}
-        disabled={!lastAction || historyIndex < 1 || isLoading}
+        onClick={() => handleRegenerate()}
+        disabled={!canRegenerate || isLoading}
         className="p-3 bg-white/10 rounded-full text-gray-300 hover:bg-white/20 transition-all active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed"
         aria-label="重新生成"
         title="重新生成"
@@ -611,13 +1446,42 @@ const EditorView: React.FC<{
         onMouseLeave={() => setIsComparing(false)}
         onTouchStart={() => setIsComparing(true)}
         onTouchEnd={() => setIsComparing(false)}
-        disabled={isLoading || history.length < 2}
+        disabled={isLoading || !currentNode?.parentId}
         className="p-3 bg-white/10 rounded-full text-gray-300 hover:bg-white/20 transition-all active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed"
         aria-label="按住对比原图"
         title="按住对比原图"
       >
         <EyeIcon className="w-6 h-6" />
       </button>
+      <button
+        onClick={() => handleOpenCompare()}
+        disabled={isLoading || compareSources.length < 2}
+        className="p-3 bg-white/10 rounded-full text-gray-300 hover:bg-white/20 transition-all active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-label="对比模式"
+        title="对比模式（滑块 / 并排 / 叠加）"
+      >
+        <CompareIcon className="w-6 h-6" />
+      </button>
+      <button
+        onClick={() => setIsDiffOpen(open => !open)}
+        disabled={!currentNode?.parentId}
+        className={`p-3 rounded-full transition-all active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed ${isDiffOpen ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+        aria-label="差异热图"
+        aria-pressed={isDiffOpen}
+        title="差异热图：检查这次编辑改动了哪些地方"
+      >
+        <DiffIcon className="w-6 h-6" />
+      </button>
+      <button
+        onClick={() => setIsLayersOpen(open => !open)}
+        disabled={!currentNode}
+        className={`p-3 rounded-full transition-all active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed ${isLayersOpen ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+        aria-label="图层"
+        aria-pressed={isLayersOpen}
+        title="图层：不透明度、混合模式、蒙版和文字"
+      >
+        <LayersIcon className="w-6 h-6" />
+      </button>
       <button
         onClick={handleSaveImage}
         disabled={isLoading || !currentImageFile}
@@ -627,13 +1491,31 @@ const EditorView: React.FC<{
       >
         <DownloadIcon className="w-6 h-6" />
       </button>
+      <button
+        onClick={handleSaveProjectFile}
+        disabled={isLoading || !project}
+        className="p-3 bg-white/10 rounded-full text-gray-300 hover:bg-white/20 transition-all active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-label="保存项目文件"
+        title="保存项目文件（包含全部历史和批量结果）"
+      >
+        <ArchiveBoxIcon className="w-6 h-6" />
+      </button>
+      <button
+        onClick={() => projectFileInputRef.current?.click()}
+        disabled={isLoading}
+        className="p-3 bg-white/10 rounded-full text-gray-300 hover:bg-white/20 transition-all active:scale-90 disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-label="打开项目文件"
+        title="打开项目文件"
+      >
+        <FolderOpenIcon className="w-6 h-6" />
+      </button>
     </>
   );
 
   return (
     <>
-      {!currentImageFile ? (
-        <StartScreen onFileSelect={handleLocalFileSelect} onImageGenerated={handleLocalImageGenerated} />
+      {!historyTree ? (
+        <StartScreen onFileSelect={handleLocalFileSelect} onImageGenerated={handleLocalImageGenerated} onResumeProject={handleResumeProject} onOpenProject={handleOpenProject} />
       ) : (
         <div className="w-full max-w-7xl flex flex-col items-center gap-6 animate-fade-in">
           <div className="w-full max-w-4xl relative">
@@ -642,17 +1524,32 @@ const EditorView: React.FC<{
                   <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center z-20 backdrop-blur-sm">
                     <Spinner className="h-16 w-16 text-blue-400" />
                     <p className="mt-4 text-lg text-gray-300 font-semibold animate-pulse">AI 正在创作中...</p>
+                    {abortController && (
+                      <button
+                        onClick={handleCancelGeneration}
+                        className="mt-6 px-6 py-2 bg-white/10 hover:bg-red-600/80 border border-white/20 text-gray-200 hover:text-white font-semibold rounded-lg transition-colors active:scale-95"
+                      >
+                        取消
+                      </button>
+                    )}
                   </div>
                 )}
                 
+                {!displaySrc && (
+                  // 当前图片正在从磁盘读回
+                  <div className="flex items-center justify-center h-[40vh]">
+                    <Spinner className="h-10 w-10 text-gray-500" />
+                  </div>
+                )}
+
                 {displaySrc && (
                   <div className="relative">
                     <ReactCrop
                       crop={crop}
                       onChange={c => setCrop(c)}
                       onComplete={c => setCompletedCrop(c)}
-                      aspect={aspect}
-                      disabled={isLoading || activeTab !== 'crop'}
+                      aspect={activeTab === 'crop' ? aspect : undefined}
+                      disabled={isLoading || !(activeTab === 'crop' || (activeTab === 'retouch' && retouchScope === 'local'))}
                       ruleOfThirds
                     >
                       <img
@@ -661,22 +1558,57 @@ const EditorView: React.FC<{
                         alt="用户上传的内容"
                         className={`max-w-full max-h-[65vh] w-auto h-auto mx-auto block transition-opacity duration-300 ${isComparing ? 'opacity-80' : ''}`}
                         onClick={handleImageClick}
+                        onLoad={e => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
                         style={{ cursor: activeTab === 'retouch' ? 'crosshair' : 'default' }}
                       />
-                    </ReactCrop>
-                    {retouchHotspot && !isLoading && activeTab === 'retouch' && (
+                      {previewProcess && previewSourceFile && !previewNodeId && !isComparing && (
+                        <AdjustmentPreview image={previewSourceFile} process={previewProcess} mask={previewMask} />
+                      )}
+                      {showMaskCanvas && imageSize && (
+                        <MaskCanvas
+                          width={imageSize.width}
+                          height={imageSize.height}
+                          mask={preserveMask}
+                          tool={isLoading ? null : maskTool}
+                          brushSize={brushSize}
+                          onChange={setPreserveMask}
+                        />
+                      )}
+                      {showLayerMaskCanvas && selectedLayer && imageSize && (
+                        <MaskCanvas
+                          width={imageSize.width}
+                          height={imageSize.height}
+                          mask={selectedLayer.mask ?? null}
+                          tool={isLoading ? null : layerMaskTool}
+                          brushSize={brushSize}
+                          onChange={mask => setLayerStack(stack => stack && updateLayer(stack, selectedLayer.id, { mask: mask ?? undefined }))}
+                        />
+                      )}
+                      {retouchHotspot && !isLoading && activeTab === 'retouch' && imageSize && (
+                        // 放在 ReactCrop 内部，按图片本身的尺寸定位，和发送给模型的坐标一致
                         <div
-                            className="absolute z-10 pointer-events-none"
-                            style={{
-                                left: `calc(${(retouchHotspot.x / (imgRef.current?.naturalWidth ?? 1)) * 100}% - 12px)`,
-                                top: `calc(${(retouchHotspot.y / (imgRef.current?.naturalHeight ?? 1)) * 100}% - 12px)`,
-                            }}
+                          className="absolute z-10 pointer-events-none"
+                          style={{
+                            left: `calc(${(retouchHotspot.x / imageSize.width) * 100}% - 12px)`,
+                            top: `calc(${(retouchHotspot.y / imageSize.height) * 100}% - 12px)`,
+                          }}
                         >
-                            <BullseyeIcon className="w-6 h-6 text-blue-400 drop-shadow-[0_0_3px_rgba(0,0,0,0.7)]" />
+                          <BullseyeIcon className="w-6 h-6 text-blue-400 drop-shadow-[0_0_3px_rgba(0,0,0,0.7)]" />
                         </div>
-                    )}
+                      )}
+                    </ReactCrop>
                   </div>
                 )}
+                {currentNode && driftWarnings[currentNode.id] && !previewNodeId && (
+                    <button
+                        onClick={() => setIsDiffOpen(true)}
+                        className="absolute top-4 left-4 z-10 flex items-center gap-1.5 bg-amber-500/90 hover:bg-amber-400 text-gray-900 px-3 py-1 rounded-md text-sm font-semibold shadow-lg"
+                        title="查看差异热图"
+                    >
+                        <WarningIcon className="w-4 h-4" />
+                        改动超出了指定范围
+                    </button>
+                )}
                 {isComparing && (
                     <div className="absolute bottom-4 right-4 bg-black/50 text-white px-3 py-1 rounded-md text-sm font-semibold z-10">
                         正在对比原图
@@ -694,20 +1626,104 @@ const EditorView: React.FC<{
           <div className="flex md:hidden justify-center items-center gap-4">
               <ActionButtons />
           </div>
+
+          {currentNode && (
+            <div className="w-full max-w-4xl -mt-2">
+              <HistoryTimeline
+                items={timelineItems}
+                currentId={currentNode.id}
+                onSelect={handleSelectHistoryNode}
+                onPreview={setPreviewNodeId}
+                onDelete={handleDeleteHistoryNode}
+                onDuplicate={handleDuplicateHistoryNode}
+                onExport={handleExportHistoryNode}
+                onCompare={handleOpenCompare}
+                disabled={isLoading}
+              />
+            </div>
+          )}
+
+          {historyTree && currentNode?.parentId && isDiffOpen && (
+            <div className="w-full max-w-4xl">
+              <DiffView
+                imageKey={currentNode.imageKey}
+                parentImageKey={historyTree.nodes[currentNode.parentId]?.imageKey ?? null}
+                originalImageKey={getRootNode(historyTree).imageKey}
+                expectedRegion={currentExpectedRegion}
+                onClose={() => setIsDiffOpen(false)}
+              />
+            </div>
+          )}
+
+          {currentNode && isLayersOpen && (
+            <div className="w-full max-w-4xl">
+              <LayersPanel
+                stack={layerStack}
+                onChange={setLayerStack}
+                isDirty={isLayersDirty}
+                onEnable={handleEnableLayers}
+                onApply={handleApplyLayers}
+                onDiscard={() => setLayerStack(lastAction?.layers ?? null)}
+                selectedId={selectedLayerId}
+                onSelect={setSelectedLayerId}
+                targetId={layerTarget}
+                onTargetChange={setLayerTarget}
+                maskTool={layerMaskTool}
+                onMaskToolChange={setLayerMaskTool}
+                brushSize={brushSize}
+                onBrushSizeChange={setBrushSize}
+                onInvertMask={handleInvertLayerMask}
+                disabled={isLoading}
+                onClose={() => {
+                  setIsLayersOpen(false);
+                  setLayerMaskTool(null);
+                }}
+              />
+            </div>
+          )}
           
           <div className="w-full max-w-4xl">
             {error && (
               <div className="bg-red-500/20 border border-red-500 text-red-300 px-4 py-3 rounded-lg relative text-center mb-4 animate-fade-in" role="alert">
-                <strong className="font-bold">错误：</strong>
-                <span className="block sm:inline ml-2">{error}</span>
+                <strong className="font-bold">{error.code ? `${error.title}：` : '错误：'}</strong>
+                <span className="block sm:inline ml-2">{error.code ? error.hint : error.title}</span>
+                {error.code && error.detail && (
+                  <p className="mt-1 text-xs text-red-300/70 break-words">{error.detail}</p>
+                )}
+              </div>
+            )}
+
+            {currentParams && (
+              <div className="flex flex-wrap items-center justify-center gap-x-3 gap-y-1 text-xs text-gray-400 mb-4">
+                <span title={currentParams.prompt}>
+                  种子 {currentParams.seed} · 温度 {currentParams.temperature.toFixed(2)} · {currentParams.model}
+                </span>
+                <button onClick={() => navigator.clipboard?.writeText(currentParams.prompt)} className="underline hover:text-white transition-colors">
+                  复制提示词
+                </button>
+                {canRegenerate && (
+                  <button onClick={() => handleRegenerate(true)} disabled={isLoading} className="underline hover:text-white transition-colors disabled:opacity-50" title="用相同的输入、提示词、种子和温度重新请求">
+                    复现
+                  </button>
+                )}
               </div>
             )}
 
+            {currentNode && (
+              <BranchSwitcher
+                siblings={branchSiblings}
+                currentId={currentNode.id}
+                onSelect={handleSelectHistoryNode}
+                onPreview={setPreviewNodeId}
+                disabled={isLoading}
+              />
+            )}
+
             <div className="flex justify-center border-b border-gray-700 mb-4 overflow-x-auto">
               {TABS.map((tab) => (
                 <button
                   key={tab}
-                  onClick={() => { if (!isLoading) { setActiveTab(tab); setRetouchHotspot(null); } }}
+                  onClick={() => { if (!isLoading) { setActiveTab(tab); setRetouchHotspot(null); setCrop(undefined); setCompletedCrop(undefined); setMaskTool(null); } }}
                   className={`px-4 md:px-6 py-3 text-lg font-semibold border-b-2 transition-colors duration-200 ease-in-out focus:outline-none disabled:cursor-not-allowed whitespace-nowrap ${
                     activeTab === tab
                       ? 'border-blue-500 text-blue-400'
@@ -724,7 +1740,47 @@ const EditorView: React.FC<{
               {activeTab === 'retouch' && (
                   <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col items-center gap-4 animate-fade-in backdrop-blur-sm">
                       <h3 className="text-lg font-semibold text-gray-300">智能修饰</h3>
-                      <p className="text-sm text-gray-400 -mt-2">在图像上点击一个点，然后描述您想做的更改。</p>
+                      <p className="text-sm text-gray-400 -mt-2">
+                        {retouchScope === 'mask'
+                          ? '在图像上涂抹要修改的区域，然后描述您想做的更改，涂抹区域外保持不变。'
+                          : retouchScope === 'local' ? '在图像上点击一个点或拖动框选区域，然后描述您想做的更改。' : '在图像上点击一个点，然后描述您想做的更改。'}
+                      </p>
+                      <div className="flex rounded-lg overflow-hidden border border-gray-600 text-sm" role="radiogroup" aria-label="修饰范围">
+                        {([['full', '整图'], ['local', '局部高清'], ['mask', '蒙版']] as const).map(([value, label]) => (
+                          <button
+                            key={value}
+                            onClick={() => {
+                              setRetouchScope(value);
+                              setCrop(undefined);
+                              setCompletedCrop(undefined);
+                              setMaskTool(value === 'mask' ? 'brush' : null);
+                            }}
+                            disabled={isLoading}
+                            role="radio"
+                            aria-checked={retouchScope === value}
+                            title={value === 'local'
+                              ? '只按原始分辨率发送热点周围或框选的区域，结果贴回原图，适合大照片上的小修改'
+                              : value === 'mask' ? '把涂抹的蒙版和图片一起发送，模型只修改涂抹区域' : '发送整张图片（最长边缩到 2048px）'}
+                            className={`px-4 py-1.5 transition-colors disabled:opacity-50 ${retouchScope === value ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                      {retouchScope === 'mask' && (
+                        <MaskToolbar
+                          tool={maskTool}
+                          onToolChange={setMaskTool}
+                          brushSize={brushSize}
+                          onBrushSizeChange={setBrushSize}
+                          hasMask={!!preserveMask}
+                          onInvert={handleInvertMask}
+                          onClear={() => setPreserveMask(null)}
+                          feather={preserveOptions.feather}
+                          onFeatherChange={feather => updatePreserveOptions({ feather })}
+                          disabled={isLoading}
+                        />
+                      )}
                       <div className="w-full flex gap-2">
                          <input
                               type="text"
@@ -737,16 +1793,109 @@ const EditorView: React.FC<{
                           <button
                               onClick={handleApplyRetouch}
                               className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-                              disabled={isLoading || !retouchPrompt.trim() || !retouchHotspot}
+                              disabled={isLoading || !canApplyRetouch}
                           >
                               应用
                           </button>
                       </div>
+                      {retouchScope !== 'mask' && (
+                        <label className="w-full flex items-center gap-2 text-sm text-gray-400">
+                          在发送的图片上标记位置
+                          <select
+                            value={hotspotMarker}
+                            onChange={e => {
+                              setRetouchOptions({ marker: e.target.value as HotspotMarker });
+                              setHotspotMarker(getRetouchOptions().marker);
+                            }}
+                            disabled={isLoading}
+                            className="bg-gray-800 border border-gray-600 text-gray-200 rounded p-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
+                          >
+                            {HOTSPOT_MARKERS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                          </select>
+                        </label>
+                      )}
+                      <AdvancedOptions value={retouchPinned} onChange={setRetouchPinned} disabled={isLoading} />
                   </div>
               )}
-              {activeTab === 'adjust' && <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} isLoading={isLoading} currentImage={currentImageFile} onError={setError} adjustmentResults={adjustmentResults} onApplyResult={handleApplyAdjustmentResult} adjustmentProgress={adjustmentProgress} onCancel={handleCancelGeneration} canCancel={!!abortController} />}
-              {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} currentImage={currentImageFile} onError={setError} />}
-              {activeTab === 'texture' && <TexturePanel onApplyTexture={handleApplyTexture} isLoading={isLoading} currentImage={currentImageFile} onError={setError} />}
+              {activeTab === 'adjust' && (
+                <AdjustmentPanel
+                  onApplyAdjustment={handleApplyAdjustment}
+                  isLoading={isLoading}
+                  currentImage={editImageFile}
+                  onError={reportError}
+                  adjustmentResults={adjustmentResults}
+                  onApplyResult={handleApplyAdjustmentResult}
+                  onRetryResult={handleRetryAdjustmentResult}
+                  adjustmentProgress={adjustmentProgress}
+                  onCancel={handleCancelGeneration}
+                  canCancel={!!abortController}
+                  localAdjustments={localAdjustments}
+                  onLocalAdjustmentsChange={setLocalAdjustments}
+                  onApplyLocalAdjustments={handleApplyLocalAdjustments}
+                  onEditLocalAdjustmentStep={lastAction?.type === 'localAdjust' && !lastAction.layers ? handleEditLocalAdjustmentStep : undefined}
+                  isEditingLocalAdjustmentStep={!!localAdjustParentId}
+                  onCancelLocalAdjustmentEdit={() => {
+                    setLocalAdjustParentId(null);
+                    setLocalAdjustments(DEFAULT_LOCAL_ADJUSTMENTS);
+                  }}
+                />
+              )}
+              {activeTab === 'tone' && (
+                <TonePanel
+                  value={toneSettings}
+                  onChange={setToneSettings}
+                  onApply={handleApplyTone}
+                  image={editImageFile}
+                  scopeLabel={localEditScopeLabel}
+                  isLoading={isLoading}
+                />
+              )}
+              {activeTab === 'match' && (
+                <ColorMatchPanel
+                  reference={colorMatchReference}
+                  onReferenceChange={setColorMatchReference}
+                  fusionSources={fusionSourceImages}
+                  historyItems={timelineItems}
+                  value={colorMatchOptions}
+                  onChange={setColorMatchOptions}
+                  onApply={handleApplyColorMatch}
+                  batchCount={[...adjustmentResults, ...fusionResults].filter(result => result.status === 'success').length}
+                  onApplyToBatch={handleApplyColorMatchToBatch}
+                  scopeLabel={localEditScopeLabel}
+                  isLoading={isLoading}
+                />
+              )}
+              {activeTab === 'filters' && (
+                <FilterPanel
+                  onApplyFilter={handleApplyFilter}
+                  isLoading={isLoading}
+                  currentImage={editImageFile}
+                  onError={reportError}
+                  selectedLut={selectedLut}
+                  onSelectLut={setSelectedLut}
+                  lutStrength={lutStrength}
+                  onLutStrengthChange={setLutStrength}
+                  onApplyLut={handleApplyLut}
+                  onBatchApplyLut={handleBatchApplyLut}
+                />
+              )}
+              {activeTab === 'texture' && <TexturePanel onApplyTexture={handleApplyTexture} isLoading={isLoading} currentImage={editImageFile} onError={reportError} />}
+              {PRESERVE_TABS.includes(activeTab) && !(activeTab === 'retouch' && retouchScope === 'mask') && (
+                <div className="mt-4">
+                  <PreserveRegionsOptions
+                    options={preserveOptions}
+                    onChange={updatePreserveOptions}
+                    maskTool={maskTool}
+                    onMaskToolChange={setMaskTool}
+                    brushSize={brushSize}
+                    onBrushSizeChange={setBrushSize}
+                    hasMask={!!preserveMask}
+                    onInvertMask={handleInvertMask}
+                    onClearMask={() => setPreserveMask(null)}
+                    disabled={isLoading}
+                  />
+                </div>
+              )}
               {activeTab === 'erase' && <ErasePanel onRemoveBackground={handleRemoveBackground} isLoading={isLoading} />}
               {activeTab === 'crop' && (
                 <CropPanel
@@ -760,9 +1909,10 @@ const EditorView: React.FC<{
                 <FusionPanel 
                   onApplyFusion={handleApplyFusion} 
                   isLoading={isLoading} 
-                  onError={setError}
+                  onError={reportError}
                   fusionResults={fusionResults}
                   onApplyResult={handleApplyFusionResult}
+                  onRetryResult={handleRetryFusionResult}
                   fusionProgress={fusionProgress}
                   onCancel={handleCancelGeneration}
                   canCancel={!!abortController}
@@ -772,6 +1922,14 @@ const EditorView: React.FC<{
           </div>
         </div>
       )}
+      {historyTree && compareIds && (
+        <CompareView
+          sources={compareSources}
+          initialLeftId={compareIds.leftId}
+          initialRightId={compareIds.rightId}
+          onClose={() => setCompareIds(null)}
+        />
+      )}
     </>
   );
 }
@@ -779,6 +1937,7 @@ const EditorView: React.FC<{
 
 const App: React.FC = () => {
   const [activeView, setActiveView] = useState<View>('editor');
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   
   // Dummy handlers to satisfy the EditorView props, as its internal state is now self-contained.
   const handleFileSelect = () => {};
@@ -789,7 +1948,9 @@ const App: React.FC = () => {
       <Header 
         activeView={activeView} 
         onViewChange={setActiveView} 
+        onOpenSettings={() => setIsSettingsOpen(true)}
       />
+      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
       <main className="flex-1 flex flex-col items-center justify-center p-4 md:p-8">
         {activeView === 'editor' && <EditorView onFileSelect={handleFileSelect} onImageGenerated={handleImageGenerated} />}
         {activeView === 'past-forward' && <PastForwardPage />}
@@ -7,22 +7,40 @@ import React, { useState } from 'react';
 import { generateCreativeSuggestions } from '../services/geminiService';
 import { SparkleIcon, ChevronDownIcon } from './icons';
 import Spinner from './Spinner';
+import AdvancedOptions from './AdvancedOptions';
+import LocalAdjustmentControls from './LocalAdjustmentControls';
+import { getImage } from '../lib/imageStore';
+import BatchErrorCard from './BatchErrorCard';
+import { openResultViewer } from './resultViewer';
+import type { BatchProgress, BatchResult, PinnedParams } from '../types';
+import type { LocalAdjustments } from '../lib/localAdjustments';
 
 interface AdjustmentPanelProps {
-  onApplyAdjustment: (prompt: string, count?: number, variationIntensity?: string) => void;
+  onApplyAdjustment: (prompt: string, count?: number, variationIntensity?: string, pinned?: PinnedParams) => void;
   isLoading: boolean;
   currentImage: File;
-  onError: (message: string) => void;
-  adjustmentResults?: string[];
+  onError: (error: unknown) => void;
+  adjustmentResults?: BatchResult[];
   onApplyResult?: (imageUrl: string) => void;
-  adjustmentProgress?: { current: number; total: number } | null;
+  onRetryResult?: (index: number, instruction?: string) => Promise<void>;
+  adjustmentProgress?: BatchProgress | null;
   onCancel?: () => void;
   canCancel?: boolean;
+  // 即时调整（本地计算），预览由父组件显示在画布上
+  localAdjustments: LocalAdjustments;
+  onLocalAdjustmentsChange: (value: LocalAdjustments) => void;
+  onApplyLocalAdjustments: () => void;
+  onEditLocalAdjustmentStep?: () => void;
+  isEditingLocalAdjustmentStep?: boolean;
+  onCancelLocalAdjustmentEdit?: () => void;
 }
 
 type Preset = { name: string; prompt: string };
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, isLoading, currentImage, onError, adjustmentResults, onApplyResult, adjustmentProgress, onCancel, canCancel }) => {
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
+  onApplyAdjustment, isLoading, currentImage, onError, adjustmentResults, onApplyResult, onRetryResult, adjustmentProgress, onCancel, canCancel,
+  localAdjustments, onLocalAdjustmentsChange, onApplyLocalAdjustments, onEditLocalAdjustmentStep, isEditingLocalAdjustmentStep, onCancelLocalAdjustmentEdit,
+}) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [aiPresets, setAiPresets] = useState<Preset[]>([]);
@@ -31,6 +49,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
   const [imageCount, setImageCount] = useState(1);
   const [showVariationHint, setShowVariationHint] = useState(false);
   const [variationIntensity, setVariationIntensity] = useState<'subtle' | 'moderate' | 'dramatic'>('moderate');
+  const [pinnedParams, setPinnedParams] = useState<PinnedParams>({});
 
   const presets: Preset[] = [
     { name: '背景虚化', prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.' },
@@ -39,6 +58,14 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     { name: '影棚光效', prompt: 'Add dramatic, professional studio lighting to the main subject.' },
   ];
 
+  // 成功的结果，供放大查看页按顺序浏览
+  const successResults = (adjustmentResults ?? []).filter(result => result.imageUrl);
+
+  // 进度文字，正在重试时附带“重试 2/3”
+  const progressLabel = adjustmentProgress
+    ? `调整中... ${adjustmentProgress.current}/${adjustmentProgress.total}${adjustmentProgress.retry ? ` · 图片 ${adjustmentProgress.retry.index + 1} 重试 ${adjustmentProgress.retry.attempt}/${adjustmentProgress.retry.maxAttempts}` : ''}`
+    : `调整中... (${imageCount}张)`;
+
   const activePrompt = selectedPresetPrompt || customPrompt;
 
   const handlePresetClick = (prompt: string) => {
@@ -53,7 +80,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
 
   const handleApply = () => {
     if (activePrompt) {
-      onApplyAdjustment(activePrompt, imageCount, variationIntensity);
+      onApplyAdjustment(activePrompt, imageCount, variationIntensity, pinnedParams);
     }
   };
 
@@ -66,7 +93,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
         setIsPresetsVisible(true); // Show presets when new ones are loaded
     } catch (e) {
         console.error("Failed to get AI suggestions:", e);
-        onError(e instanceof Error ? e.message : '获取 AI 建议失败');
+        onError(e instanceof Error ? e : '获取 AI 建议失败');
     } finally {
         setIsSuggesting(false);
     }
@@ -94,6 +121,16 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
             )}
         </button>
       </div>
+
+      <LocalAdjustmentControls
+        value={localAdjustments}
+        onChange={onLocalAdjustmentsChange}
+        onApply={onApplyLocalAdjustments}
+        onEditCurrentStep={onEditLocalAdjustmentStep}
+        isEditingStep={isEditingLocalAdjustmentStep}
+        onCancelEdit={onCancelLocalAdjustmentEdit}
+        disabled={isLoading}
+      />
       
       <div className="border-t border-gray-700/50 -mx-4 px-4">
         <button 
@@ -228,6 +265,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
 
       {activePrompt && (
         <div className="animate-fade-in flex flex-col gap-4">
+            <AdvancedOptions value={pinnedParams} onChange={setPinnedParams} disabled={isLoading} isBatch={imageCount > 1} />
             {canCancel && isLoading ? (
               <div className="flex gap-3 w-full">
                 <button
@@ -235,9 +273,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
                   className="flex-1 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed text-base"
                   disabled={true}
                 >
-                  {adjustmentProgress 
-                    ? `调整中... ${adjustmentProgress.current}/${adjustmentProgress.total}` 
-                    : `调整中... (${imageCount}张)`}
+                  {progressLabel}
                 </button>
                 <button
                   onClick={onCancel}
@@ -253,9 +289,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
                 disabled={isLoading || !activePrompt.trim()}
               >
                 {isLoading ? (
-                  adjustmentProgress 
-                    ? `调整中... ${adjustmentProgress.current}/${adjustmentProgress.total}` 
-                    : `调整中... (${imageCount}张)`
+                  progressLabel
                 ) : `应用调整`}
               </button>
             )}
@@ -273,61 +307,49 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
             'grid-cols-2 md:grid-cols-4'
           }`}>
             {adjustmentResults.map((result, index) => {
-              // 检查是否是错误占位符
-              const isError = result.includes('#error=');
-              let errorMessage = '';
-              let imageUrl = result;
-              
-              if (isError) {
-                const parts = result.split('#error=');
-                imageUrl = parts[0];
-                try {
-                  errorMessage = decodeURIComponent(parts[1]);
-                } catch {
-                  errorMessage = '调整失败';
-                }
-              }
+              const isError = result.status === 'error' || !result.imageUrl;
+              const imageUrl = result.imageUrl ?? '';
+              // 参数摘要，悬停时显示完整的变化描述和提示词
+              const metaLabel = `种子 ${result.seed} · 温度 ${result.temperature.toFixed(2)} · ${(result.durationMs / 1000).toFixed(1)}s`;
+              const metaTitle = `${result.model}\n${result.variation}\n\n${result.prompt}`;
               
               return (
-                <div key={index} className="relative group">
+                <div key={result.index} className="relative group">
                   {isError ? (
-                    // 错误状态显示
-                    <div className="w-full aspect-square bg-gray-800 rounded-lg shadow-lg flex flex-col items-center justify-center p-4">
-                      <div className="text-red-500 mb-2">
-                        <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                      </div>
-                      <div className="text-gray-400 text-sm text-center">
-                        图片 {index + 1} 失败
-                      </div>
-                      <div className="text-gray-500 text-xs text-center mt-1">
-                        {errorMessage.includes('PROHIBITED_CONTENT') ? '内容被安全过滤' : 
-                         errorMessage.includes('API 响应中没有内容') ? 'API 响应错误' :
-                         errorMessage.substring(0, 50)}
-                      </div>
-                    </div>
+                    <BatchErrorCard
+                      result={result}
+                      position={index + 1}
+                      fallbackMessage="调整失败"
+                      onRetry={onRetryResult}
+                      onError={onError}
+                      disabled={isLoading}
+                      accent="blue"
+                    />
                   ) : (
                     // 正常图片显示
                     <>
                       <img 
-                        src={result} 
+                        src={imageUrl} 
                         alt={`调整结果 ${index + 1}`}
                         className="w-full h-auto rounded-lg shadow-lg"
+                        title={metaTitle}
                       />
+                      <div className="mt-1 text-[10px] text-gray-500 text-center truncate" title={metaTitle}>{metaLabel}</div>
                       <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center gap-2">
                         {onApplyResult && (
                           <button
-                            onClick={() => onApplyResult(result)}
+                            onClick={() => onApplyResult(imageUrl)}
                             className="px-3 py-1 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
                           >
                             应用
                           </button>
                         )}
                         <button
-                          onClick={() => {
+                          onClick={async () => {
+                            // 下载全尺寸图片，而不是网格中显示的预览图
+                            const fullImage = result.imageKey ? await getImage(result.imageKey).catch(() => null) : null;
                             const link = document.createElement('a');
-                            link.href = result;
+                            link.href = fullImage ? URL.createObjectURL(fullImage) : imageUrl;
                             
                             // 生成时间戳格式 yymmdd-hhmmss
                             const now = new Date();
@@ -343,15 +365,14 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
                             
                             link.download = `adjustment_${index + 1}_${timestamp}.png`;
                             link.click();
+                            if (fullImage) URL.revokeObjectURL(link.href);
                           }}
                           className="px-3 py-1 bg-gray-600 text-white text-sm rounded-lg hover:bg-gray-700 transition-colors"
                         >
                           下载
                         </button>
                         <button
-                          onClick={() => {
-                            // 创建包含所有图片和功能的HTML页面
-                            const htmlContent = `
+                          onClick={() => openResultViewer(successResults, imageUrls => `
 <!DOCTYPE html>
 <html lang="zh">
 <head>
@@ -571,8 +592,8 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
   <div class="indicators" id="indicators"></div>
 
   <script>
-    const images = ${JSON.stringify(adjustmentResults)};
-    let currentIndex = ${index};
+    const images = ${JSON.stringify(imageUrls)};
+    let currentIndex = ${successResults.indexOf(result)};
     let isZoomed = false;
     let ratings = {};
     let translateX = 0;
@@ -784,13 +805,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     updateDisplay();
   </script>
 </body>
-</html>`;
-                      
-                            const blob = new Blob([htmlContent], { type: 'text/html' });
-                            const url = URL.createObjectURL(blob);
-                            window.open(url, '_blank');
-                            setTimeout(() => URL.revokeObjectURL(url), 1000);
-                          }}
+</html>`)}
                           className="px-3 py-1 bg-gray-600 text-white text-sm rounded-lg hover:bg-gray-700 transition-colors"
                         >
                           放大
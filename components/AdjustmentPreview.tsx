@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+
+interface AdjustmentPreviewProps {
+  // 要调整的图片（原始尺寸），预览在缩小的副本上计算
+  image: File;
+  // 就地处理预览像素；应当保持引用稳定，变化时重新计算
+  process: (pixels: ImageData) => void;
+  // 只作用于涂抹区域时的蒙版（见 maskUtils），区域外露出下面的原图
+  mask?: string | null;
+}
+
+// 预览的最长边；覆盖在画布上显示，不需要原始分辨率
+const PREVIEW_SIZE = 1600;
+
+/**
+ * 覆盖在画布图片上的本地调整预览，拖动滑块时每帧最多重算一次。
+ */
+const AdjustmentPreview: React.FC<AdjustmentPreviewProps> = ({ image, process, mask }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [source, setSource] = useState<ImageData | null>(null);
+  const [maskImage, setMaskImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSource(null);
+    createImageBitmap(image).then(bitmap => {
+      const scale = Math.min(1, PREVIEW_SIZE / Math.max(bitmap.width, bitmap.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      ctx?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+      if (!cancelled && ctx) setSource(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    }, e => console.warn('Failed to load adjustment preview', e));
+    return () => { cancelled = true; };
+  }, [image]);
+
+  useEffect(() => {
+    setMaskImage(null);
+    if (!mask) return;
+    const element = new Image();
+    element.onload = () => setMaskImage(element);
+    element.src = mask;
+    return () => { element.onload = null; };
+  }, [mask]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !source) return;
+    const frame = requestAnimationFrame(() => {
+      const pixels = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+      process(pixels);
+      canvas.width = source.width;
+      canvas.height = source.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.putImageData(pixels, 0, 0);
+      if (maskImage) {
+        ctx.globalCompositeOperation = 'destination-in';
+        ctx.drawImage(maskImage, 0, 0, canvas.width, canvas.height);
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [source, process, maskImage]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`absolute inset-0 w-full h-full pointer-events-none transition-opacity ${source ? 'opacity-100' : 'opacity-0'}`}
+      aria-hidden="true"
+    />
+  );
+};
+
+export default AdjustmentPreview;
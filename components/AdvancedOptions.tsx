@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { ChevronDownIcon } from './icons';
+import type { PinnedParams } from '../types';
+
+interface AdvancedOptionsProps {
+  value: PinnedParams;
+  onChange: (value: PinnedParams) => void;
+  disabled?: boolean;
+  // 批量生成时固定的种子作为起点，每张图依次递增
+  isBatch?: boolean;
+}
+
+const DEFAULT_TEMPERATURE = 0.9;
+
+const randomSeed = () => Math.floor(Math.random() * 1000000);
+
+const AdvancedOptions: React.FC<AdvancedOptionsProps> = ({ value, onChange, disabled, isBatch }) => {
+  const [isOpen, setIsOpen] = useState(value.seed !== undefined || value.temperature !== undefined);
+  const isSeedPinned = value.seed !== undefined;
+  const isTemperaturePinned = value.temperature !== undefined;
+
+  return (
+    <div className="w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-sm text-gray-400 hover:text-gray-200 transition-colors"
+      >
+        <ChevronDownIcon className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        高级选项
+        {(isSeedPinned || isTemperaturePinned) && <span className="text-xs text-blue-400">（已固定参数）</span>}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-3 bg-gray-900/50 border border-gray-700 rounded-lg flex flex-col gap-3 text-sm animate-fade-in">
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 text-gray-300 w-24 shrink-0">
+              <input
+                type="checkbox"
+                checked={isSeedPinned}
+                onChange={e => onChange({ ...value, seed: e.target.checked ? randomSeed() : undefined })}
+                disabled={disabled}
+              />
+              固定种子
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={999999}
+              value={value.seed ?? ''}
+              placeholder="随机"
+              onChange={e => onChange({ ...value, seed: e.target.value === '' ? undefined : Math.max(0, Math.floor(Number(e.target.value))) })}
+              disabled={disabled}
+              className="flex-grow min-w-0 bg-gray-800 border border-gray-600 text-gray-200 rounded p-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
+            />
+            <button
+              onClick={() => onChange({ ...value, seed: randomSeed() })}
+              disabled={disabled}
+              className="px-2 py-1.5 bg-white/10 hover:bg-white/20 text-gray-200 rounded transition-colors disabled:opacity-50"
+              title="换一个随机种子"
+            >
+              🎲
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 text-gray-300 w-24 shrink-0">
+              <input
+                type="checkbox"
+                checked={isTemperaturePinned}
+                onChange={e => onChange({ ...value, temperature: e.target.checked ? DEFAULT_TEMPERATURE : undefined })}
+                disabled={disabled}
+              />
+              固定温度
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.05}
+              value={value.temperature ?? DEFAULT_TEMPERATURE}
+              onChange={e => onChange({ ...value, temperature: Number(e.target.value) })}
+              disabled={disabled || !isTemperaturePinned}
+              className="flex-grow"
+            />
+            <span className="w-10 text-right text-gray-400 tabular-nums">{(value.temperature ?? DEFAULT_TEMPERATURE).toFixed(2)}</span>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            相同的输入、提示词、种子和温度可以复现同样的结果。{isBatch && '批量生成时第 N 张使用「种子 + N」。'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdvancedOptions;
@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { describeErrorCode } from '../services/modelErrors';
+import type { BatchResult } from '../types';
+
+interface BatchErrorCardProps {
+  result: BatchResult;
+  // 在网格中的序号（从 1 开始）
+  position: number;
+  // 结果没有错误信息时显示的文字，例如“调整失败”
+  fallbackMessage: string;
+  // 单独重试这个位置，可以换一个指令；完成后由父组件原位替换结果
+  onRetry?: (index: number, instruction?: string) => Promise<void>;
+  onError: (error: unknown) => void;
+  disabled?: boolean;
+  // 按钮和输入框的主题色，与所在面板一致
+  accent?: 'blue' | 'purple';
+}
+
+const ACCENT_CLASSES = {
+  blue: { button: 'bg-blue-600 hover:bg-blue-700', ring: 'focus:ring-blue-500' },
+  purple: { button: 'bg-purple-600 hover:bg-purple-700', ring: 'focus:ring-purple-500' },
+};
+
+// 批量结果网格中失败的位置：错误说明、重试和修改提示词后重试
+const BatchErrorCard: React.FC<BatchErrorCardProps> = ({ result, position, fallbackMessage, onRetry, onError, disabled, accent = 'blue' }) => {
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const errorInfo = describeErrorCode(result.errorCode ?? 'UNKNOWN');
+  const errorMessage = result.errorMessage ?? fallbackMessage;
+  const classes = ACCENT_CLASSES[accent];
+
+  const handleRetry = async (nextInstruction?: string) => {
+    if (!onRetry) return;
+    setIsEditing(false);
+    setIsRetrying(true);
+    try {
+      await onRetry(result.index, nextInstruction);
+    } catch (e) {
+      onError(e);
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div className="w-full aspect-square bg-gray-800 rounded-lg shadow-lg flex flex-col items-center justify-center p-4">
+      <div className="text-red-500 mb-2">
+        <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      </div>
+      <div className="text-gray-400 text-sm text-center">
+        图片 {position} 失败
+      </div>
+      <div className="text-gray-300 text-xs text-center mt-1" title={errorMessage}>
+        {errorInfo.title}
+      </div>
+      <div className="text-gray-500 text-xs text-center mt-1">
+        {errorInfo.hint}
+      </div>
+      {onRetry && (isEditing ? (
+        <div className="w-full mt-2 flex flex-col gap-1">
+          <input
+            type="text"
+            value={instruction}
+            onChange={e => setInstruction(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && instruction.trim() && handleRetry(instruction.trim())}
+            className={`w-full bg-gray-900 border border-gray-600 text-gray-200 rounded p-1 text-xs focus:ring-1 ${classes.ring} focus:outline-none`}
+            autoFocus
+          />
+          <div className="flex gap-1 justify-center">
+            <button
+              onClick={() => handleRetry(instruction.trim())}
+              disabled={!instruction.trim()}
+              className={`px-2 py-0.5 ${classes.button} text-white text-xs rounded transition-colors disabled:opacity-50`}
+            >
+              重试
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="px-2 py-0.5 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors"
+            >
+              取消
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={() => handleRetry()}
+            disabled={disabled || isRetrying}
+            title={`使用新种子重新生成，保持变化描述：${result.variation}`}
+            className={`px-2 py-0.5 ${classes.button} text-white text-xs rounded transition-colors disabled:opacity-50`}
+          >
+            {isRetrying ? '重试中...' : '重试'}
+          </button>
+          <button
+            onClick={() => { setIsEditing(true); setInstruction(result.instruction); }}
+            disabled={disabled || isRetrying}
+            className="px-2 py-0.5 bg-gray-600 text-white text-xs rounded hover:bg-gray-700 transition-colors disabled:opacity-50"
+          >
+            修改提示词
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BatchErrorCard;
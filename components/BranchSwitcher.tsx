@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { getThumbnail } from '../lib/imageStore';
+
+interface BranchSwitcherProps {
+  siblings: { id: string; imageKey: string; title: string }[];
+  currentId: string;
+  onSelect: (id: string) => void;
+  // 按住缩略图时在主画布上预览该分支，松开时传 null
+  onPreview: (id: string | null) => void;
+  disabled?: boolean;
+}
+
+const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ siblings, currentId, onSelect, onPreview, disabled }) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  // 缩略图由 imageStore 生成并缓存，全尺寸图片可能已换出到磁盘
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(siblings.map(({ id, imageKey }) =>
+      getThumbnail(imageKey).then(url => [id, url] as const, () => [id, ''] as const)
+    )).then(entries => {
+      if (!cancelled) setThumbnails(Object.fromEntries(entries));
+    });
+    return () => { cancelled = true; };
+  }, [siblings]);
+
+  if (siblings.length < 2) return null;
+
+  const currentPosition = siblings.findIndex(sibling => sibling.id === currentId);
+
+  return (
+    <div className="flex items-center justify-center gap-2 mb-4 animate-fade-in">
+      <span className="text-xs text-gray-400 whitespace-nowrap">分支 {currentPosition + 1}/{siblings.length}</span>
+      <div className="flex gap-2 overflow-x-auto p-1">
+        {siblings.map(({ id, title }, index) => (
+          <button
+            key={id}
+            onClick={() => onSelect(id)}
+            onMouseDown={() => id !== currentId && onPreview(id)}
+            onMouseUp={() => onPreview(null)}
+            onMouseLeave={() => onPreview(null)}
+            onTouchStart={() => id !== currentId && onPreview(id)}
+            onTouchEnd={() => onPreview(null)}
+            disabled={disabled}
+            title={`分支 ${index + 1}：${title}（按住对比，点击切换）`}
+            className={`w-12 h-12 shrink-0 rounded-md overflow-hidden border-2 transition-all disabled:opacity-50 ${
+              id === currentId ? 'border-blue-500' : 'border-gray-600 hover:border-gray-400'
+            }`}
+          >
+            {thumbnails[id] && <img src={thumbnails[id]} alt={`分支 ${index + 1}`} className="w-full h-full object-cover" />}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BranchSwitcher;
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { DEFAULT_COLOR_MATCH_OPTIONS, type ColorMatchOptions } from '../lib/colorMatch';
+import { getImage, getThumbnail } from '../lib/imageStore';
+import { useObjectUrl } from './imageHooks';
+
+export interface ColorMatchHistoryItem {
+  id: string;
+  imageKey: string;
+  label: string;
+}
+
+interface ColorMatchPanelProps {
+  reference: File | null;
+  onReferenceChange: (reference: File | null) => void;
+  // 可以作为参考图的合成素材和历史状态
+  fusionSources: File[];
+  historyItems: ColorMatchHistoryItem[];
+  value: ColorMatchOptions;
+  onChange: (value: ColorMatchOptions) => void;
+  onApply: () => void;
+  // 当前批量结果（调整和合成）的数量；为 0 时不能批量应用
+  batchCount: number;
+  onApplyToBatch: () => void;
+  // 作用范围的说明，例如选中的图层或涂抹区域
+  scopeLabel?: string;
+  isLoading: boolean;
+}
+
+const FileThumbnail: React.FC<{ file: File; selected: boolean; onClick: () => void; disabled?: boolean }> = ({ file, selected, onClick, disabled }) => {
+  const url = useObjectUrl(file);
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`w-16 h-16 shrink-0 rounded-md overflow-hidden bg-gray-900 border-2 transition-colors disabled:opacity-50 ${selected ? 'border-blue-500' : 'border-transparent hover:border-gray-500'}`}
+      title={file.name}
+    >
+      {url && <img src={url} alt={file.name} className="w-full h-full object-cover" />}
+    </button>
+  );
+};
+
+const ColorMatchPanel: React.FC<ColorMatchPanelProps> = ({
+  reference, onReferenceChange, fusionSources, historyItems, value, onChange, onApply, batchCount, onApplyToBatch, scopeLabel, isLoading,
+}) => {
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  // 从历史中选的参考图，用于高亮
+  const [selectedHistoryId, setSelectedHistoryId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const referenceUrl = useObjectUrl(reference ?? undefined);
+
+  // 缩略图由 imageStore 生成并缓存，全尺寸图片只在选中时读取
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(historyItems.map(({ id, imageKey }) =>
+      getThumbnail(imageKey).then(url => [id, url] as const, () => [id, ''] as const)
+    )).then(entries => {
+      if (!cancelled) setThumbnails(Object.fromEntries(entries));
+    });
+    return () => { cancelled = true; };
+  }, [historyItems]);
+
+  useEffect(() => {
+    if (!reference) setSelectedHistoryId(null);
+  }, [reference]);
+
+  const selectFile = (file: File | null) => {
+    setSelectedHistoryId(null);
+    onReferenceChange(file);
+  };
+
+  const handleHistoryClick = async (item: ColorMatchHistoryItem) => {
+    try {
+      const file = await getImage(item.imageKey);
+      onReferenceChange(file);
+      setSelectedHistoryId(item.id);
+    } catch (e) {
+      console.error('Failed to load reference image', e);
+    }
+  };
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) selectFile(file);
+  };
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-lg font-semibold text-gray-300">按参考图配色</h3>
+        <span className="text-xs text-gray-500">在本地计算，匹配参考图的色调和明暗，不改变画面内容</span>
+        {scopeLabel && <span className="ml-auto text-xs text-blue-300">作用于：{scopeLabel}</span>}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <h4 className="font-semibold text-gray-300">参考图</h4>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoading}
+            className="ml-auto text-xs text-blue-400 hover:text-blue-300 underline disabled:opacity-50"
+          >
+            上传参考图
+          </button>
+          <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleUpload} />
+        </div>
+        {reference && referenceUrl ? (
+          <div className="flex items-center gap-3">
+            <img src={referenceUrl} alt="参考图" className="h-24 max-w-[12rem] object-contain rounded bg-gray-900" />
+            <button onClick={() => selectFile(null)} disabled={isLoading} className="text-xs text-gray-400 hover:text-red-400 underline">
+              清除
+            </button>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">从下面的合成素材或历史中选择，或者上传一张图片。</p>
+        )}
+
+        {fusionSources.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-gray-400">合成素材</span>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {fusionSources.map((file, index) => (
+                <FileThumbnail
+                  key={`${file.name}-${index}`}
+                  file={file}
+                  selected={reference === file}
+                  onClick={() => selectFile(file)}
+                  disabled={isLoading}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {historyItems.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-gray-400">历史</span>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {historyItems.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => handleHistoryClick(item)}
+                  disabled={isLoading}
+                  className={`w-16 h-16 shrink-0 rounded-md overflow-hidden bg-gray-900 border-2 transition-colors disabled:opacity-50 ${selectedHistoryId === item.id && reference ? 'border-blue-500' : 'border-transparent hover:border-gray-500'}`}
+                  title={item.label}
+                >
+                  {thumbnails[item.id] && <img src={thumbnails[item.id]} alt={item.label} className="w-full h-full object-cover" />}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-gray-300">
+        <span className="w-16 shrink-0">强度</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={value.strength}
+          onChange={e => onChange({ ...value, strength: Number(e.target.value) })}
+          onDoubleClick={() => onChange({ ...value, strength: DEFAULT_COLOR_MATCH_OPTIONS.strength })}
+          disabled={isLoading}
+          className="flex-grow"
+        />
+        <span className="w-10 text-right text-gray-400 tabular-nums">{value.strength}%</span>
+      </label>
+      <label className="flex items-center gap-2 text-gray-300 cursor-pointer self-start">
+        <input
+          type="checkbox"
+          checked={value.luminanceOnly}
+          onChange={e => onChange({ ...value, luminanceOnly: e.target.checked })}
+          disabled={isLoading}
+        />
+        只匹配亮度（保留原来的颜色）
+      </label>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onApplyToBatch}
+          disabled={isLoading || !reference || value.strength === 0 || batchCount === 0}
+          className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-gray-200 transition-colors disabled:opacity-40"
+          title="用同一张参考图处理调整和合成的全部批量结果"
+        >
+          应用到批量结果{batchCount > 0 ? `（${batchCount} 张）` : ''}
+        </button>
+        <button
+          onClick={onApply}
+          disabled={isLoading || !reference || value.strength === 0}
+          className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-colors disabled:opacity-40"
+        >
+          应用配色
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColorMatchPanel;
@@ -0,0 +1,350 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CompareIcon, XMarkIcon } from './icons';
+import { useImageFile, useObjectUrl } from './imageHooks';
+
+export interface CompareSource {
+  id: string;
+  // 下拉列表中显示的名称，例如“3. 滤镜”或“批量调整 #2”
+  label: string;
+  imageKey: string;
+  // 所属分组：历史状态或某一批结果
+  group: string;
+}
+
+type CompareMode = 'slider' | 'side-by-side' | 'onion';
+
+interface CompareViewProps {
+  sources: CompareSource[];
+  initialLeftId: string;
+  initialRightId: string;
+  onClose: () => void;
+}
+
+interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const MODES: { value: CompareMode; label: string }[] = [
+  { value: 'slider', label: '滑块' },
+  { value: 'side-by-side', label: '并排' },
+  { value: 'onion', label: '叠加' },
+];
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 16;
+const KEY_ZOOM_FACTOR = 1.25;
+const KEY_STEP = 5;
+const KEY_PAN_STEP = 40;
+const INITIAL_VIEW: ViewTransform = { zoom: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// 以 point（相对视口中心的像素坐标）为中心缩放，保持该点下的图像位置不变
+const zoomAround = (view: ViewTransform, factor: number, point = { x: 0, y: 0 }): ViewTransform => {
+  const zoom = clamp(view.zoom * factor, MIN_ZOOM, MAX_ZOOM);
+  if (zoom === MIN_ZOOM) return INITIAL_VIEW;
+  const ratio = zoom / view.zoom;
+  return {
+    zoom,
+    x: point.x - (point.x - view.x) * ratio,
+    y: point.y - (point.y - view.y) * ratio,
+  };
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ sources, initialLeftId, initialRightId, onClose }) => {
+  const [leftId, setLeftId] = useState(initialLeftId);
+  const [rightId, setRightId] = useState(initialRightId);
+  const [mode, setMode] = useState<CompareMode>('slider');
+  // 滑块模式下分割线的位置，叠加模式下右侧图片的不透明度，均为 0–100
+  const [position, setPosition] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  // 缩放和平移在两张图片之间共享
+  const [view, setView] = useState<ViewTransform>(INITIAL_VIEW);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sliderViewportRef = useRef<HTMLDivElement>(null);
+  // 正在按下的指针，两个指针时为双指缩放
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+
+  const left = sources.find(source => source.id === leftId);
+  const right = sources.find(source => source.id === rightId);
+  const leftSrc = useObjectUrl(useImageFile(left?.imageKey));
+  const rightSrc = useObjectUrl(useImageFile(right?.imageKey));
+
+  useEffect(() => {
+    containerRef.current?.focus();
+  }, []);
+
+  const relativeToCenter = (element: HTMLElement, clientX: number, clientY: number) => {
+    const rect = element.getBoundingClientRect();
+    return { x: clientX - rect.left - rect.width / 2, y: clientY - rect.top - rect.height / 2 };
+  };
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const point = relativeToCenter(e.currentTarget, e.clientX, e.clientY);
+    setView(current => zoomAround(current, Math.exp(-e.deltaY * 0.002), point));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const pointers = pointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+
+    if (pointers.size === 1) {
+      const dx = e.clientX - previous.x;
+      const dy = e.clientY - previous.y;
+      setView(current => current.zoom === MIN_ZOOM ? current : { ...current, x: current.x + dx, y: current.y + dy });
+    } else if (pointers.size === 2) {
+      const other = [...pointers].find(([id]) => id !== e.pointerId)![1];
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(e.clientX - other.x, e.clientY - other.y);
+      const point = relativeToCenter(e.currentTarget, (e.clientX + other.x) / 2, (e.clientY + other.y) / 2);
+      if (before > 0) setView(current => zoomAround(current, after / before, point));
+    }
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(e.pointerId);
+  };
+
+  // 拖动分割线；不冒泡到视口，避免同时平移
+  const moveDivider = (clientX: number) => {
+    const rect = sliderViewportRef.current?.getBoundingClientRect();
+    if (rect && rect.width > 0) {
+      setPosition(clamp(((clientX - rect.left) / rect.width) * 100, 0, 100));
+    }
+  };
+
+  const handleSwap = () => {
+    setLeftId(rightId);
+    setRightId(leftId);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // 下拉框和滑动条自己处理方向键
+    if (e.target instanceof HTMLSelectElement || e.target instanceof HTMLInputElement) {
+      if (e.key === 'Escape') onClose();
+      return;
+    }
+
+    const step = (e.key === 'ArrowLeft' ? -1 : 1) * KEY_STEP;
+    switch (e.key) {
+      case 'Escape':
+        onClose();
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        if (e.shiftKey) {
+          setView(current => current.zoom === MIN_ZOOM ? current : { ...current, x: current.x - Math.sign(step) * KEY_PAN_STEP });
+        } else if (mode === 'slider') {
+          setPosition(current => clamp(current + step, 0, 100));
+        } else if (mode === 'onion') {
+          setOpacity(current => clamp(current + step, 0, 100));
+        }
+        break;
+      case 'ArrowUp':
+      case 'ArrowDown':
+        if (!e.shiftKey) return;
+        setView(current => current.zoom === MIN_ZOOM ? current : { ...current, y: current.y + (e.key === 'ArrowUp' ? 1 : -1) * KEY_PAN_STEP });
+        break;
+      case '+':
+      case '=':
+        setView(current => zoomAround(current, KEY_ZOOM_FACTOR));
+        break;
+      case '-':
+        setView(current => zoomAround(current, 1 / KEY_ZOOM_FACTOR));
+        break;
+      case '0':
+        setView(INITIAL_VIEW);
+        break;
+      case '1':
+      case '2':
+      case '3':
+        setMode(MODES[Number(e.key) - 1].value);
+        break;
+      case 'x':
+        handleSwap();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const imageStyle: React.CSSProperties = {
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+    transformOrigin: 'center',
+  };
+
+  const renderImage = (src: string | null, alt: string, style?: React.CSSProperties) => src && (
+    <img
+      src={src}
+      alt={alt}
+      draggable={false}
+      className="absolute inset-0 w-full h-full object-contain select-none pointer-events-none"
+      style={{ ...imageStyle, ...style }}
+    />
+  );
+
+  const viewportProps = {
+    onWheel: handleWheel,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    className: `relative w-full h-full overflow-hidden bg-black touch-none ${view.zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : ''}`,
+  };
+
+  const renderSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <label className="flex items-center gap-2 min-w-0">
+      <span className="text-gray-400 shrink-0">{label}</span>
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="min-w-0 max-w-[14rem] bg-gray-900 border border-gray-600 text-gray-200 rounded-lg p-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+      >
+        {[...new Set(sources.map(source => source.group))].map(group => (
+          <optgroup key={group} label={group}>
+            {sources.filter(source => source.group === group).map(source => (
+              <option key={source.id} value={source.id}>{source.label}</option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+
+  const leftLabel = left?.label ?? '';
+  const rightLabel = right?.label ?? '';
+  const cornerLabelClassName = 'absolute top-2 bg-black/60 text-white px-2 py-0.5 rounded text-xs font-semibold pointer-events-none';
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex flex-col p-4 gap-3 text-gray-200 outline-none animate-fade-in"
+      aria-modal="true"
+      role="dialog"
+      aria-label="对比两个状态"
+    >
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {renderSelect(leftId, setLeftId, 'A')}
+        <button
+          onClick={handleSwap}
+          className="p-1.5 bg-white/10 rounded-md hover:bg-white/20 transition-colors"
+          aria-label="交换左右"
+          title="交换左右 (X)"
+        >
+          <CompareIcon className="w-5 h-5" />
+        </button>
+        {renderSelect(rightId, setRightId, 'B')}
+
+        <div className="flex rounded-lg overflow-hidden border border-gray-600" role="radiogroup" aria-label="对比方式">
+          {MODES.map(({ value, label }, index) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              role="radio"
+              aria-checked={mode === value}
+              title={`${label} (${index + 1})`}
+              className={`px-3 py-1.5 transition-colors ${mode === value ? 'bg-blue-600 text-white' : 'bg-gray-800 hover:bg-gray-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'onion' && (
+          <label className="flex items-center gap-2">
+            <span className="text-gray-400">B 不透明度 {opacity}%</span>
+            <input type="range" min={0} max={100} value={opacity} onChange={e => setOpacity(Number(e.target.value))} />
+          </label>
+        )}
+
+        <div className="flex items-center gap-1 ml-auto">
+          <button onClick={() => setView(current => zoomAround(current, 1 / KEY_ZOOM_FACTOR))} className="px-2.5 py-1 bg-white/10 rounded-md hover:bg-white/20" aria-label="缩小" title="缩小 (-)">−</button>
+          <button onClick={() => setView(INITIAL_VIEW)} className="px-2.5 py-1 bg-white/10 rounded-md hover:bg-white/20 tabular-nums" title="适应窗口 (0)">{Math.round(view.zoom * 100)}%</button>
+          <button onClick={() => setView(current => zoomAround(current, KEY_ZOOM_FACTOR))} className="px-2.5 py-1 bg-white/10 rounded-md hover:bg-white/20" aria-label="放大" title="放大 (+)">+</button>
+          <button onClick={onClose} className="ml-2 text-gray-400 hover:text-white transition-colors" aria-label="关闭对比">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 rounded-lg overflow-hidden border border-gray-700">
+        {mode === 'side-by-side' ? (
+          <div className="grid grid-cols-2 gap-1 w-full h-full bg-gray-700">
+            <div {...viewportProps}>
+              {renderImage(leftSrc, leftLabel)}
+              <span className={`${cornerLabelClassName} left-2`}>A · {leftLabel}</span>
+            </div>
+            <div {...viewportProps}>
+              {renderImage(rightSrc, rightLabel)}
+              <span className={`${cornerLabelClassName} left-2`}>B · {rightLabel}</span>
+            </div>
+          </div>
+        ) : (
+          <div ref={sliderViewportRef} {...viewportProps}>
+            {renderImage(leftSrc, leftLabel)}
+            {mode === 'slider' ? (
+              <div className="absolute inset-0 pointer-events-none" style={{ clipPath: `inset(0 0 0 ${position}%)` }}>
+                {renderImage(rightSrc, rightLabel)}
+              </div>
+            ) : (
+              renderImage(rightSrc, rightLabel, { opacity: opacity / 100 })
+            )}
+
+            {mode === 'slider' && (
+              <div
+                role="slider"
+                tabIndex={0}
+                aria-label="分割线位置"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(position)}
+                onPointerDown={e => {
+                  e.stopPropagation();
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                }}
+                onPointerMove={e => {
+                  e.stopPropagation();
+                  if (e.currentTarget.hasPointerCapture(e.pointerId)) moveDivider(e.clientX);
+                }}
+                className="absolute top-0 bottom-0 w-8 -ml-4 flex justify-center cursor-ew-resize focus:outline-none group"
+                style={{ left: `${position}%` }}
+              >
+                <div className="w-0.5 h-full bg-white/90 shadow-[0_0_4px_rgba(0,0,0,0.8)]" />
+                <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white/90 text-gray-900 flex items-center justify-center shadow-lg group-focus-visible:ring-2 group-focus-visible:ring-blue-500">
+                  <CompareIcon className="w-5 h-5" />
+                </div>
+              </div>
+            )}
+
+            <span className={`${cornerLabelClassName} left-2`}>A · {leftLabel}</span>
+            <span className={`${cornerLabelClassName} right-2`}>B · {rightLabel}</span>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 text-center">
+        滚轮或双指缩放，拖动平移 · ←/→ 调整{mode === 'onion' ? '不透明度' : '分割线'} · Shift+方向键平移 · +/−/0 缩放 · 1/2/3 切换方式 · X 交换 · Esc 关闭
+      </p>
+    </div>
+  );
+};
+
+export default CompareView;
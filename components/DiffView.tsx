@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { WarningIcon, XMarkIcon } from './icons';
+import Spinner from './Spinner';
+import { useImageFile, useObjectUrl } from './imageHooks';
+import { getImageDiff, type ExpectedRegion, type ImageDiff } from '../lib/imageDiff';
+
+type DiffBase = 'parent' | 'original';
+
+interface DiffViewProps {
+  // 当前状态
+  imageKey: string;
+  // 父状态；当前就是原图时为 null
+  parentImageKey: string | null;
+  originalImageKey: string;
+  // 产生当前状态的操作要求修改的范围（相对父状态），只在与父状态比较时使用
+  expectedRegion?: ExpectedRegion;
+  onClose: () => void;
+}
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(ratio < 0.1 ? 1 : 0)}%`;
+
+const DiffView: React.FC<DiffViewProps> = ({ imageKey, parentImageKey, originalImageKey, expectedRegion, onClose }) => {
+  const [base, setBase] = useState<DiffBase>(parentImageKey ? 'parent' : 'original');
+  const [diff, setDiff] = useState<ImageDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [heatmapOpacity, setHeatmapOpacity] = useState(80);
+  const imageSrc = useObjectUrl(useImageFile(imageKey));
+
+  const baseImageKey = base === 'parent' && parentImageKey ? parentImageKey : originalImageKey;
+  const region = base === 'parent' ? expectedRegion : undefined;
+
+  useEffect(() => {
+    let cancelled = false;
+    setDiff(null);
+    setError(null);
+    getImageDiff(baseImageKey, imageKey, { expectedRegion: region }).then(
+      result => { if (!cancelled) setDiff(result); },
+      e => { if (!cancelled) setError(e instanceof Error ? e.message : '比较图片时出错'); }
+    );
+    return () => { cancelled = true; };
+  }, [baseImageKey, imageKey, region]);
+
+  const metrics = diff && [
+    { label: '变化面积', value: formatPercent(diff.changedRatio) },
+    { label: 'SSIM', value: diff.ssim.toFixed(3) },
+    { label: '平均差异', value: formatPercent(diff.meanDiff) },
+    ...(diff.expectedArea ? [{ label: '范围外变化', value: formatPercent(diff.outsideChangedRatio) }] : []),
+  ];
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in">
+      <div className="flex items-center gap-3 text-sm">
+        <h3 className="text-lg font-semibold text-gray-200">差异热图</h3>
+        <div className="flex rounded-lg overflow-hidden border border-gray-600" role="radiogroup" aria-label="比较基准">
+          {([['parent', '与上一步'], ['original', '与原图']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setBase(value)}
+              disabled={value === 'parent' && !parentImageKey}
+              role="radio"
+              aria-checked={base === value}
+              className={`px-3 py-1 transition-colors disabled:opacity-40 ${base === value ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-gray-400">
+          热图
+          <input type="range" min={0} max={100} value={heatmapOpacity} onChange={e => setHeatmapOpacity(Number(e.target.value))} />
+        </label>
+        <button onClick={onClose} className="ml-auto text-gray-400 hover:text-white transition-colors" aria-label="关闭差异热图">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {diff?.driftWarning && (
+        <div className="flex items-start gap-2 bg-amber-500/15 border border-amber-500/60 text-amber-200 rounded-md px-3 py-2 text-sm" role="alert">
+          <WarningIcon className="w-5 h-5 shrink-0" />
+          <span>这次编辑改动了指定范围以外的内容（{formatPercent(diff.outsideChangedRatio)}），请检查人脸、文字等细节后再交付。</span>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-4 items-start">
+        <div className="relative inline-block mx-auto bg-black rounded-md overflow-hidden">
+          {imageSrc && <img src={imageSrc} alt="当前状态" className="block max-w-full max-h-[40vh] w-auto h-auto" />}
+          {diff && (
+            <img
+              src={diff.heatmapUrl}
+              alt="差异热图"
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              style={{ opacity: heatmapOpacity / 100, imageRendering: 'pixelated' }}
+            />
+          )}
+          {diff?.expectedArea && (
+            <svg viewBox={`0 0 ${diff.width} ${diff.height}`} preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+              {diff.expectedArea.shape === 'mask' ? (
+                <image href={diff.expectedArea.mask} width={diff.width} height={diff.height} preserveAspectRatio="none" opacity={0.35} />
+              ) : diff.expectedArea.shape === 'circle' ? (
+                <ellipse
+                  cx={diff.expectedArea.x}
+                  cy={diff.expectedArea.y}
+                  rx={diff.expectedArea.radius}
+                  ry={diff.expectedArea.radius}
+                  fill="none"
+                  stroke="rgb(96 165 250)"
+                  strokeWidth={1.5}
+                  strokeDasharray="4 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+              ) : (
+                <rect
+                  x={diff.expectedArea.x}
+                  y={diff.expectedArea.y}
+                  width={diff.expectedArea.width}
+                  height={diff.expectedArea.height}
+                  fill="none"
+                  stroke="rgb(96 165 250)"
+                  strokeWidth={1.5}
+                  strokeDasharray="4 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+          )}
+          {!diff && !error && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+              <Spinner className="h-8 w-8 text-gray-400" />
+            </div>
+          )}
+        </div>
+
+        {diff && metrics && (
+          <div className="w-full md:w-64 shrink-0 flex flex-col gap-3 text-sm">
+            <dl className="grid grid-cols-2 gap-x-3 gap-y-1">
+              {metrics.map(({ label, value }) => (
+                <React.Fragment key={label}>
+                  <dt className="text-gray-400">{label}</dt>
+                  <dd className="text-gray-200 font-mono text-right">{value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+
+            <div>
+              <p className="text-gray-400 mb-1">{diff.expectedArea ? '分区漂移（范围以外）' : '分区变化'}</p>
+              <div className="grid grid-cols-3 gap-1">
+                {diff.regions.map(region => (
+                  <div
+                    key={region.name}
+                    title={`${region.name}：变化 ${formatPercent(region.changedRatio)}，平均差异 ${formatPercent(region.meanDiff)}`}
+                    className={`rounded px-1 py-1.5 text-center text-xs border ${
+                      diff.expectedArea && region.drifted ? 'border-amber-500 text-amber-200' : 'border-gray-700 text-gray-300'
+                    }`}
+                    style={{ backgroundColor: `rgba(239, 68, 68, ${Math.min(0.6, region.changedRatio * 2)})` }}
+                  >
+                    <div>{region.name}</div>
+                    <div className="font-mono">{formatPercent(region.changedRatio)}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {diff.sizeMismatch && (
+              <p className="text-xs text-gray-500">两张图片尺寸不同，已缩放到相同大小后比较。</p>
+            )}
+            {base === 'parent' && !expectedRegion && (
+              <p className="text-xs text-gray-500">这一步是整体编辑，没有指定修改范围，不做超范围检查。</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DiffView;
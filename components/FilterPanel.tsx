@@ -3,26 +3,53 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { generateCreativeSuggestions } from '../services/geminiService';
 import { SparkleIcon, ChevronDownIcon } from './icons';
 import Spinner from './Spinner';
+import AdvancedOptions from './AdvancedOptions';
+import type { PinnedParams } from '../types';
+import { readCubeLutFile } from '../lib/cubeLut';
+import { createLutPreset, deleteLutPreset, listLutPresets, saveLutPreset, type LutPreset } from '../lib/lutStore';
 
 interface FilterPanelProps {
-  onApplyFilter: (prompt: string) => void;
+  onApplyFilter: (prompt: string, pinned?: PinnedParams) => void;
   isLoading: boolean;
   currentImage: File;
-  onError: (message: string) => void;
+  onError: (error: unknown) => void;
+  // 选中的 LUT 在画布上实时预览，由 App 保存
+  selectedLut: LutPreset | null;
+  onSelectLut: (preset: LutPreset | null) => void;
+  lutStrength: number;
+  onLutStrengthChange: (strength: number) => void;
+  onApplyLut: () => void;
+  // 用选中的 LUT 处理多张图片并打包下载
+  onBatchApplyLut: (files: File[]) => void;
 }
 
 type Preset = { name: string; prompt: string };
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading, currentImage, onError }) => {
+const FilterPanel: React.FC<FilterPanelProps> = ({
+  onApplyFilter, isLoading, currentImage, onError,
+  selectedLut, onSelectLut, lutStrength, onLutStrengthChange, onApplyLut, onBatchApplyLut,
+}) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [aiPresets, setAiPresets] = useState<Preset[]>([]);
   const [isSuggesting, setIsSuggesting] = useState(false);
   const [isPresetsVisible, setIsPresetsVisible] = useState(true);
+  const [pinnedParams, setPinnedParams] = useState<PinnedParams>({});
+  const [lutPresets, setLutPresets] = useState<LutPreset[]>([]);
+  // 导入后尚未保存为预设的 LUT 的名称
+  const [lutName, setLutName] = useState('');
+  const lutInputRef = useRef<HTMLInputElement>(null);
+  const batchInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listLutPresets().then(setLutPresets, e => console.warn('Failed to load LUT presets', e));
+  }, []);
+
+  const isLutSaved = !!selectedLut && lutPresets.some(preset => preset.id === selectedLut.id);
 
   const presets: Preset[] = [
     { name: '合成波', prompt: 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.' },
@@ -36,16 +63,69 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading, cur
   const handlePresetClick = (prompt: string) => {
     setSelectedPresetPrompt(prompt);
     setCustomPrompt('');
+    onSelectLut(null);
   };
   
   const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setCustomPrompt(e.target.value);
     setSelectedPresetPrompt(null);
+    onSelectLut(null);
+  };
+
+  const handleLutPresetClick = (preset: LutPreset) => {
+    setSelectedPresetPrompt(null);
+    setCustomPrompt('');
+    onSelectLut(preset);
+  };
+
+  // 导入的 LUT 先直接预览，命名后再保存为预设
+  const handleImportLut = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const lut = await readCubeLutFile(file);
+      setLutName(lut.title);
+      handleLutPresetClick(createLutPreset(lut.title, lut));
+    } catch (err) {
+      console.error('Failed to import LUT', err);
+      onError(err instanceof Error ? err : '无法读取 LUT 文件');
+    }
+  };
+
+  const handleSaveLut = async () => {
+    if (!selectedLut || !lutName.trim()) return;
+    const preset = { ...selectedLut, name: lutName.trim() };
+    try {
+      await saveLutPreset(preset);
+      setLutPresets(presets => [...presets, preset]);
+      onSelectLut(preset);
+    } catch (err) {
+      console.error('Failed to save LUT preset', err);
+      onError(err instanceof Error ? err : '保存 LUT 预设失败');
+    }
+  };
+
+  const handleDeleteLut = async (preset: LutPreset) => {
+    try {
+      await deleteLutPreset(preset.id);
+      setLutPresets(presets => presets.filter(p => p.id !== preset.id));
+      if (selectedLut?.id === preset.id) onSelectLut(null);
+    } catch (err) {
+      console.error('Failed to delete LUT preset', err);
+      onError(err instanceof Error ? err : '删除 LUT 预设失败');
+    }
+  };
+
+  const handleBatchFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []) as File[];
+    e.target.value = '';
+    if (files.length > 0) onBatchApplyLut(files);
   };
 
   const handleApply = () => {
     if (activePrompt) {
-      onApplyFilter(activePrompt);
+      onApplyFilter(activePrompt, pinnedParams);
     }
   };
 
@@ -58,7 +138,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading, cur
         setIsPresetsVisible(true); // Show presets when new ones are loaded
     } catch (e) {
         console.error("Failed to get AI suggestions:", e);
-        onError(e instanceof Error ? e.message : '获取 AI 建议失败');
+        onError(e instanceof Error ? e : '获取 AI 建议失败');
     } finally {
         setIsSuggesting(false);
     }
@@ -131,6 +211,45 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading, cur
               </button>
             ))}
           </div>
+
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+              <h4 className="text-sm font-semibold text-gray-300">LUT 调色</h4>
+              <span className="text-xs text-gray-500">导入 .cube 文件，在本地计算，结果固定不变</span>
+              <button
+                onClick={() => lutInputRef.current?.click()}
+                disabled={isLoading}
+                className="ml-auto text-xs text-blue-400 hover:text-blue-300 underline disabled:opacity-50"
+              >
+                导入 LUT
+              </button>
+              <input ref={lutInputRef} type="file" accept=".cube" className="hidden" onChange={handleImportLut} />
+            </div>
+            {lutPresets.length > 0 && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {lutPresets.map(preset => (
+                  <div key={preset.id} className="relative group">
+                    <button
+                      onClick={() => handleLutPresetClick(preset)}
+                      disabled={isLoading}
+                      title={`${preset.lut.size}³ LUT`}
+                      className={`w-full text-center bg-emerald-600/20 border border-transparent text-emerald-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-emerald-600/40 hover:border-emerald-500 active:scale-95 text-base truncate disabled:opacity-50 disabled:cursor-not-allowed ${selectedLut?.id === preset.id ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-emerald-500' : ''}`}
+                    >
+                      {preset.name}
+                    </button>
+                    <button
+                      onClick={() => handleDeleteLut(preset)}
+                      disabled={isLoading}
+                      className="absolute top-0.5 right-1 text-xs text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      aria-label={`删除 LUT 预设“${preset.name}”`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
       
@@ -152,8 +271,64 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading, cur
         disabled={isLoading}
       />
       
+      {selectedLut && (
+        <div className="animate-fade-in flex flex-col gap-3 p-3 bg-gray-900/50 border border-gray-700 rounded-lg text-sm">
+          {!isLutSaved && (
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={lutName}
+                onChange={e => setLutName(e.target.value)}
+                placeholder="预设名称"
+                className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                disabled={isLoading}
+              />
+              <button
+                onClick={handleSaveLut}
+                disabled={isLoading || !lutName.trim()}
+                className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-gray-200 transition-colors disabled:opacity-40"
+              >
+                保存为预设
+              </button>
+            </div>
+          )}
+          <label className="flex items-center gap-2 text-gray-300">
+            <span className="w-16 shrink-0">强度</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={lutStrength}
+              onChange={e => onLutStrengthChange(Number(e.target.value))}
+              disabled={isLoading}
+              className="flex-grow"
+            />
+            <span className="w-10 text-right text-gray-400 tabular-nums">{lutStrength}%</span>
+          </label>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => batchInputRef.current?.click()}
+              disabled={isLoading || lutStrength === 0}
+              className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-gray-200 transition-colors disabled:opacity-40"
+              title="用同一个 LUT 和强度处理多张图片，打包下载"
+            >
+              批量处理图片…
+            </button>
+            <input ref={batchInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleBatchFiles} />
+            <button
+              onClick={onApplyLut}
+              disabled={isLoading || lutStrength === 0}
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-colors disabled:opacity-40"
+            >
+              应用 LUT
+            </button>
+          </div>
+        </div>
+      )}
+
       {activePrompt && (
         <div className="animate-fade-in flex flex-col gap-4">
+          <AdvancedOptions value={pinnedParams} onChange={setPinnedParams} disabled={isLoading} />
           <button
             onClick={handleApply}
             className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
@@ -6,14 +6,20 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { UploadIcon, XMarkIcon } from './icons';
 import { loadCustomPrompts, extractActualPrompt } from '../utils/promptLoader';
+import { getImage } from '../lib/imageStore';
+import BatchErrorCard from './BatchErrorCard';
+import { openResultViewer } from './resultViewer';
+import AdvancedOptions from './AdvancedOptions';
+import type { BatchProgress, BatchResult, PinnedParams } from '../types';
 
 interface FusionPanelProps {
-  onApplyFusion: (sourceImages: File[], prompt: string, count: number, variationIntensity?: string) => void;
+  onApplyFusion: (sourceImages: File[], prompt: string, count: number, variationIntensity?: string, pinned?: PinnedParams) => void;
   isLoading: boolean;
-  onError: (message: string) => void;
-  fusionResults?: string[];
+  onError: (error: unknown) => void;
+  fusionResults?: BatchResult[];
   onApplyResult?: (imageUrl: string) => void;
-  fusionProgress?: { current: number; total: number } | null;
+  onRetryResult?: (index: number, instruction?: string) => Promise<void>;
+  fusionProgress?: BatchProgress | null;
   onCancel?: () => void;
   canCancel?: boolean;
 }
@@ -21,13 +27,14 @@ interface FusionPanelProps {
 const MAX_FILE_SIZE_MB = 15;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 
-const FusionPanel: React.FC<FusionPanelProps> = ({ onApplyFusion, isLoading, onError, fusionResults, onApplyResult, fusionProgress, onCancel, canCancel }) => {
+const FusionPanel: React.FC<FusionPanelProps> = ({ onApplyFusion, isLoading, onError, fusionResults, onApplyResult, onRetryResult, fusionProgress, onCancel, canCancel }) => {
   const [sourceImageFile1, setSourceImageFile1] = useState<File | null>(null);
   const [sourceImageFile2, setSourceImageFile2] = useState<File | null>(null);
   const [prompt, setPrompt] = useState('');
   const [imageCount, setImageCount] = useState(1);
   const [showVariationHint, setShowVariationHint] = useState(false);
   const [variationIntensity, setVariationIntensity] = useState<'subtle' | 'moderate' | 'dramatic'>('moderate');
+  const [pinnedParams, setPinnedParams] = useState<PinnedParams>({});
   
   // 提示词相关状态
   const [customPrompts, setCustomPrompts] = useState<string[]>([]);
@@ -38,12 +45,20 @@ const FusionPanel: React.FC<FusionPanelProps> = ({ onApplyFusion, isLoading, onE
   const fileInputRef2 = useRef<HTMLInputElement>(null);
   const promptDropdownRef = useRef<HTMLDivElement>(null);
 
+  // 成功的结果，供放大查看页按顺序浏览
+  const successResults = (fusionResults ?? []).filter(result => result.imageUrl);
+
+  // 进度文字，正在重试时附带“重试 2/3”
+  const progressLabel = fusionProgress
+    ? `生成中... ${fusionProgress.current}/${fusionProgress.total}${fusionProgress.retry ? ` · 图片 ${fusionProgress.retry.index + 1} 重试 ${fusionProgress.retry.attempt}/${fusionProgress.retry.maxAttempts}` : ''}`
+    : `生成中... (${imageCount}张)`;
+
   const handleApply = () => {
     const sourceFiles = [sourceImageFile1, sourceImageFile2].filter(Boolean) as File[];
     if (sourceFiles.length > 0 && prompt.trim()) {
         // 从完整提示词行中提取实际的提示词内容
         const actualPrompt = extractActualPrompt(prompt);
-        onApplyFusion(sourceFiles, actualPrompt, imageCount, variationIntensity);
+        onApplyFusion(sourceFiles, actualPrompt, imageCount, variationIntensity, pinnedParams);
     }
   };
 
@@ -291,6 +306,8 @@ const FusionPanel: React.FC<FusionPanelProps> = ({ onApplyFusion, isLoading, onE
           </div>
         )}
 
+        <AdvancedOptions value={pinnedParams} onChange={setPinnedParams} disabled={isLoading} isBatch={imageCount > 1} />
+
         {canCancel && isLoading ? (
           <div className="flex gap-3 w-full">
             <button
@@ -298,9 +315,7 @@ const FusionPanel: React.FC<FusionPanelProps> = ({ onApplyFusion, isLoading, onE
               className="flex-1 bg-gradient-to-br from-purple-600 to-purple-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/20 disabled:from-purple-800 disabled:to-purple-700 disabled:shadow-none disabled:cursor-not-allowed text-base"
               disabled={true}
             >
-              {fusionProgress 
-                ? `生成中... ${fusionProgress.current}/${fusionProgress.total}` 
-                : `生成中... (${imageCount}张)`}
+              {progressLabel}
             </button>
             <button
               onClick={onCancel}
@@ -316,9 +331,7 @@ const FusionPanel: React.FC<FusionPanelProps> = ({ onApplyFusion, isLoading, onE
             disabled={isLoading || !prompt.trim() || (!sourceImageFile1 && !sourceImageFile2)}
           >
             {isLoading ? (
-              fusionProgress 
-                ? `生成中... ${fusionProgress.current}/${fusionProgress.total}` 
-                : `生成中... (${imageCount}张)`
+              progressLabel
             ) : `合成`}
           </button>
         )}
@@ -338,61 +351,49 @@ const FusionPanel: React.FC<FusionPanelProps> = ({ onApplyFusion, isLoading, onE
             'grid-cols-5 md:grid-cols-10'
           }`}>
             {fusionResults.map((result, index) => {
-              // 检查是否是错误占位符
-              const isError = result.includes('#error=');
-              let errorMessage = '';
-              let imageUrl = result;
-              
-              if (isError) {
-                const parts = result.split('#error=');
-                imageUrl = parts[0];
-                try {
-                  errorMessage = decodeURIComponent(parts[1]);
-                } catch {
-                  errorMessage = '生成失败';
-                }
-              }
+              const isError = result.status === 'error' || !result.imageUrl;
+              const imageUrl = result.imageUrl ?? '';
+              // 参数摘要，悬停时显示完整的变化描述和提示词
+              const metaLabel = `种子 ${result.seed} · 温度 ${result.temperature.toFixed(2)} · ${(result.durationMs / 1000).toFixed(1)}s`;
+              const metaTitle = `${result.model}\n${result.variation}\n\n${result.prompt}`;
               
               return (
-                <div key={index} className="relative group">
+                <div key={result.index} className="relative group">
                   {isError ? (
-                    // 错误状态显示
-                    <div className="w-full aspect-square bg-gray-800 rounded-lg shadow-lg flex flex-col items-center justify-center p-4">
-                      <div className="text-red-500 mb-2">
-                        <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                      </div>
-                      <div className="text-gray-400 text-sm text-center">
-                        图片 {index + 1} 失败
-                      </div>
-                      <div className="text-gray-500 text-xs text-center mt-1">
-                        {errorMessage.includes('PROHIBITED_CONTENT') ? '内容被安全过滤' : 
-                         errorMessage.includes('API 响应中没有内容') ? 'API 响应错误' :
-                         errorMessage.substring(0, 50)}
-                      </div>
-                    </div>
+                    <BatchErrorCard
+                      result={result}
+                      position={index + 1}
+                      fallbackMessage="生成失败"
+                      onRetry={onRetryResult}
+                      onError={onError}
+                      disabled={isLoading}
+                      accent="purple"
+                    />
                   ) : (
                     // 正常图片显示
                     <>
                       <img 
-                        src={result} 
+                        src={imageUrl} 
                         alt={`合成结果 ${index + 1}`}
                         className="w-full h-auto rounded-lg shadow-lg"
+                        title={metaTitle}
                       />
+                      <div className="mt-1 text-[10px] text-gray-500 text-center truncate" title={metaTitle}>{metaLabel}</div>
                       <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center gap-2">
                         {onApplyResult && (
                           <button
-                            onClick={() => onApplyResult(result)}
+                            onClick={() => onApplyResult(imageUrl)}
                             className="px-3 py-1 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 transition-colors"
                           >
                             应用
                           </button>
                         )}
                         <button
-                          onClick={() => {
+                          onClick={async () => {
+                            // 下载全尺寸图片，而不是网格中显示的预览图
+                            const fullImage = result.imageKey ? await getImage(result.imageKey).catch(() => null) : null;
                             const link = document.createElement('a');
-                            link.href = result;
+                            link.href = fullImage ? URL.createObjectURL(fullImage) : imageUrl;
                             
                             // 生成时间戳格式 yymmdd-hhmmss
                             const now = new Date();
@@ -408,15 +409,14 @@ const FusionPanel: React.FC<FusionPanelProps> = ({ onApplyFusion, isLoading, onE
                             
                             link.download = `fusion_${index + 1}_${timestamp}.png`;
                             link.click();
+                            if (fullImage) URL.revokeObjectURL(link.href);
                           }}
                           className="px-3 py-1 bg-gray-600 text-white text-sm rounded-lg hover:bg-gray-700 transition-colors"
                         >
                           下载
                         </button>
                         <button
-                          onClick={() => {
-                      // 创建包含所有图片和功能的HTML页面
-                      const htmlContent = `
+                          onClick={() => openResultViewer(successResults, imageUrls => `
 <!DOCTYPE html>
 <html lang="zh">
 <head>
@@ -636,8 +636,8 @@ const FusionPanel: React.FC<FusionPanelProps> = ({ onApplyFusion, isLoading, onE
   <div class="indicators" id="indicators"></div>
 
   <script>
-    const images = ${JSON.stringify(fusionResults)};
-    let currentIndex = ${index};
+    const images = ${JSON.stringify(imageUrls)};
+    let currentIndex = ${successResults.indexOf(result)};
     let isZoomed = false;
     let ratings = {};
     let translateX = 0;
@@ -849,13 +849,7 @@ const FusionPanel: React.FC<FusionPanelProps> = ({ onApplyFusion, isLoading, onE
     updateDisplay();
   </script>
 </body>
-</html>`;
-                      
-                      const blob = new Blob([htmlContent], { type: 'text/html' });
-                      const url = URL.createObjectURL(blob);
-                      window.open(url, '_blank');
-                      setTimeout(() => URL.revokeObjectURL(url), 1000);
-                    }}
+</html>`)}
                     className="px-3 py-1 bg-gray-600 text-white text-sm rounded-lg hover:bg-gray-700 transition-colors"
                   >
                     放大
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { ChevronDownIcon, ClockIcon, WarningIcon } from './icons';
+import { getThumbnail } from '../lib/imageStore';
+
+export interface HistoryTimelineItem {
+  id: string;
+  imageKey: string;
+  // 操作类型，例如“滤镜”；根节点为“原图”
+  label: string;
+  prompt?: string;
+  createdAt: number;
+  // 根节点（原图）不能删除或复制
+  isRoot: boolean;
+  // 这一步改动了要求范围以外的内容（见 lib/imageDiff）
+  driftWarning?: boolean;
+}
+
+interface HistoryTimelineProps {
+  items: HistoryTimelineItem[];
+  currentId: string;
+  onSelect: (id: string) => void;
+  // 悬停时在主画布上预览该状态，移开时传 null
+  onPreview: (id: string | null) => void;
+  onDelete: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onExport: (id: string) => void;
+  // 打开对比模式，对比该状态和当前状态
+  onCompare: (id: string) => void;
+  disabled?: boolean;
+}
+
+const PROMPT_SNIPPET_LENGTH = 16;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const snippet = (prompt: string) =>
+  prompt.length > PROMPT_SNIPPET_LENGTH ? `${prompt.slice(0, PROMPT_SNIPPET_LENGTH)}…` : prompt;
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({ items, currentId, onSelect, onPreview, onDelete, onDuplicate, onExport, onCompare, disabled }) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [menu, setMenu] = useState<{ id: string; x: number; y: number } | null>(null);
+
+  // 缩略图由 imageStore 生成并缓存，全尺寸图片可能已换出到磁盘
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(items.map(({ id, imageKey }) =>
+      getThumbnail(imageKey).then(url => [id, url] as const, () => [id, ''] as const)
+    )).then(entries => {
+      if (!cancelled) setThumbnails(Object.fromEntries(entries));
+    });
+    return () => { cancelled = true; };
+  }, [items]);
+
+  // 点击其他任何地方或按 Esc 关闭右键菜单
+  useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && close();
+    window.addEventListener('click', close);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('click', close);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [menu]);
+
+  const menuItem = items.find(item => item.id === menu?.id);
+
+  const runMenuAction = (action: (id: string) => void) => {
+    if (menu) action(menu.id);
+    setMenu(null);
+  };
+
+  return (
+    <div className="w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-sm text-gray-400 hover:text-gray-200 transition-colors"
+      >
+        <ChevronDownIcon className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        <ClockIcon className="w-4 h-4" />
+        编辑历史（{items.length}）
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 flex gap-2 overflow-x-auto pb-2 animate-fade-in" onMouseLeave={() => onPreview(null)}>
+          {items.map(item => (
+            <button
+              key={item.id}
+              onClick={() => onSelect(item.id)}
+              onMouseEnter={() => item.id !== currentId && onPreview(item.id)}
+              onContextMenu={e => {
+                e.preventDefault();
+                setMenu({ id: item.id, x: e.clientX, y: e.clientY });
+              }}
+              disabled={disabled}
+              title={item.prompt ? `${item.label}：${item.prompt}` : item.label}
+              className={`w-24 shrink-0 flex flex-col text-left rounded-md overflow-hidden border-2 bg-gray-800/60 transition-all disabled:opacity-50 ${
+                item.id === currentId ? 'border-blue-500' : 'border-gray-700 hover:border-gray-500'
+              }`}
+            >
+              <div className="relative w-full h-16 bg-black">
+                {thumbnails[item.id] && <img src={thumbnails[item.id]} alt={item.label} className="w-full h-full object-cover" />}
+                {item.driftWarning && (
+                  <span className="absolute top-1 right-1 p-0.5 rounded bg-amber-500/90 text-gray-900" title="改动超出了指定范围">
+                    <WarningIcon className="w-3.5 h-3.5" />
+                  </span>
+                )}
+              </div>
+              <div className="px-1.5 py-1 w-full">
+                <p className="text-xs font-semibold text-gray-200 truncate">{item.label}</p>
+                {item.prompt && <p className="text-[10px] text-gray-400 truncate">{snippet(item.prompt)}</p>}
+                <p className="text-[10px] text-gray-500">{formatTime(item.createdAt)}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {menu && menuItem && (
+        <div
+          className="fixed z-50 min-w-[8rem] py-1 bg-gray-800 border border-gray-600 rounded-md shadow-xl text-sm animate-fade-in"
+          style={{ left: menu.x, top: menu.y }}
+          onClick={e => e.stopPropagation()}
+        >
+          <button
+            onClick={() => runMenuAction(onExport)}
+            className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-gray-700"
+          >
+            导出此状态
+          </button>
+          <button
+            onClick={() => runMenuAction(onCompare)}
+            disabled={menuItem.id === currentId}
+            className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            与当前状态对比
+          </button>
+          <button
+            onClick={() => runMenuAction(onDuplicate)}
+            disabled={menuItem.isRoot || disabled}
+            className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            复制为新分支
+          </button>
+          <button
+            onClick={() => runMenuAction(onDelete)}
+            disabled={menuItem.isRoot || disabled}
+            className="w-full px-3 py-1.5 text-left text-red-400 hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            删除此状态
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryTimeline;
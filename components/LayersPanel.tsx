@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { EyeIcon, LayersIcon, XMarkIcon } from './icons';
+import MaskToolbar from './MaskToolbar';
+import type { MaskTool } from './MaskCanvas';
+import { useThumbnail } from './imageHooks';
+import {
+  BLEND_MODES, createTextLayer, getLayer, insertLayer, moveLayer, removeLayer, updateLayer, updateTextContent,
+  type BlendMode, type Layer, type LayerStack,
+} from '../lib/layers';
+
+interface LayersPanelProps {
+  // null 表示当前状态还没有图层
+  stack: LayerStack | null;
+  onChange: (stack: LayerStack) => void;
+  // 图层有未应用到历史的修改
+  isDirty: boolean;
+  onEnable: () => void;
+  onApply: () => void;
+  onDiscard: () => void;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  // 生成式编辑的输入：null 为可见图层的合成图，否则为该图层
+  targetId: string | null;
+  onTargetChange: (id: string | null) => void;
+  // 编辑选中图层的蒙版
+  maskTool: MaskTool | null;
+  onMaskToolChange: (tool: MaskTool | null) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  onInvertMask: () => void;
+  disabled?: boolean;
+  onClose: () => void;
+}
+
+const LayerThumbnail: React.FC<{ layer: Layer }> = ({ layer }) => {
+  const src = useThumbnail(layer.kind === 'image' ? layer.imageKey : undefined);
+  return (
+    <div className="w-10 h-10 shrink-0 rounded bg-gray-700 overflow-hidden flex items-center justify-center">
+      {layer.kind === 'text'
+        ? <span className="text-lg font-bold" style={{ color: layer.content.color }}>T</span>
+        : src && <img src={src} alt="" className="w-full h-full object-cover" />}
+    </div>
+  );
+};
+
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  stack, onChange, isDirty, onEnable, onApply, onDiscard, selectedId, onSelect, targetId, onTargetChange,
+  maskTool, onMaskToolChange, brushSize, onBrushSizeChange, onInvertMask, disabled, onClose,
+}) => {
+  const selected = stack ? getLayer(stack, selectedId) : undefined;
+  const buttonClassName = 'px-3 py-1.5 rounded bg-white/10 hover:bg-white/20 text-gray-200 transition-colors disabled:opacity-40';
+
+  const handleAddText = () => {
+    if (!stack) return;
+    const layer = createTextLayer();
+    onChange(insertLayer(stack, layer, selectedId));
+    onSelect(layer.id);
+  };
+
+  const handleRemove = (id: string) => {
+    if (!stack) return;
+    onChange(removeLayer(stack, id));
+    if (targetId === id) onTargetChange(null);
+  };
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in text-sm">
+      <div className="flex items-center gap-3">
+        <h3 className="text-lg font-semibold text-gray-200">图层</h3>
+        {isDirty && <span className="text-xs text-amber-300">有未应用的修改</span>}
+        <button onClick={onClose} className="ml-auto text-gray-400 hover:text-white transition-colors" aria-label="关闭图层面板">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {!stack ? (
+        <div className="flex flex-col items-center gap-3 py-4 text-gray-400">
+          <LayersIcon className="w-8 h-8" />
+          <p>以当前图片作为背景图层。之后的 AI 编辑结果、抠图和文字都会作为新图层叠加，可以随时调整或隐藏。</p>
+          <button onClick={onEnable} disabled={disabled} className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-colors disabled:opacity-50">
+            启用图层
+          </button>
+        </div>
+      ) : (
+        <>
+          <ul className="flex flex-col gap-1" aria-label="图层列表（上面的图层在前）">
+            {[...stack.layers].reverse().map((layer, index) => (
+              <li
+                key={layer.id}
+                className={`flex items-center gap-2 p-1.5 rounded-md border transition-colors ${layer.id === selectedId ? 'border-blue-500 bg-blue-500/10' : 'border-transparent hover:bg-white/5'}`}
+              >
+                <button
+                  onClick={() => onChange(updateLayer(stack, layer.id, { visible: !layer.visible }))}
+                  disabled={disabled}
+                  className={`p-1 transition-opacity ${layer.visible ? 'text-gray-200' : 'text-gray-500 opacity-40'}`}
+                  aria-label={layer.visible ? '隐藏图层' : '显示图层'}
+                  aria-pressed={layer.visible}
+                >
+                  <EyeIcon className="w-5 h-5" />
+                </button>
+                <button onClick={() => onSelect(layer.id)} className="flex items-center gap-2 flex-grow min-w-0 text-left">
+                  <LayerThumbnail layer={layer} />
+                  <span className="truncate text-gray-200">{layer.name}</span>
+                  {layer.mask && <span className="text-xs text-gray-500 shrink-0">蒙版</span>}
+                  {layer.id === targetId && <span className="text-xs text-blue-300 shrink-0">编辑目标</span>}
+                </button>
+                <button onClick={() => onChange(moveLayer(stack, layer.id, 1))} disabled={disabled || index === 0} className="px-1.5 text-gray-400 hover:text-white disabled:opacity-30" aria-label="上移图层">↑</button>
+                <button onClick={() => onChange(moveLayer(stack, layer.id, -1))} disabled={disabled || index === stack.layers.length - 1} className="px-1.5 text-gray-400 hover:text-white disabled:opacity-30" aria-label="下移图层">↓</button>
+                <button onClick={() => handleRemove(layer.id)} disabled={disabled || stack.layers.length < 2} className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30" aria-label="删除图层">
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={handleAddText} disabled={disabled} className={buttonClassName}>添加文字</button>
+            <label className="flex items-center gap-2 text-gray-400 ml-auto">
+              AI 编辑的输入
+              <select
+                value={targetId ?? ''}
+                onChange={e => onTargetChange(e.target.value || null)}
+                disabled={disabled}
+                className="bg-gray-800 border border-gray-600 text-gray-200 rounded p-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
+              >
+                <option value="">可见图层的合成图</option>
+                {stack.layers.filter(layer => layer.kind === 'image').map(layer => (
+                  <option key={layer.id} value={layer.id}>图层：{layer.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {selected && (
+            <div className="flex flex-col gap-3 p-3 bg-gray-900/50 border border-gray-700 rounded-lg">
+              <label className="flex items-center gap-2 text-gray-300">
+                <span className="w-20 shrink-0">名称</span>
+                <input
+                  type="text"
+                  value={selected.name}
+                  onChange={e => onChange(updateLayer(stack, selected.id, { name: e.target.value }))}
+                  disabled={disabled}
+                  className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded p-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-gray-300">
+                <span className="w-20 shrink-0">不透明度</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={Math.round(selected.opacity * 100)}
+                  onChange={e => onChange(updateLayer(stack, selected.id, { opacity: Number(e.target.value) / 100 }))}
+                  disabled={disabled}
+                  className="flex-grow"
+                />
+                <span className="w-12 text-right text-gray-400 tabular-nums">{Math.round(selected.opacity * 100)}%</span>
+              </label>
+              <label className="flex items-center gap-2 text-gray-300">
+                <span className="w-20 shrink-0">混合模式</span>
+                <select
+                  value={selected.blendMode}
+                  onChange={e => onChange(updateLayer(stack, selected.id, { blendMode: e.target.value as BlendMode }))}
+                  disabled={disabled}
+                  className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded p-1.5 focus:ring-1 focus:ring-blue-500 focus:outline-none disabled:opacity-60"
+                >
+                  {BLEND_MODES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </label>
+
+              {selected.kind === 'text' && (
+                <>
+                  <textarea
+                    value={selected.content.text}
+                    onChange={e => onChange(updateTextContent(stack, selected.id, { text: e.target.value }))}
+                    disabled={disabled}
+                    rows={2}
+                    className="w-full bg-gray-800 border border-gray-600 text-gray-200 rounded p-2 focus:ring-1 focus:ring-blue-500 focus:outline-none"
+                    aria-label="文字内容"
+                  />
+                  {([['size', '字号', 1, 40], ['x', '水平位置', 0, 100], ['y', '垂直位置', 0, 100]] as const).map(([key, label, min, max]) => (
+                    <label key={key} className="flex items-center gap-2 text-gray-300">
+                      <span className="w-20 shrink-0">{label}</span>
+                      <input
+                        type="range"
+                        min={min}
+                        max={max}
+                        value={Math.round(selected.content[key] * 100)}
+                        onChange={e => onChange(updateTextContent(stack, selected.id, { [key]: Number(e.target.value) / 100 }))}
+                        disabled={disabled}
+                        className="flex-grow"
+                      />
+                      <span className="w-12 text-right text-gray-400 tabular-nums">{Math.round(selected.content[key] * 100)}%</span>
+                    </label>
+                  ))}
+                  <div className="flex items-center gap-4 text-gray-300">
+                    <label className="flex items-center gap-2">
+                      颜色
+                      <input
+                        type="color"
+                        value={selected.content.color}
+                        onChange={e => onChange(updateTextContent(stack, selected.id, { color: e.target.value }))}
+                        disabled={disabled}
+                        className="w-8 h-8 bg-transparent"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.content.bold}
+                        onChange={e => onChange(updateTextContent(stack, selected.id, { bold: e.target.checked }))}
+                        disabled={disabled}
+                      />
+                      粗体
+                    </label>
+                  </div>
+                </>
+              )}
+
+              <div className="flex flex-col gap-1">
+                <span className="text-gray-300">图层蒙版 <span className="text-xs text-gray-500">涂抹的地方隐藏该图层</span></span>
+                <MaskToolbar
+                  tool={maskTool}
+                  onToolChange={onMaskToolChange}
+                  brushSize={brushSize}
+                  onBrushSizeChange={onBrushSizeChange}
+                  hasMask={!!selected.mask}
+                  onInvert={onInvertMask}
+                  onClear={() => onChange(updateLayer(stack, selected.id, { mask: undefined }))}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <p className="text-xs text-gray-500 flex-grow">应用后合成图作为新的历史步骤，图层随历史一起保存，之后仍可继续修改。</p>
+            <button onClick={onDiscard} disabled={disabled || !isDirty} className={buttonClassName}>放弃修改</button>
+            <button onClick={onApply} disabled={disabled || !isDirty} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-colors disabled:opacity-40">
+              应用
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LayersPanel;
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { DEFAULT_LOCAL_ADJUSTMENTS, LOCAL_ADJUSTMENT_CONTROLS, isDefaultAdjustments, type LocalAdjustments } from '../lib/localAdjustments';
+
+interface LocalAdjustmentControlsProps {
+  value: LocalAdjustments;
+  onChange: (value: LocalAdjustments) => void;
+  onApply: () => void;
+  // 当前状态是一次本地调整时，可以载入它的参数重新编辑
+  onEditCurrentStep?: () => void;
+  // 正在重新编辑某一步：结果作为那一步的新分支
+  isEditingStep?: boolean;
+  onCancelEdit?: () => void;
+  disabled?: boolean;
+}
+
+const LocalAdjustmentControls: React.FC<LocalAdjustmentControlsProps> = ({
+  value, onChange, onApply, onEditCurrentStep, isEditingStep, onCancelEdit, disabled,
+}) => {
+  const isDefault = isDefaultAdjustments(value);
+
+  return (
+    <div className="w-full p-3 bg-gray-900/50 border border-gray-700 rounded-lg flex flex-col gap-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h4 className="text-md font-semibold text-gray-300">即时调整</h4>
+        <span className="text-xs text-gray-500">在本地计算，不调用 API，不改变画面内容</span>
+        {onEditCurrentStep && !isEditingStep && (
+          <button onClick={onEditCurrentStep} disabled={disabled} className="ml-auto text-xs text-blue-400 hover:text-blue-300 underline disabled:opacity-50">
+            修改这一步的参数
+          </button>
+        )}
+      </div>
+      {isEditingStep && (
+        <div className="flex items-center gap-2 text-xs text-amber-300 bg-amber-900/20 px-3 py-1.5 rounded-lg">
+          正在修改上一步的参数，应用后作为新的分支保存
+          <button onClick={onCancelEdit} disabled={disabled} className="ml-auto underline hover:text-amber-200">取消</button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+        {LOCAL_ADJUSTMENT_CONTROLS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-gray-300">
+            <span className="w-20 shrink-0">{label}</span>
+            <input
+              type="range"
+              min={-100}
+              max={100}
+              value={value[key]}
+              onChange={e => onChange({ ...value, [key]: Number(e.target.value) })}
+              onDoubleClick={() => onChange({ ...value, [key]: 0 })}
+              disabled={disabled}
+              className="flex-grow"
+              title="双击恢复为 0"
+            />
+            <span className="w-10 text-right text-gray-400 tabular-nums">{value[key] > 0 ? `+${value[key]}` : value[key]}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => onChange(DEFAULT_LOCAL_ADJUSTMENTS)}
+          disabled={disabled || isDefault}
+          className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-gray-200 transition-colors disabled:opacity-40"
+        >
+          重置
+        </button>
+        <button
+          onClick={onApply}
+          disabled={disabled || isDefault}
+          className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-colors disabled:opacity-40"
+        >
+          应用即时调整
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LocalAdjustmentControls;
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { MASK_COLOR, maskCanvasSize } from '../lib/maskUtils';
+
+export type MaskTool = 'brush' | 'eraser';
+
+interface MaskCanvasProps {
+  // 图片的原始尺寸，蒙版保持相同的宽高比
+  width: number;
+  height: number;
+  // 当前蒙版（PNG data URL）；null 表示没有涂抹
+  mask: string | null;
+  // 为 null 时只显示蒙版，不拦截鼠标，方便在图片上点选热点
+  tool: MaskTool | null;
+  // 画笔直径（图片原始像素）
+  brushSize: number;
+  onChange: (mask: string | null) => void;
+}
+
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ width, height, mask, tool, brushSize, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // 最近一次由本组件产生的蒙版，外部传回同一个值时不必重画
+  const emittedRef = useRef<string | null>(null);
+  // 画布尺寸变化会清空画布，需要重画
+  const drawnSizeRef = useRef('');
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const { width: canvasWidth, height: canvasHeight, scale } = maskCanvasSize(width, height);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const size = `${canvasWidth}x${canvasHeight}`;
+    if (!canvas || !ctx || (mask === emittedRef.current && size === drawnSizeRef.current)) return;
+    emittedRef.current = mask;
+    drawnSizeRef.current = size;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!mask) return;
+    const image = new Image();
+    image.onload = () => ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    image.src = mask;
+  }, [mask, canvasWidth, canvasHeight]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvasWidth,
+      y: ((e.clientY - rect.top) / rect.height) * canvasHeight,
+    };
+  };
+
+  // 从上一个点连线到当前点，快速拖动时笔画也是连续的
+  const paint = (point: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !tool) return;
+    const from = lastPointRef.current ?? point;
+    ctx.globalCompositeOperation = tool === 'brush' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = Math.max(1, brushSize * scale);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!tool) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paint(toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!tool || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    paint(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!tool || !lastPointRef.current) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    const next = canvasRef.current?.toDataURL('image/png') ?? null;
+    emittedRef.current = next;
+    onChange(next);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={canvasWidth}
+      height={canvasHeight}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      className={`absolute inset-0 w-full h-full opacity-50 z-10 ${tool ? 'touch-none cursor-crosshair' : 'pointer-events-none'}`}
+    />
+  );
+};
+
+export default MaskCanvas;
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { PaintBrushIcon } from './icons';
+import type { MaskTool } from './MaskCanvas';
+
+interface MaskToolbarProps {
+  // null 表示不在画布上涂抹，此时可以正常点击图片
+  tool: MaskTool | null;
+  onToolChange: (tool: MaskTool | null) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  hasMask: boolean;
+  onInvert: () => void;
+  onClear: () => void;
+  // 提供时显示羽化滑块（原图像素）
+  feather?: number;
+  onFeatherChange?: (feather: number) => void;
+  disabled?: boolean;
+}
+
+const MaskToolbar: React.FC<MaskToolbarProps> = ({
+  tool, onToolChange, brushSize, onBrushSizeChange, hasMask, onInvert, onClear, feather, onFeatherChange, disabled,
+}) => {
+  const buttonClassName = (active: boolean) =>
+    `px-3 py-1.5 rounded transition-colors disabled:opacity-50 ${active ? 'bg-blue-600 text-white' : 'bg-white/10 hover:bg-white/20 text-gray-200'}`;
+
+  return (
+    <div className="w-full flex flex-col gap-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => onToolChange(tool === 'brush' ? null : 'brush')} disabled={disabled} className={buttonClassName(tool === 'brush')} aria-pressed={tool === 'brush'}>
+          <PaintBrushIcon className="w-4 h-4 inline -mt-0.5 mr-1" />
+          画笔
+        </button>
+        <button onClick={() => onToolChange(tool === 'eraser' ? null : 'eraser')} disabled={disabled} className={buttonClassName(tool === 'eraser')} aria-pressed={tool === 'eraser'}>
+          橡皮擦
+        </button>
+        <button onClick={onInvert} disabled={disabled} className={buttonClassName(false)} title="涂抹过的地方变为未涂抹，反之亦然">
+          反选
+        </button>
+        <button onClick={onClear} disabled={disabled || !hasMask} className={buttonClassName(false)}>
+          清除
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-gray-300">
+        <span className="w-20 shrink-0">画笔大小</span>
+        <input
+          type="range"
+          min={5}
+          max={400}
+          value={brushSize}
+          onChange={e => onBrushSizeChange(Number(e.target.value))}
+          disabled={disabled}
+          className="flex-grow"
+        />
+        <span className="w-12 text-right text-gray-400 tabular-nums">{brushSize}px</span>
+      </label>
+      {feather !== undefined && onFeatherChange && (
+        <label className="flex items-center gap-2 text-gray-300">
+          <span className="w-20 shrink-0">边缘羽化</span>
+          <input
+            type="range"
+            min={0}
+            max={64}
+            value={feather}
+            onChange={e => onFeatherChange(Number(e.target.value))}
+            disabled={disabled}
+            className="flex-grow"
+          />
+          <span className="w-12 text-right text-gray-400 tabular-nums">{feather}px</span>
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default MaskToolbar;
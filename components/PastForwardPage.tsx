@@ -2,13 +2,15 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { generateDecadeImage } from '../services/geminiService';
 import { createAlbumPage } from '../lib/albumUtils';
 import PolaroidCard from './PolaroidCard';
 import { UploadIcon, DownloadIcon } from './icons';
 import Spinner from './Spinner';
+import { describeError, type ModelErrorCode } from '../services/modelErrors';
+import { scheduleJob } from '../services/jobScheduler';
 
 type AppState = 'idle' | 'image-uploaded' | 'generating' | 'results-shown';
 type ImageStatus = 'pending' | 'done' | 'error';
@@ -16,6 +18,7 @@ type GeneratedImage = {
     status: ImageStatus;
     url?: string;
     error?: string;
+    errorCode?: ModelErrorCode;
 };
 
 const DECADES = ['1950s', '1960s', '1970s', '1980s', '1990s', '2000s'];
@@ -39,6 +42,18 @@ const PastForwardPage: React.FC = () => {
 
     const fileInputRef = useRef<HTMLInputElement>(null);
     const dragAreaRef = useRef<HTMLDivElement>(null);
+    // 每个年代正在进行的生成；重新生成、重新开始或离开页面时中止
+    const controllersRef = useRef<Record<string, AbortController>>({});
+    // 中止后递增，已经开始的整批生成结束时不再更新页面状态
+    const generationRef = useRef(0);
+
+    const abortAll = () => {
+        Object.values<AbortController>(controllersRef.current).forEach(controller => controller.abort());
+        controllersRef.current = {};
+        generationRef.current++;
+    };
+
+    useEffect(() => abortAll, []);
 
     const handleImageUpload = (file: File) => {
         if (!file.type.startsWith('image/')) {
@@ -61,6 +76,7 @@ const PastForwardPage: React.FC = () => {
     };
     
     const resetState = () => {
+        abortAll();
         setAppState('idle');
         setUploadedImage(null);
         setGeneratedImages({});
@@ -70,6 +86,9 @@ const PastForwardPage: React.FC = () => {
 
     const generateSingleDecade = async (decade: string) => {
         if (!uploadedImage) return;
+        controllersRef.current[decade]?.abort();
+        const controller = new AbortController();
+        controllersRef.current[decade] = controller;
 
         setGeneratedImages(prev => ({
             ...prev,
@@ -78,18 +97,23 @@ const PastForwardPage: React.FC = () => {
 
         try {
             const primaryPrompt = `Reimagine the person in this photo in the style of the ${decade}. This includes clothing, hairstyle, photo quality, and the overall aesthetic of that decade. The output must be a photorealistic image showing the person clearly.`;
-            const resultUrl = await generateDecadeImage(uploadedImage, primaryPrompt);
+            // 经共享调度器排队，并发和每分钟请求数由设置控制
+            const resultUrl = await scheduleJob(signal => generateDecadeImage(uploadedImage, primaryPrompt, signal), controller.signal);
+            if (controller.signal.aborted) return;
             setGeneratedImages(prev => ({
                 ...prev,
                 [decade]: { status: 'done', url: resultUrl },
             }));
         } catch (err) {
+            if (controller.signal.aborted) return;
             console.error(`Failed to generate image for ${decade}:`, err);
-            const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+            const { code, title, detail } = describeError(err);
             setGeneratedImages(prev => ({
                 ...prev,
-                [decade]: { status: 'error', error: errorMessage },
+                [decade]: { status: 'error', error: detail ?? title, errorCode: code },
             }));
+        } finally {
+            if (controllersRef.current[decade] === controller) delete controllersRef.current[decade];
         }
     };
 
@@ -106,22 +130,9 @@ const PastForwardPage: React.FC = () => {
         });
         setGeneratedImages(initialImages);
 
-        const concurrencyLimit = 2;
-        const decadesQueue = [...DECADES];
-
-        const processQueue = async () => {
-            const decade = decadesQueue.shift();
-            if (decade) {
-                await generateSingleDecade(decade);
-            }
-        };
-
-        const workers = Array(concurrencyLimit).fill(null).map(processQueue);
-        await Promise.all(workers.map(async (worker) => {
-            while (decadesQueue.length > 0) {
-                await processQueue();
-            }
-        }));
+        const generation = generationRef.current;
+        await Promise.all(DECADES.map(generateSingleDecade));
+        if (generation !== generationRef.current) return;
 
         setIsLoading(false);
         setAppState('results-shown');
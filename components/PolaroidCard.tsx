@@ -6,12 +6,14 @@ import React from 'react';
 import { motion, useAnimation } from 'framer-motion';
 import { RefreshIcon, MagnifyPlusIcon, DownloadSingleIcon } from './icons';
 import Spinner from './Spinner';
+import { describeErrorCode, type ModelErrorCode } from '../services/modelErrors';
 
 type ImageStatus = 'pending' | 'done' | 'error';
 type GeneratedImage = {
     status: ImageStatus;
     url?: string;
     error?: string;
+    errorCode?: ModelErrorCode;
 };
 
 interface PolaroidCardProps {
@@ -97,16 +99,19 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({
                         <p className="text-gray-400 mt-2 text-sm">Generating...</p>
                     </div>
                 );
-            case 'error':
+            case 'error': {
+                const errorInfo = describeErrorCode(imageState.errorCode ?? 'UNKNOWN');
                 return (
-                    <div className="w-full h-full flex flex-col items-center justify-center bg-red-900/50 p-2 text-center">
-                        <p className="text-red-300 text-xs font-bold mb-2">Generation Failed</p>
+                    <div className="w-full h-full flex flex-col items-center justify-center bg-red-900/50 p-2 text-center" title={imageState.error}>
+                        <p className="text-red-300 text-xs font-bold mb-1">{errorInfo.title}</p>
+                        <p className="text-red-200/80 text-[10px] font-sans mb-2">{errorInfo.hint}</p>
                         <button onClick={onRegenerate} className="flex items-center gap-1 text-white bg-red-600/80 px-2 py-1 rounded-full text-xs hover:bg-red-500">
                             <RefreshIcon className="w-3 h-3"/>
                             Retry
                         </button>
                     </div>
                 );
+            }
             case 'done':
                 return (
                     <motion.div className="relative w-full h-full group/image">
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import MaskToolbar from './MaskToolbar';
+import type { MaskTool } from './MaskCanvas';
+import type { PreserveMode, PreserveOptions } from '../lib/regionComposite';
+
+interface PreserveRegionsOptionsProps {
+  options: PreserveOptions;
+  onChange: (next: Partial<PreserveOptions>) => void;
+  // 涂抹模式下的画笔工具；null 表示不在画布上涂抹
+  maskTool: MaskTool | null;
+  onMaskToolChange: (tool: MaskTool | null) => void;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  hasMask: boolean;
+  onInvertMask: () => void;
+  onClearMask: () => void;
+  disabled?: boolean;
+}
+
+const MODES: { value: PreserveMode; label: string }[] = [
+  { value: 'off', label: '关闭' },
+  { value: 'auto', label: '自动检测' },
+  { value: 'brush', label: '手动涂抹' },
+];
+
+const PreserveRegionsOptions: React.FC<PreserveRegionsOptionsProps> = ({
+  options, onChange, maskTool, onMaskToolChange, brushSize, onBrushSizeChange, hasMask, onInvertMask, onClearMask, disabled,
+}) => {
+  return (
+    <div className="w-full p-3 bg-gray-900/50 border border-gray-700 rounded-lg flex flex-col gap-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-gray-300 font-semibold">保留未编辑区域</span>
+        <div className="flex rounded-lg overflow-hidden border border-gray-600" role="radiogroup" aria-label="保留未编辑区域">
+          {MODES.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => {
+                onChange({ mode: value });
+                if (value !== 'brush') onMaskToolChange(null);
+              }}
+              disabled={disabled}
+              role="radio"
+              aria-checked={options.mode === value}
+              className={`px-3 py-1 transition-colors disabled:opacity-50 ${options.mode === value ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {options.mode !== 'off' && (
+        <>
+          <label className="flex items-center gap-2 text-gray-300">
+            <span className="w-20 shrink-0">边缘羽化</span>
+            <input
+              type="range"
+              min={0}
+              max={64}
+              value={options.feather}
+              onChange={e => onChange({ feather: Number(e.target.value) })}
+              disabled={disabled}
+              className="flex-grow"
+            />
+            <span className="w-12 text-right text-gray-400 tabular-nums">{options.feather}px</span>
+          </label>
+
+          {options.mode === 'brush' && (
+            <MaskToolbar
+              tool={maskTool}
+              onToolChange={onMaskToolChange}
+              brushSize={brushSize}
+              onBrushSizeChange={onBrushSizeChange}
+              hasMask={hasMask}
+              onInvert={onInvertMask}
+              onClear={onClearMask}
+              disabled={disabled}
+            />
+          )}
+
+          <p className="text-xs text-gray-500">
+            {options.mode === 'auto'
+              ? '只把模型改动过的区域合成回原图，其余部分保持原图的全分辨率像素。'
+              : '只把涂抹区域内的模型输出合成回原图。选中画笔后在图片上涂抹，再点一次画笔即可继续点选修饰位置。'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PreserveRegionsOptions;
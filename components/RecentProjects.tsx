@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ClockIcon, XMarkIcon } from './icons';
+import { deleteProject, getStorageUsage, listProjects, pruneProjects, type ProjectSummary, type StorageUsage } from '../lib/projectStore';
+
+interface RecentProjectsProps {
+  onResume: (id: string) => Promise<void>;
+}
+
+// “清理旧项目”时保留的数量
+const KEEP_RECENT = 5;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const RecentProjects: React.FC<RecentProjectsProps> = ({ onResume }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, storage] = await Promise.all([listProjects(), getStorageUsage()]);
+      setProjects(list);
+      setUsage(storage);
+    } catch (e) {
+      console.warn('Failed to load saved projects', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    projects.forEach(({ id, thumbnail }) => {
+      if (thumbnail) urls[id] = URL.createObjectURL(thumbnail);
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [projects]);
+
+  const handleResume = async (id: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onResume(id);
+    } catch (e) {
+      console.error('Failed to resume project', e);
+      setError(e instanceof Error ? e.message : '恢复项目时出错');
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const runCleanup = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      console.warn('Failed to clean up saved projects', e);
+    } finally {
+      await refresh();
+      setIsBusy(false);
+    }
+  };
+
+  if (projects.length === 0) return null;
+
+  const [latest, ...others] = projects;
+
+  return (
+    <div className="w-full max-w-3xl p-6 bg-gray-800/30 border-2 border-gray-700/50 rounded-2xl backdrop-blur-sm flex flex-col gap-4 text-left">
+      <button
+        onClick={() => handleResume(latest.id)}
+        disabled={isBusy}
+        className="w-full inline-flex items-center justify-center gap-3 px-8 py-3 text-lg font-bold text-white bg-green-600 rounded-full hover:bg-green-500 transition-colors disabled:bg-green-800 disabled:cursor-not-allowed"
+      >
+        <ClockIcon className="w-6 h-6" />
+        继续上次的编辑：{latest.name}
+      </button>
+
+      {error && (
+        <div className="bg-red-500/20 border border-red-500 text-red-300 px-4 py-2 rounded-lg text-center text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      {others.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <h3 className="text-sm font-semibold text-gray-400">最近的项目</h3>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {others.map(project => (
+              <div key={project.id} className="relative group bg-gray-900/50 border border-gray-700 rounded-lg overflow-hidden">
+                <button onClick={() => handleResume(project.id)} disabled={isBusy} className="w-full text-left disabled:opacity-60" title={`打开 ${project.name}`}>
+                  <div className="w-full h-24 bg-black">
+                    {thumbnails[project.id] && <img src={thumbnails[project.id]} alt={project.name} className="w-full h-full object-cover" />}
+                  </div>
+                  <div className="p-2">
+                    <p className="text-sm font-semibold text-gray-200 truncate">{project.name}</p>
+                    <p className="text-xs text-gray-500">{formatDate(project.updatedAt)} · {project.stepCount} 步</p>
+                  </div>
+                </button>
+                <button
+                  onClick={() => runCleanup(() => deleteProject(project.id))}
+                  disabled={isBusy}
+                  className="absolute top-1 right-1 p-1 bg-black/60 rounded-full text-gray-300 hover:text-white hover:bg-red-600/80 opacity-0 group-hover:opacity-100 transition-opacity"
+                  aria-label="删除项目"
+                  title="删除项目"
+                >
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-400">
+        <div className="flex items-center gap-2">
+          {usage && usage.quota > 0 && (
+            <>
+              <div className="w-32 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500" style={{ width: `${Math.min(100, usage.usage / usage.quota * 100)}%` }} />
+              </div>
+              <span>已用 {formatBytes(usage.usage)} / {formatBytes(usage.quota)}</span>
+            </>
+          )}
+        </div>
+        <div className="flex gap-3">
+          {projects.length > KEEP_RECENT && (
+            <button onClick={() => runCleanup(() => pruneProjects(KEEP_RECENT))} disabled={isBusy} className="underline hover:text-white transition-colors disabled:opacity-50">
+              只保留最近 {KEEP_RECENT} 个
+            </button>
+          )}
+          <button onClick={() => window.confirm('确定删除所有已保存的项目吗？此操作无法撤销。') && runCleanup(() => pruneProjects(0))} disabled={isBusy} className="underline hover:text-red-400 transition-colors disabled:opacity-50">
+            清除全部
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecentProjects;
@@ -3,10 +3,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useState } from 'react';
 // FIX: Removed functionality for custom API key management to align with guidelines.
 // The API key must be exclusively managed via the `process.env.API_KEY` environment variable.
 import { XMarkIcon } from './icons';
+import { getImageModelProvider, listImageModelProviders, setActiveImageModelProvider } from '../services/imageModelProvider';
+import { getMockOptions, setMockOptions, MOCK_SCENARIOS, type MockScenario } from '../services/mockProvider';
+import { getSchedulerOptions, setSchedulerOptions } from '../services/jobScheduler';
+import { getMemoryOptions, getMemoryUsage, setMemoryOptions } from '../lib/imageStore';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -14,8 +18,37 @@ interface SettingsModalProps {
 }
 
 const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
+  const [providerId, setProviderId] = useState(() => getImageModelProvider().id);
+  const [mockOptions, setMockOptionsState] = useState(getMockOptions);
+  const [schedulerOptions, setSchedulerOptionsState] = useState(getSchedulerOptions);
+  const [memoryOptions, setMemoryOptionsState] = useState(getMemoryOptions);
+
   if (!isOpen) return null;
 
+  const handleProviderChange = (id: string) => {
+    setActiveImageModelProvider(id);
+    setProviderId(id);
+  };
+
+  const updateMockOptions = (next: Partial<typeof mockOptions>) => {
+    setMockOptions(next);
+    setMockOptionsState(getMockOptions());
+  };
+
+  const updateSchedulerOptions = (next: Partial<typeof schedulerOptions>) => {
+    setSchedulerOptions(next);
+    setSchedulerOptionsState(getSchedulerOptions());
+  };
+
+  const updateMemoryOptions = (next: Partial<typeof memoryOptions>) => {
+    setMemoryOptions(next);
+    setMemoryOptionsState(getMemoryOptions());
+  };
+
+  const memoryUsage = getMemoryUsage();
+
+  const selectClassName = "w-full bg-gray-900 border border-gray-600 text-gray-200 rounded-lg p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center animate-fade-in" onClick={onClose} aria-modal="true" role="dialog">
       <div className="bg-gray-800 border border-gray-700 rounded-2xl shadow-2xl shadow-blue-500/10 w-full max-w-lg m-4 p-6 text-gray-200 relative" onClick={e => e.stopPropagation()}>
@@ -25,7 +58,67 @@ const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
 
         <h2 className="text-2xl font-bold mb-2">API 密钥设置</h2>
         <p className="text-gray-400 mb-4">此应用程序已配置为使用通过 <code>process.env.API_KEY</code> 环境变量提供的 API 密钥。无需用户配置。</p>
-        
+
+        <h3 className="text-lg font-semibold mt-6 mb-2">模型后端</h3>
+        <p className="text-gray-400 text-sm mb-3">“离线模拟”不访问网络、不产生费用，返回由提示词和种子决定的合成图片，适合演示和测试。也可通过环境变量 <code>IMAGE_PROVIDER=mock</code> 设为默认。</p>
+        <select value={providerId} onChange={e => handleProviderChange(e.target.value)} className={selectClassName}>
+          {listImageModelProviders().map(provider => (
+            <option key={provider.id} value={provider.id}>{provider.label}</option>
+          ))}
+        </select>
+
+        {providerId === 'mock' && (
+          <div className="mt-4 flex flex-col gap-3 text-sm">
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-400">模拟情景</span>
+              <select value={mockOptions.scenario} onChange={e => updateMockOptions({ scenario: e.target.value as MockScenario })} className={selectClassName}>
+                {MOCK_SCENARIOS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-400">模拟延迟：{mockOptions.latencyMs} ms</span>
+              <input type="range" min={0} max={5000} step={100} value={mockOptions.latencyMs} onChange={e => updateMockOptions({ latencyMs: Number(e.target.value) })} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-gray-400">批量失败比例：{Math.round(mockOptions.failureRate * 100)}%</span>
+              <input type="range" min={0} max={1} step={0.05} value={mockOptions.failureRate} onChange={e => updateMockOptions({ failureRate: Number(e.target.value) })} />
+            </label>
+            {mockOptions.failureRate > 0 && (
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-400">失败时的情景</span>
+                <select value={mockOptions.failureScenario} onChange={e => updateMockOptions({ failureScenario: e.target.value as MockScenario })} className={selectClassName}>
+                  {MOCK_SCENARIOS.filter(({ value }) => value !== 'success').map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+              </label>
+            )}
+          </div>
+        )}
+
+        <h3 className="text-lg font-semibold mt-6 mb-2">请求调度</h3>
+        <p className="text-gray-400 text-sm mb-3">批量合成、批量调整和 Past Forward 共用这些限制。请求被限流（429）时可调低数值。</p>
+        <div className="flex flex-col gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-400">同时请求数：{schedulerOptions.concurrency}</span>
+            <input type="range" min={1} max={8} step={1} value={schedulerOptions.concurrency} onChange={e => updateSchedulerOptions({ concurrency: Number(e.target.value) })} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-400">每分钟最多请求数：{schedulerOptions.requestsPerMinute}</span>
+            <input type="range" min={1} max={60} step={1} value={schedulerOptions.requestsPerMinute} onChange={e => updateSchedulerOptions({ requestsPerMinute: Number(e.target.value) })} />
+          </label>
+        </div>
+
+        <h3 className="text-lg font-semibold mt-6 mb-2">内存</h3>
+        <p className="text-gray-400 text-sm mb-3">历史状态和批量结果的全尺寸图片超过预算时，最久未使用的会换出到磁盘（IndexedDB），需要时再读回，不会丢失。</p>
+        <div className="flex flex-col gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-gray-400">内存预算：{memoryOptions.budgetMB} MB</span>
+            <input type="range" min={64} max={2048} step={64} value={memoryOptions.budgetMB} onChange={e => updateMemoryOptions({ budgetMB: Number(e.target.value) })} />
+          </label>
+          <p className="text-xs text-gray-500">
+            当前内存中 {memoryUsage.residentCount}/{memoryUsage.totalCount} 张图片，共 {(memoryUsage.residentBytes / 1024 / 1024).toFixed(1)} MB
+          </p>
+        </div>
+
         <div className="mt-6 flex flex-col sm:flex-row gap-4">
           <button
             onClick={onClose}
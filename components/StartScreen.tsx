@@ -3,45 +3,84 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
-import { UploadIcon, PaintBrushIcon } from './icons';
+import React, { useRef, useState } from 'react';
+import { UploadIcon, PaintBrushIcon, FolderOpenIcon } from './icons';
 import { generateImageFromText } from '../services/geminiService';
 import Spinner from './Spinner';
+import { formatError } from '../services/modelErrors';
+import RecentProjects from './RecentProjects';
+import { PROJECT_ARCHIVE_EXTENSION } from '../lib/projectArchive';
 
 interface StartScreenProps {
   onFileSelect: (files: FileList | null) => void;
-  onImageGenerated: (dataUrl: string) => void;
+  onImageGenerated: (dataUrl: string, prompt: string) => void;
+  onResumeProject: (id: string) => Promise<void>;
+  onOpenProject: (file: File) => Promise<void>;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onImageGenerated }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onImageGenerated, onResumeProject, onOpenProject }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [generationPrompt, setGenerationPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationError, setGenerationError] = useState<string|null>(null);
   const [aspectRatio, setAspectRatio] = useState<'1:1' | '16:9' | '9:16' | '4:3' | '3:4'>('1:1');
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [isOpeningProject, setIsOpeningProject] = useState(false);
+  const [openProjectError, setOpenProjectError] = useState<string | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onFileSelect(e.target.files);
   };
 
+  const handleProjectFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsOpeningProject(true);
+    setOpenProjectError(null);
+    try {
+        await onOpenProject(file);
+    } catch (e) {
+        console.error(e);
+        setOpenProjectError(e instanceof Error ? e.message : '打开项目时发生未知错误。');
+    } finally {
+        setIsOpeningProject(false);
+    }
+  };
+
   const handleGenerate = async () => {
     if (!generationPrompt.trim()) {
         setGenerationError("请输入描述内容。");
         return;
     }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsGenerating(true);
     setGenerationError(null);
     try {
-        const dataUrl = await generateImageFromText(generationPrompt, aspectRatio);
-        onImageGenerated(dataUrl);
+        const dataUrl = await generateImageFromText(generationPrompt, aspectRatio, controller.signal);
+        // 取消后迟到的结果直接丢弃
+        if (!controller.signal.aborted) {
+            onImageGenerated(dataUrl, generationPrompt);
+        }
     } catch (e) {
+        if (controller.signal.aborted) return;
         console.error(e);
-        setGenerationError(e instanceof Error ? e.message : '生成图像时发生未知错误。');
+        setGenerationError(e instanceof Error ? formatError(e) : '生成图像时发生未知错误。');
     } finally {
-        setIsGenerating(false);
+        if (abortControllerRef.current === controller) {
+            abortControllerRef.current = null;
+            setIsGenerating(false);
+        }
     }
   };
 
+  const handleCancelGenerate = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsGenerating(false);
+  };
+
   const aspectRatios: { name: string; value: typeof aspectRatio }[] = [
     { name: '方形', value: '1:1' },
     { name: '横向', value: '16:9' },
@@ -119,6 +158,14 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onImageGenerate
                     </>
                 )}
             </button>
+            {isGenerating && (
+                <button
+                    onClick={handleCancelGenerate}
+                    className="text-sm text-gray-400 hover:text-white underline transition-colors"
+                >
+                    取消生成
+                </button>
+            )}
         </div>
 
         <div className="relative my-6">
@@ -137,8 +184,20 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onImageGenerate
             </label>
             <input id="image-upload-start" type="file" className="hidden" accept="image/*" onChange={handleFileChange} />
             <p className="text-sm text-gray-500">也可以直接拖放文件到此区域</p>
+            <label htmlFor="project-open-start" className={`inline-flex items-center gap-2 text-sm text-gray-400 underline hover:text-white transition-colors ${isOpeningProject ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                {isOpeningProject ? <Spinner className="w-4 h-4" /> : <FolderOpenIcon className="w-4 h-4" />}
+                打开项目文件（{PROJECT_ARCHIVE_EXTENSION}）
+            </label>
+            <input id="project-open-start" type="file" className="hidden" accept={`${PROJECT_ARCHIVE_EXTENSION},.zip`} onChange={handleProjectFileChange} />
+            {openProjectError && (
+                <div className="bg-red-500/20 border border-red-500 text-red-300 px-4 py-2 rounded-lg text-center text-sm" role="alert">
+                    {openProjectError}
+                </div>
+            )}
         </div>
       </div>
+
+      <RecentProjects onResume={onResumeProject} />
     </div>
   );
 };
@@ -7,12 +7,14 @@ import React, { useState } from 'react';
 import { generateCreativeSuggestions } from '../services/geminiService';
 import { SparkleIcon, ChevronDownIcon } from './icons';
 import Spinner from './Spinner';
+import AdvancedOptions from './AdvancedOptions';
+import type { PinnedParams } from '../types';
 
 interface TexturePanelProps {
-  onApplyTexture: (prompt: string) => void;
+  onApplyTexture: (prompt: string, pinned?: PinnedParams) => void;
   isLoading: boolean;
   currentImage: File;
-  onError: (message: string) => void;
+  onError: (error: unknown) => void;
 }
 
 type Preset = { name: string; prompt: string };
@@ -23,6 +25,7 @@ const TexturePanel: React.FC<TexturePanelProps> = ({ onApplyTexture, isLoading,
   const [aiPresets, setAiPresets] = useState<Preset[]>([]);
   const [isSuggesting, setIsSuggesting] = useState(false);
   const [isPresetsVisible, setIsPresetsVisible] = useState(true);
+  const [pinnedParams, setPinnedParams] = useState<PinnedParams>({});
 
   const presets: Preset[] = [
     { name: '裂纹漆', prompt: 'Apply a cracked and peeling paint texture over the image, revealing a darker layer underneath.' },
@@ -45,7 +48,7 @@ const TexturePanel: React.FC<TexturePanelProps> = ({ onApplyTexture, isLoading,
 
   const handleApply = () => {
     if (activePrompt) {
-      onApplyTexture(activePrompt);
+      onApplyTexture(activePrompt, pinnedParams);
     }
   };
 
@@ -58,7 +61,7 @@ const TexturePanel: React.FC<TexturePanelProps> = ({ onApplyTexture, isLoading,
         setIsPresetsVisible(true); // Show presets when new ones are loaded
     } catch (e) {
         console.error("Failed to get AI suggestions:", e);
-        onError(e instanceof Error ? e.message : '获取 AI 建议失败');
+        onError(e instanceof Error ? e : '获取 AI 建议失败');
     } finally {
         setIsSuggesting(false);
     }
@@ -154,6 +157,7 @@ const TexturePanel: React.FC<TexturePanelProps> = ({ onApplyTexture, isLoading,
       
       {activePrompt && (
         <div className="animate-fade-in flex flex-col gap-4">
+          <AdvancedOptions value={pinnedParams} onChange={setPinnedParams} disabled={isLoading} />
           <button
             onClick={handleApply}
             className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
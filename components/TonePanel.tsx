@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  DEFAULT_TONE_SETTINGS, MAX_GAMMA, MIN_GAMMA, TONE_CHANNELS, buildCurveTable, computeHistogram, isDefaultTone, mapHistogram,
+  type CurvePoint, type Histogram, type Levels, type ToneChannel, type ToneSettings,
+} from '../lib/toneCurves';
+
+interface TonePanelProps {
+  value: ToneSettings;
+  onChange: (value: ToneSettings) => void;
+  onApply: () => void;
+  // 要调整的图片（当前状态或选中的图层），用于统计直方图
+  image?: File;
+  // 作用范围的说明，例如选中的图层或涂抹区域
+  scopeLabel?: string;
+  isLoading: boolean;
+}
+
+const CHANNEL_COLORS: Record<ToneChannel, string> = {
+  rgb: '#e5e7eb',
+  red: '#f87171',
+  green: '#4ade80',
+  blue: '#60a5fa',
+};
+
+// 自动色阶两端各裁掉的像素比例
+const AUTO_LEVELS_CLIP = 0.005;
+
+// 伽马滑块按对数刻度：-100–100 对应 0.1–10
+const gammaToSlider = (gamma: number) => Math.round(Math.log10(gamma) * 100);
+const sliderToGamma = (value: number) => Math.min(MAX_GAMMA, Math.max(MIN_GAMMA, Number(Math.pow(10, value / 100).toFixed(2))));
+
+const HistogramChart: React.FC<{ histogram: Histogram | null }> = ({ histogram }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!histogram) return;
+    // 纯黑和纯白的尖峰不参与归一化，否则其余部分会被压扁
+    let max = 1;
+    (['red', 'green', 'blue'] as const).forEach(channel => {
+      for (let i = 1; i < 255; i++) max = Math.max(max, histogram[channel][i]);
+    });
+    ctx.globalCompositeOperation = 'lighter';
+    (['red', 'green', 'blue'] as const).forEach(channel => {
+      ctx.fillStyle = CHANNEL_COLORS[channel];
+      ctx.globalAlpha = 0.7;
+      ctx.beginPath();
+      ctx.moveTo(0, canvas.height);
+      histogram[channel].forEach((count, i) => ctx.lineTo(i, canvas.height - Math.min(1, count / max) * canvas.height));
+      ctx.lineTo(255, canvas.height);
+      ctx.closePath();
+      ctx.fill();
+    });
+  }, [histogram]);
+
+  return <canvas ref={canvasRef} width={256} height={100} className="w-full h-24 bg-gray-900 rounded" aria-label="直方图" />;
+};
+
+const TonePanel: React.FC<TonePanelProps> = ({ value, onChange, onApply, image, scopeLabel, isLoading }) => {
+  const [channel, setChannel] = useState<ToneChannel>('rgb');
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    setHistogram(null);
+    if (!image) return;
+    let cancelled = false;
+    computeHistogram(image).then(
+      result => { if (!cancelled) setHistogram(result); },
+      e => console.warn('Failed to compute histogram', e)
+    );
+    return () => { cancelled = true; };
+  }, [image]);
+
+  // 直方图跟着曲线和色阶实时变化
+  const outputHistogram = useMemo(() => histogram && mapHistogram(histogram, value), [histogram, value]);
+
+  const points = value.curves[channel];
+  const curvePath = useMemo(() => {
+    const table = buildCurveTable(points);
+    return Array.from(table, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${255 - y}`).join(' ');
+  }, [points]);
+
+  const setPoints = (next: CurvePoint[]) => onChange({ ...value, curves: { ...value.curves, [channel]: next } });
+  const setLevels = (next: Partial<Levels>) => onChange({ ...value, levels: { ...value.levels, ...next } });
+
+  const toCurvePoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.round(Math.min(255, Math.max(0, ((e.clientX - rect.left) / rect.width) * 255))),
+      y: Math.round(Math.min(255, Math.max(0, 255 - ((e.clientY - rect.top) / rect.height) * 255))),
+    };
+  };
+
+  // 点击空白处添加控制点并立即开始拖动
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (isLoading) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCurvePoint(e);
+    const nearest = points.findIndex(p => Math.abs(p.x - point.x) <= 6 && Math.abs(p.y - point.y) <= 12);
+    if (nearest !== -1) {
+      dragIndexRef.current = nearest;
+      return;
+    }
+    if (points.some(p => p.x === point.x)) return;
+    const next = [...points, point].sort((a, b) => a.x - b.x);
+    dragIndexRef.current = next.indexOf(point);
+    setPoints(next);
+  };
+
+  // 拖动时不能越过相邻的控制点，保证顺序不变
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragIndexRef.current;
+    if (index === null || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const point = toCurvePoint(e);
+    const minX = index > 0 ? points[index - 1].x + 1 : 0;
+    const maxX = index < points.length - 1 ? points[index + 1].x - 1 : 255;
+    setPoints(points.map((p, i) => i === index ? { x: Math.min(maxX, Math.max(minX, point.x)), y: point.y } : p));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    dragIndexRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const handleRemovePoint = (index: number) => {
+    if (points.length > 2) setPoints(points.filter((_, i) => i !== index));
+  };
+
+  const handleAutoLevels = () => {
+    if (!histogram) return;
+    const total = histogram.red.reduce((sum, count) => sum + count, 0);
+    const combined = Array.from({ length: 256 }, (_, i) => histogram.red[i] + histogram.green[i] + histogram.blue[i]);
+    const clip = total * 3 * AUTO_LEVELS_CLIP;
+    let black = 0;
+    for (let sum = 0; black < 254 && sum + combined[black] <= clip; black++) sum += combined[black];
+    let white = 255;
+    for (let sum = 0; white > black + 2 && sum + combined[white] <= clip; white--) sum += combined[white];
+    setLevels({ black, white });
+  };
+
+  const { levels } = value;
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-lg font-semibold text-gray-300">曲线与色阶</h3>
+        <span className="text-xs text-gray-500">在本地计算，实时预览，应用后作为一个历史步骤</span>
+        {scopeLabel && <span className="ml-auto text-xs text-blue-300">作用于：{scopeLabel}</span>}
+      </div>
+
+      <HistogramChart histogram={outputHistogram} />
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="flex flex-col gap-2 md:w-1/2">
+          <div className="flex rounded-lg overflow-hidden border border-gray-600 self-start" role="radiogroup" aria-label="曲线通道">
+            {TONE_CHANNELS.map(({ value: channelValue, label }) => (
+              <button
+                key={channelValue}
+                onClick={() => setChannel(channelValue)}
+                role="radio"
+                aria-checked={channel === channelValue}
+                className={`px-3 py-1 transition-colors ${channel === channelValue ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <svg
+            ref={svgRef}
+            viewBox="0 0 255 255"
+            className="w-full aspect-square bg-gray-900 rounded touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            aria-label="曲线：点击添加控制点，拖动调整，双击删除"
+          >
+            {[64, 128, 192].map(v => (
+              <g key={v} stroke="#374151" strokeWidth={1}>
+                <line x1={v} y1={0} x2={v} y2={255} />
+                <line x1={0} y1={v} x2={255} y2={v} />
+              </g>
+            ))}
+            <line x1={0} y1={255} x2={255} y2={0} stroke="#4b5563" strokeDasharray="4 4" />
+            <path d={curvePath} fill="none" stroke={CHANNEL_COLORS[channel]} strokeWidth={2} />
+            {points.map((point, index) => (
+              <circle
+                key={index}
+                cx={point.x}
+                cy={255 - point.y}
+                r={5}
+                fill="#111827"
+                stroke={CHANNEL_COLORS[channel]}
+                strokeWidth={2}
+                onDoubleClick={() => handleRemovePoint(index)}
+              />
+            ))}
+          </svg>
+          <p className="text-xs text-gray-500">点击添加控制点，拖动调整，双击删除。</p>
+        </div>
+
+        <div className="flex flex-col gap-3 md:w-1/2">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold text-gray-300">色阶</h4>
+            <button onClick={handleAutoLevels} disabled={isLoading || !histogram} className="text-xs text-blue-400 hover:text-blue-300 underline disabled:opacity-50">
+              自动
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-gray-300">
+            <span className="w-16 shrink-0">黑场</span>
+            <input
+              type="range"
+              min={0}
+              max={253}
+              value={levels.black}
+              onChange={e => setLevels({ black: Math.min(Number(e.target.value), levels.white - 2) })}
+              disabled={isLoading}
+              className="flex-grow"
+            />
+            <span className="w-10 text-right text-gray-400 tabular-nums">{levels.black}</span>
+          </label>
+          <label className="flex items-center gap-2 text-gray-300">
+            <span className="w-16 shrink-0">灰度</span>
+            <input
+              type="range"
+              min={-100}
+              max={100}
+              value={gammaToSlider(levels.gamma)}
+              onChange={e => setLevels({ gamma: sliderToGamma(Number(e.target.value)) })}
+              onDoubleClick={() => setLevels({ gamma: 1 })}
+              disabled={isLoading}
+              className="flex-grow"
+              title="双击恢复为 1.00"
+            />
+            <span className="w-10 text-right text-gray-400 tabular-nums">{levels.gamma.toFixed(2)}</span>
+          </label>
+          <label className="flex items-center gap-2 text-gray-300">
+            <span className="w-16 shrink-0">白场</span>
+            <input
+              type="range"
+              min={2}
+              max={255}
+              value={levels.white}
+              onChange={e => setLevels({ white: Math.max(Number(e.target.value), levels.black + 2) })}
+              disabled={isLoading}
+              className="flex-grow"
+            />
+            <span className="w-10 text-right text-gray-400 tabular-nums">{levels.white}</span>
+          </label>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => onChange(DEFAULT_TONE_SETTINGS)}
+          disabled={isLoading || isDefaultTone(value)}
+          className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-gray-200 transition-colors disabled:opacity-40"
+        >
+          重置
+        </button>
+        <button
+          onClick={onApply}
+          disabled={isLoading || isDefaultTone(value)}
+          className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-semibold transition-colors disabled:opacity-40"
+        >
+          应用曲线
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TonePanel;
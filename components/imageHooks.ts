@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useState } from 'react';
+import { getImage, getThumbnail, peekImage, retainImage } from '../lib/imageStore';
+
+// 按需从 imageStore 读取全尺寸图片；使用期间保持常驻内存，不会被换出
+export const useImageFile = (imageKey: string | undefined): File | undefined => {
+  const [file, setFile] = useState<File | undefined>(() => imageKey ? peekImage(imageKey) : undefined);
+
+  useEffect(() => {
+    if (!imageKey) {
+      setFile(undefined);
+      return;
+    }
+    const release = retainImage(imageKey);
+    let cancelled = false;
+    setFile(peekImage(imageKey));
+    getImage(imageKey).then(
+      loaded => { if (!cancelled) setFile(loaded); },
+      e => console.error('Failed to load image', e)
+    );
+    return () => {
+      cancelled = true;
+      release();
+    };
+  }, [imageKey]);
+
+  return file;
+};
+
+// 为图片文件创建 object URL，文件变化或卸载时释放
+export const useObjectUrl = (file: File | undefined): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url;
+};
+
+// imageStore 生成并缓存的小缩略图（data URL），不需要释放
+export const useThumbnail = (imageKey: string | undefined): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!imageKey) return;
+    let cancelled = false;
+    getThumbnail(imageKey).then(
+      thumbnail => { if (!cancelled) setUrl(thumbnail); },
+      e => console.error('Failed to load thumbnail', e)
+    );
+    return () => { cancelled = true; };
+  }, [imageKey]);
+
+  return url;
+};
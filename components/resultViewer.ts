@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getImage } from '../lib/imageStore';
+import type { BatchResult } from '../types';
+
+// 检查查看页是否已关闭的间隔
+const CLOSE_POLL_MS = 1000;
+
+/**
+ * 在新窗口中打开批量结果的放大查看页。页面显示全尺寸图片而不是网格中的预览图：
+ * 图片从 imageStore 读取并创建 blob URL，窗口关闭后释放；读取失败的图片退回预览图。
+ * 窗口先同步打开，读取图片之后再打开会被浏览器当作弹窗拦截。
+ */
+export const openResultViewer = async (results: BatchResult[], buildPage: (imageUrls: string[]) => string) => {
+  const viewer = window.open('', '_blank');
+  if (!viewer) return;
+
+  const created: string[] = [];
+  const imageUrls = await Promise.all(results.map(async result => {
+    const file = result.imageKey ? await getImage(result.imageKey).catch(() => null) : null;
+    if (!file) return result.imageUrl ?? '';
+    const url = URL.createObjectURL(file);
+    created.push(url);
+    return url;
+  }));
+
+  const pageUrl = URL.createObjectURL(new Blob([buildPage(imageUrls)], { type: 'text/html' }));
+  viewer.location.href = pageUrl;
+  setTimeout(() => URL.revokeObjectURL(pageUrl), 1000);
+  const timer = setInterval(() => {
+    if (!viewer.closed) return;
+    clearInterval(timer);
+    created.forEach(url => URL.revokeObjectURL(url));
+  }, CLOSE_POLL_MS);
+};
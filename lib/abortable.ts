@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 可取消的等待，和真实请求一样在取消时以 AbortError（或 abort() 传入的原因）拒绝。
+ */
+
+export const abortError = (signal?: AbortSignal) =>
+    signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        return reject(abortError(signal));
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError(signal));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
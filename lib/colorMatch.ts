@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 按参考图配色：Reinhard 式的统计迁移，在 Lab 空间里把图片每个通道的均值和标准差
+ * 换成参考图的，整体色调、明暗和饱和度随之接近参考图，画面内容不变。
+ * 只匹配亮度时 a、b 通道保持原样。全部在浏览器里计算，同一参考图对一批结果给出一致的配色。
+ */
+
+export interface ChannelStats {
+    mean: number;
+    std: number;
+}
+
+// Lab 三个通道的统计
+export interface ColorStats {
+    l: ChannelStats;
+    a: ChannelStats;
+    b: ChannelStats;
+}
+
+export interface ColorMatchOptions {
+    // 0–100
+    strength: number;
+    // 只匹配亮度（L），保留原来的颜色
+    luminanceOnly: boolean;
+}
+
+export const DEFAULT_COLOR_MATCH_OPTIONS: ColorMatchOptions = {
+    strength: 100,
+    luminanceOnly: false,
+};
+
+// 参考图在缩小的副本上统计，足够反映整体分布
+const STATS_SIZE = 512;
+// 标准差的下限和缩放倍数的上限：近乎单色的通道不会被放大成噪点
+const MIN_STD = 1e-3;
+const MAX_SCALE = 4;
+
+// D65 白点
+const WHITE_X = 0.95047;
+const WHITE_Z = 1.08883;
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, i) => {
+    const v = i / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+});
+const linearToSrgb = (v: number) => v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+const labF = (t: number) => t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116;
+const labFInverse = (t: number) => {
+    const cube = t * t * t;
+    return cube > EPSILON ? cube : (116 * t - 16) / KAPPA;
+};
+
+// 把 8 位 sRGB 像素换成 Lab，写入 out
+const rgbToLab = (r: number, g: number, b: number, out: Float32Array) => {
+    const lr = SRGB_TO_LINEAR[r];
+    const lg = SRGB_TO_LINEAR[g];
+    const lb = SRGB_TO_LINEAR[b];
+    const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE_X);
+    const fy = labF(0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb);
+    const fz = labF((0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / WHITE_Z);
+    out[0] = 116 * fy - 16;
+    out[1] = 500 * (fx - fy);
+    out[2] = 200 * (fy - fz);
+};
+
+// Lab 换回 0–255 的 sRGB（未取整），写入 out
+const labToRgb = (l: number, a: number, b: number, out: Float32Array) => {
+    const fy = (l + 16) / 116;
+    const x = labFInverse(fy + a / 500) * WHITE_X;
+    const y = labFInverse(fy);
+    const z = labFInverse(fy - b / 200) * WHITE_Z;
+    const lr = 3.2404542 * x - 1.5371385 * y - 0.4985314 * z;
+    const lg = -0.9692660 * x + 1.8760108 * y + 0.0415560 * z;
+    const lb = 0.0556434 * x - 0.2040259 * y + 1.0572252 * z;
+    out[0] = Math.min(1, Math.max(0, linearToSrgb(Math.max(0, lr)))) * 255;
+    out[1] = Math.min(1, Math.max(0, linearToSrgb(Math.max(0, lg)))) * 255;
+    out[2] = Math.min(1, Math.max(0, linearToSrgb(Math.max(0, lb)))) * 255;
+};
+
+/**
+ * 统计像素的 Lab 均值和标准差；完全透明的像素不计入。
+ */
+export const measureColorStats = (image: ImageData): ColorStats => {
+    const data = image.data;
+    const lab = new Float32Array(3);
+    const sum = [0, 0, 0];
+    const sumSquares = [0, 0, 0];
+    let count = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue;
+        rgbToLab(data[i], data[i + 1], data[i + 2], lab);
+        for (let c = 0; c < 3; c++) {
+            sum[c] += lab[c];
+            sumSquares[c] += lab[c] * lab[c];
+        }
+        count++;
+    }
+    const [l, a, b] = sum.map((total, c) => {
+        const mean = count ? total / count : 0;
+        return { mean, std: count ? Math.sqrt(Math.max(0, sumSquares[c] / count - mean * mean)) : 0 };
+    });
+    return { l, a, b };
+};
+
+export const computeColorStats = async (image: Blob): Promise<ColorStats> => {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, STATS_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('无法创建画布来统计参考图的颜色。');
+    }
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return measureColorStats(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+// 一个通道的线性变换：先减去原均值，按标准差之比缩放，再加上参考均值
+const channelTransfer = (source: ChannelStats, reference: ChannelStats) => {
+    const scale = Math.min(MAX_SCALE, reference.std / Math.max(MIN_STD, source.std));
+    return { scale, offset: reference.mean - source.mean * scale };
+};
+
+/**
+ * 就地把像素的颜色分布匹配到参考图；图片自身的统计直接从这些像素计算。
+ */
+export const applyColorMatchToImageData = (image: ImageData, reference: ColorStats, options: ColorMatchOptions) => {
+    const amount = Math.min(1, Math.max(0, options.strength / 100));
+    if (amount === 0) return;
+    const source = measureColorStats(image);
+    const l = channelTransfer(source.l, reference.l);
+    const a = options.luminanceOnly ? { scale: 1, offset: 0 } : channelTransfer(source.a, reference.a);
+    const b = options.luminanceOnly ? { scale: 1, offset: 0 } : channelTransfer(source.b, reference.b);
+
+    const data = image.data;
+    const lab = new Float32Array(3);
+    const rgb = new Float32Array(3);
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue;
+        rgbToLab(data[i], data[i + 1], data[i + 2], lab);
+        labToRgb(
+            Math.min(100, Math.max(0, lab[0] * l.scale + l.offset)),
+            lab[1] * a.scale + a.offset,
+            lab[2] * b.scale + b.offset,
+            rgb
+        );
+        for (let c = 0; c < 3; c++) {
+            data[i + c] = Math.round(data[i + c] + (rgb[c] - data[i + c]) * amount);
+        }
+    }
+};
+
+/**
+ * 按原始分辨率匹配颜色，返回 PNG。
+ */
+export const matchColors = async (image: Blob, reference: ColorStats, options: ColorMatchOptions): Promise<File> => {
+    const bitmap = await createImageBitmap(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('无法创建画布来匹配颜色。');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyColorMatchToImageData(pixels, reference, options);
+    ctx.putImageData(pixels, 0, 0);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob
+            ? resolve(new File([blob], `color-match-${Date.now()}.png`, { type: 'image/png' }))
+            : reject(new Error('无法导出匹配颜色后的图片。')), 'image/png');
+    });
+};
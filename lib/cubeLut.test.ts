@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { applyLutToImageData, parseCubeLut } from './cubeLut';
+
+// 2×2×2 的格点，红色变化最快、蓝色变化最慢；color 把格点坐标换成输出颜色
+const cubeRows = (color: (r: number, g: number, b: number) => number[]) => {
+    const rows: string[] = [];
+    for (let b = 0; b < 2; b++) {
+        for (let g = 0; g < 2; g++) {
+            for (let r = 0; r < 2; r++) {
+                rows.push(color(r, g, b).join(' '));
+            }
+        }
+    }
+    return rows;
+};
+
+const IDENTITY_ROWS = cubeRows((r, g, b) => [r, g, b]);
+const INVERT_ROWS = cubeRows((r, g, b) => [1 - r, 1 - g, 1 - b]);
+
+const cube = (...lines: string[]) => lines.join('\n');
+
+const pixels = (...rgb: number[][]) => ({
+    data: new Uint8ClampedArray(rgb.flatMap(color => [...color, 255])),
+    width: rgb.length,
+    height: 1,
+}) as ImageData;
+
+describe('parseCubeLut', () => {
+    it('reads the header and the table in red-fastest order', () => {
+        const lut = parseCubeLut(cube(
+            '# Created by some grading tool',
+            'TITLE "Warm Film"',
+            'LUT_3D_SIZE 2',
+            'DOMAIN_MIN 0 0 0',
+            'DOMAIN_MAX 1 1 1',
+            '',
+            ...IDENTITY_ROWS,
+        ), 'warm-film');
+        expect(lut.title).toBe('Warm Film');
+        expect(lut.size).toBe(2);
+        expect(lut.domainMin).toEqual([0, 0, 0]);
+        expect(lut.domainMax).toEqual([1, 1, 1]);
+        expect(Array.from(lut.table.subarray(0, 6))).toEqual([0, 0, 0, 1, 0, 0]);
+        expect(Array.from(lut.table.subarray(21))).toEqual([1, 1, 1]);
+    });
+
+    it('accepts Windows line endings, comments between rows and unknown keywords', () => {
+        const lut = parseCubeLut([
+            'LUT_3D_SIZE 2',
+            'LUT_3D_INPUT_RANGE 0 1',
+            ...IDENTITY_ROWS.slice(0, 4),
+            '# second half',
+            ...IDENTITY_ROWS.slice(4),
+        ].join('\r\n'), 'identity');
+        expect(lut.table).toHaveLength(24);
+    });
+
+    it('falls back to the given title and the default domain', () => {
+        const lut = parseCubeLut(cube('LUT_3D_SIZE 2', ...IDENTITY_ROWS), 'my-look');
+        expect(lut.title).toBe('my-look');
+        expect(lut.domainMin).toEqual([0, 0, 0]);
+        expect(lut.domainMax).toEqual([1, 1, 1]);
+    });
+
+    it('rejects files without a 3D size', () => {
+        expect(() => parseCubeLut(cube('TITLE "Empty"'), 'empty')).toThrow('缺少 LUT_3D_SIZE');
+        expect(() => parseCubeLut(cube(...IDENTITY_ROWS), 'rows only')).toThrow('缺少 LUT_3D_SIZE');
+    });
+
+    it('rejects 1D LUTs and unsupported sizes', () => {
+        expect(() => parseCubeLut(cube('LUT_1D_SIZE 1024'), '1d')).toThrow('1D LUT');
+        expect(() => parseCubeLut(cube('LUT_3D_SIZE 1', '0 0 0'), 'tiny')).toThrow('不支持的 LUT_3D_SIZE：1');
+        expect(() => parseCubeLut(cube('LUT_3D_SIZE 2.5'), 'fraction')).toThrow('不支持的 LUT_3D_SIZE');
+    });
+
+    it('rejects tables with the wrong number of rows', () => {
+        expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', ...IDENTITY_ROWS.slice(1)), 'short'))
+            .toThrow('应有 8 行数据，实际为 7 行');
+        expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', ...IDENTITY_ROWS, '1 1 1'), 'long'))
+            .toThrow('数据行多于');
+    });
+
+    it('reports the line of invalid values', () => {
+        const rows = [...IDENTITY_ROWS];
+        rows[2] = '0 1';
+        expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', ...rows), 'broken')).toThrow('第 4 行');
+        rows[2] = '0 1 nan';
+        expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', ...rows), 'broken')).toThrow('第 4 行');
+    });
+
+    it('requires DOMAIN_MIN to be below DOMAIN_MAX', () => {
+        expect(() => parseCubeLut(cube('LUT_3D_SIZE 2', 'DOMAIN_MIN 0 0 1', 'DOMAIN_MAX 1 1 1', ...IDENTITY_ROWS), 'domain'))
+            .toThrow('DOMAIN_MIN 必须小于 DOMAIN_MAX');
+    });
+});
+
+describe('applyLutToImageData', () => {
+    const identity = parseCubeLut(cube('LUT_3D_SIZE 2', ...IDENTITY_ROWS), 'identity');
+    const invert = parseCubeLut(cube('LUT_3D_SIZE 2', ...INVERT_ROWS), 'invert');
+
+    it('leaves colours unchanged with an identity LUT', () => {
+        const image = pixels([0, 0, 0], [12, 130, 250], [255, 255, 255]);
+        applyLutToImageData(image, identity, 100);
+        expect(Array.from(image.data)).toEqual([0, 0, 0, 255, 12, 130, 250, 255, 255, 255, 255, 255]);
+    });
+
+    it('interpolates between grid points and keeps alpha', () => {
+        const image = pixels([0, 100, 255]);
+        image.data[3] = 80;
+        applyLutToImageData(image, invert, 100);
+        expect(Array.from(image.data)).toEqual([255, 155, 0, 80]);
+    });
+
+    it('blends with the original colour by strength', () => {
+        const quarter = pixels([55, 55, 55]);
+        applyLutToImageData(quarter, invert, 25);
+        expect(Array.from(quarter.data)).toEqual([91, 91, 91, 255]);
+
+        const none = pixels([55, 55, 55]);
+        applyLutToImageData(none, invert, 0);
+        expect(Array.from(none.data)).toEqual([55, 55, 55, 255]);
+    });
+});
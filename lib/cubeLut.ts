@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 3D LUT（.cube 文件）调色：在浏览器里按查找表逐像素换算颜色，不调用模型。
+ * 同一个 LUT 和强度对任何图片都给出确定的结果，适合给一批图片统一调色。
+ *
+ * 支持 Adobe/Resolve 的 .cube 格式：TITLE、LUT_3D_SIZE、DOMAIN_MIN/DOMAIN_MAX，
+ * 数据按红色变化最快、蓝色变化最慢的顺序排列。查表使用三线性插值。
+ */
+
+export interface CubeLut {
+    title: string;
+    // 每个维度的格点数
+    size: number;
+    domainMin: [number, number, number];
+    domainMax: [number, number, number];
+    // size³ 个 RGB 值（0–1），按 r + g·size + b·size² 排列
+    table: Float32Array;
+}
+
+// 强度范围 0–100
+export const DEFAULT_LUT_STRENGTH = 100;
+
+const MIN_LUT_SIZE = 2;
+const MAX_LUT_SIZE = 256;
+
+const parseTriple = (parts: string[], line: number): [number, number, number] => {
+    const values = parts.slice(0, 3).map(Number);
+    if (values.length < 3 || values.some(value => !Number.isFinite(value))) {
+        throw new Error(`LUT 文件第 ${line} 行的数值无效。`);
+    }
+    return values as [number, number, number];
+};
+
+/**
+ * 解析 .cube 文件的文本；没有 TITLE 时使用 fallbackTitle（通常是文件名）。
+ */
+export const parseCubeLut = (text: string, fallbackTitle: string): CubeLut => {
+    let title = '';
+    let size = 0;
+    let domainMin: [number, number, number] = [0, 0, 0];
+    let domainMax: [number, number, number] = [1, 1, 1];
+    let table: Float32Array | null = null;
+    let count = 0;
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.trim();
+        if (!line || line.startsWith('#')) return;
+        const lineNumber = index + 1;
+        if (/^[-+.\d]/.test(line)) {
+            if (!table) throw new Error('LUT 文件缺少 LUT_3D_SIZE。');
+            if (count >= size * size * size) throw new Error('LUT 文件的数据行多于 LUT_3D_SIZE 指定的数量。');
+            table.set(parseTriple(line.split(/\s+/), lineNumber), count * 3);
+            count++;
+            return;
+        }
+        const [keyword, ...rest] = line.split(/\s+/);
+        switch (keyword.toUpperCase()) {
+            case 'TITLE':
+                title = line.slice(keyword.length).trim().replace(/^"(.*)"$/, '$1');
+                break;
+            case 'LUT_3D_SIZE':
+                size = Number(rest[0]);
+                if (!Number.isInteger(size) || size < MIN_LUT_SIZE || size > MAX_LUT_SIZE) {
+                    throw new Error(`不支持的 LUT_3D_SIZE：${rest[0]}。`);
+                }
+                table = new Float32Array(size * size * size * 3);
+                break;
+            case 'DOMAIN_MIN':
+                domainMin = parseTriple(rest, lineNumber);
+                break;
+            case 'DOMAIN_MAX':
+                domainMax = parseTriple(rest, lineNumber);
+                break;
+            case 'LUT_1D_SIZE':
+                throw new Error('只支持 3D LUT，这是一个 1D LUT 文件。');
+            default:
+                // 其他软件写入的关键字（如 LUT_3D_INPUT_RANGE）不影响结果，忽略
+                break;
+        }
+    });
+
+    if (!table) throw new Error('LUT 文件缺少 LUT_3D_SIZE。');
+    if (count !== size * size * size) {
+        throw new Error(`LUT 文件应有 ${size * size * size} 行数据，实际为 ${count} 行。`);
+    }
+    if (domainMin.some((min, i) => min >= domainMax[i])) {
+        throw new Error('LUT 文件的 DOMAIN_MIN 必须小于 DOMAIN_MAX。');
+    }
+    return { title: title || fallbackTitle, size, domainMin, domainMax, table };
+};
+
+export const readCubeLutFile = async (file: File): Promise<CubeLut> =>
+    parseCubeLut(await file.text(), file.name.replace(/\.cube$/i, ''));
+
+// 某个通道 0–255 的输入在格点上的位置：下方格点的索引和到它的距离
+const buildGridTable = (lut: CubeLut, channel: number) => {
+    const lower = new Uint16Array(256);
+    const fraction = new Float32Array(256);
+    const min = lut.domainMin[channel];
+    const range = lut.domainMax[channel] - min;
+    for (let i = 0; i < 256; i++) {
+        const position = Math.min(1, Math.max(0, (i / 255 - min) / range)) * (lut.size - 1);
+        lower[i] = Math.min(lut.size - 2, Math.floor(position));
+        fraction[i] = position - lower[i];
+    }
+    return { lower, fraction };
+};
+
+/**
+ * 就地应用 LUT；strength 为 0–100，按强度在原色和查表结果之间混合。
+ */
+export const applyLutToImageData = (image: ImageData, lut: CubeLut, strength: number) => {
+    const amount = Math.min(1, Math.max(0, strength / 100));
+    if (amount === 0) return;
+    const { size, table } = lut;
+    const red = buildGridTable(lut, 0);
+    const green = buildGridTable(lut, 1);
+    const blue = buildGridTable(lut, 2);
+    // 相邻格点在表中的偏移
+    const dr = 3;
+    const dg = size * 3;
+    const db = size * size * 3;
+
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const r0 = red.lower[data[i]];
+        const g0 = green.lower[data[i + 1]];
+        const b0 = blue.lower[data[i + 2]];
+        const fr = red.fraction[data[i]];
+        const fg = green.fraction[data[i + 1]];
+        const fb = blue.fraction[data[i + 2]];
+        const base = r0 * dr + g0 * dg + b0 * db;
+        for (let c = 0; c < 3; c++) {
+            const p = base + c;
+            const c00 = table[p] + (table[p + dr] - table[p]) * fr;
+            const c10 = table[p + dg] + (table[p + dg + dr] - table[p + dg]) * fr;
+            const c01 = table[p + db] + (table[p + db + dr] - table[p + db]) * fr;
+            const c11 = table[p + db + dg] + (table[p + db + dg + dr] - table[p + db + dg]) * fr;
+            const c0 = c00 + (c10 - c00) * fg;
+            const c1 = c01 + (c11 - c01) * fg;
+            const value = Math.min(1, Math.max(0, c0 + (c1 - c0) * fb)) * 255;
+            data[i + c] = Math.round(data[i + c] + (value - data[i + c]) * amount);
+        }
+    }
+};
+
+/**
+ * 按原始分辨率应用 LUT，返回 PNG。
+ */
+export const applyLut = async (image: Blob, lut: CubeLut, strength: number): Promise<File> => {
+    const bitmap = await createImageBitmap(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('无法创建画布来应用 LUT。');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyLutToImageData(pixels, lut, strength);
+    ctx.putImageData(pixels, 0, 0);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob
+            ? resolve(new File([blob], `lut-${Date.now()}.png`, { type: 'image/png' }))
+            : reject(new Error('无法导出应用 LUT 后的图片。')), 'image/png');
+    });
+};
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 应用共用的 IndexedDB 数据库。
+ * - projects / states / images：已保存的项目（见 projectStore）
+ * - imageCache：编辑过程中从内存中换出的图片（见 imageStore）
+ * - luts：导入并保存为预设的 3D LUT（见 lutStore）
+ */
+
+const DB_NAME = 'aice-ps';
+const DB_VERSION = 3;
+
+export const PROJECTS_STORE = 'projects';
+export const STATES_STORE = 'states';
+export const IMAGES_STORE = 'images';
+export const IMAGE_CACHE_STORE = 'imageCache';
+export const LUTS_STORE = 'luts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = event => {
+            const db = request.result;
+            if (event.oldVersion < 1) {
+                db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                db.createObjectStore(STATES_STORE, { keyPath: 'id' });
+                db.createObjectStore(IMAGES_STORE);
+            }
+            if (event.oldVersion < 2) {
+                db.createObjectStore(IMAGE_CACHE_STORE);
+            }
+            if (event.oldVersion < 3) {
+                db.createObjectStore(LUTS_STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+export const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+});
+
+// 以 `${prefix}/` 开头的所有键
+export const prefixKeyRange = (prefix: string) => IDBKeyRange.bound(`${prefix}/`, `${prefix}/\uffff`);
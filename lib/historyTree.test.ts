@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import {
+    addHistoryNode,
+    canRedoHistory,
+    canUndoHistory,
+    createHistoryTree,
+    duplicateHistoryNode,
+    getActiveBranch,
+    getCurrentNode,
+    getHistoryImageKeys,
+    getSiblings,
+    redoHistory,
+    removeHistoryNode,
+    selectHistoryNode,
+    undoHistory,
+    type HistoryTree,
+} from './historyTree';
+
+type Operation = { type: string; layerKeys?: string[] };
+
+// 原图 → a → b，再从 a 分出 c：root - a - b
+//                                      \- c（当前）
+const buildBranchedTree = () => {
+    let tree = createHistoryTree<Operation>('root');
+    tree = addHistoryNode(tree, 'a', { type: 'retouch' });
+    const a = tree.currentId;
+    tree = addHistoryNode(tree, 'b', { type: 'filter' });
+    const b = tree.currentId;
+    tree = addHistoryNode(undoHistory(tree), 'c', { type: 'adjust' });
+    const c = tree.currentId;
+    return { tree, a, b, c };
+};
+
+const activeImages = (tree: HistoryTree<Operation>) => getActiveBranch(tree).map(node => node.imageKey);
+
+describe('historyTree', () => {
+    it('starts with the original image as a root that cannot be undone', () => {
+        const tree = createHistoryTree<Operation>('root');
+        expect(getCurrentNode(tree).imageKey).toBe('root');
+        expect(getCurrentNode(tree).operation).toBeNull();
+        expect(canUndoHistory(tree)).toBe(false);
+        expect(canRedoHistory(tree)).toBe(false);
+        expect(undoHistory(tree)).toBe(tree);
+    });
+
+    it('keeps the old branch when editing after an undo', () => {
+        const { tree, a, b, c } = buildBranchedTree();
+        expect(tree.nodes[a].childIds).toEqual([b, c]);
+        expect(tree.nodes[a].activeChildId).toBe(c);
+        expect(getSiblings(tree).map(node => node.imageKey)).toEqual(['b', 'c']);
+        expect(activeImages(tree)).toEqual(['root', 'a', 'c']);
+    });
+
+    it('does not change the tree it was given', () => {
+        const { tree, a } = buildBranchedTree();
+        const before = JSON.stringify(tree);
+        addHistoryNode(tree, 'd', { type: 'texture' }, undefined, a);
+        removeHistoryNode(tree, a);
+        selectHistoryNode(tree, tree.rootId);
+        expect(JSON.stringify(tree)).toBe(before);
+    });
+
+    it('undoes and redoes along the active branch', () => {
+        const { tree, a, c } = buildBranchedTree();
+        const undone = undoHistory(undoHistory(tree));
+        expect(undone.currentId).toBe(tree.rootId);
+        expect(canRedoHistory(undone)).toBe(true);
+        const redone = redoHistory(redoHistory(undone));
+        expect(redone.currentId).toBe(c);
+        expect(getCurrentNode(redoHistory(undone)).id).toBe(a);
+        expect(redoHistory(redone)).toBe(redone);
+    });
+
+    it('makes the path to a selected node the active branch', () => {
+        const { tree, b } = buildBranchedTree();
+        const selected = selectHistoryNode(tree, b);
+        expect(selected.currentId).toBe(b);
+        expect(activeImages(selected)).toEqual(['root', 'a', 'b']);
+        const redone = redoHistory(undoHistory(undoHistory(selected)));
+        expect(redoHistory(redone).currentId).toBe(b);
+    });
+
+    it('reattaches the children of a removed node to its parent in its place', () => {
+        const { tree, a, b, c } = buildBranchedTree();
+        const removed = removeHistoryNode(tree, a);
+        expect(removed.nodes[a]).toBeUndefined();
+        expect(removed.nodes[removed.rootId].childIds).toEqual([b, c]);
+        expect(removed.nodes[removed.rootId].activeChildId).toBe(c);
+        expect(removed.nodes[b].parentId).toBe(removed.rootId);
+        expect(removed.currentId).toBe(c);
+        expect(activeImages(removed)).toEqual(['root', 'c']);
+    });
+
+    it('moves to the parent when the current node is removed', () => {
+        const { tree, a, b, c } = buildBranchedTree();
+        const removed = removeHistoryNode(tree, c);
+        expect(removed.currentId).toBe(a);
+        expect(removed.nodes[a].childIds).toEqual([b]);
+        expect(removed.nodes[a].activeChildId).toBe(b);
+    });
+
+    it('never removes the root', () => {
+        const { tree } = buildBranchedTree();
+        expect(removeHistoryNode(tree, tree.rootId)).toBe(tree);
+        expect(removeHistoryNode(tree, 'missing')).toBe(tree);
+    });
+
+    it('duplicates a node as a new sibling branch and switches to it', () => {
+        const { tree, a, b, c } = buildBranchedTree();
+        const duplicated = duplicateHistoryNode(tree, b);
+        const copy = getCurrentNode(duplicated);
+        expect(copy.id).not.toBe(b);
+        expect(copy.imageKey).toBe('b');
+        expect(copy.operation).toEqual({ type: 'filter' });
+        expect(duplicated.nodes[a].childIds).toEqual([b, c, copy.id]);
+        expect(duplicateHistoryNode(tree, tree.rootId)).toBe(tree);
+    });
+
+    it('lists node images together with the images operations refer to', () => {
+        let tree = createHistoryTree<Operation>('root');
+        tree = addHistoryNode(tree, 'merged', { type: 'layers', layerKeys: ['layer-1', 'layer-2'] });
+        expect(getHistoryImageKeys(tree)).toEqual(['root', 'merged']);
+        expect(getHistoryImageKeys(tree, {
+            keys: operation => operation.layerKeys ?? [],
+            replaceKeys: operation => operation,
+        })).toEqual(['root', 'merged', 'layer-1', 'layer-2']);
+    });
+});
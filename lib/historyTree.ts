@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerationParams } from '../types';
+
+/**
+ * 编辑历史树。每个节点保存一张图片（imageStore 中的键）以及产生它的操作和参数；
+ * 在旧状态上做新的编辑会长出新的分支，而不是丢掉重做记录。
+ * 所有函数都返回新的树对象，便于直接放进 React state。
+ */
+
+export interface HistoryNode<T> {
+    id: string;
+    parentId: string | null;
+    childIds: string[];
+    // 重做（Ctrl+Y）时进入的子节点，即当前分支上的下一步
+    activeChildId: string | null;
+    imageKey: string;
+    // 产生这张图片的操作；根节点（上传或文生图）为 null
+    operation: T | null;
+    params?: GenerationParams;
+    createdAt: number;
+}
+
+export interface HistoryTree<T> {
+    nodes: Record<string, HistoryNode<T>>;
+    rootId: string;
+    currentId: string;
+}
+
+let nodeCounter = 0;
+const createNodeId = () => `${Date.now().toString(36)}-${(nodeCounter++).toString(36)}`;
+
+const createNode = <T>(imageKey: string, operation: T | null, parentId: string | null, params?: GenerationParams): HistoryNode<T> => ({
+    id: createNodeId(),
+    parentId,
+    childIds: [],
+    activeChildId: null,
+    imageKey,
+    operation,
+    params,
+    createdAt: Date.now(),
+});
+
+export const createHistoryTree = <T>(imageKey: string): HistoryTree<T> => {
+    const root = createNode<T>(imageKey, null, null);
+    return { nodes: { [root.id]: root }, rootId: root.id, currentId: root.id };
+};
+
+export const getCurrentNode = <T>(tree: HistoryTree<T>): HistoryNode<T> => tree.nodes[tree.currentId];
+
+export const getRootNode = <T>(tree: HistoryTree<T>): HistoryNode<T> => tree.nodes[tree.rootId];
+
+/**
+ * 切换到任意节点，并把从根到该节点的路径设为活动分支，
+ * 这样撤销/重做会沿着用户最后选择的分支移动。
+ */
+export const selectHistoryNode = <T>(tree: HistoryTree<T>, id: string): HistoryTree<T> => {
+    if (!tree.nodes[id] || id === tree.currentId) {
+        return tree;
+    }
+    const nodes = { ...tree.nodes };
+    let child = nodes[id];
+    while (child.parentId) {
+        const parent = nodes[child.parentId];
+        if (parent.activeChildId !== child.id) {
+            nodes[parent.id] = { ...parent, activeChildId: child.id };
+        }
+        child = nodes[child.parentId];
+    }
+    return { ...tree, nodes, currentId: id };
+};
+
+// 在 parentId（默认当前节点）下添加新节点并切换过去；已有的子节点保留为其他分支
+export const addHistoryNode = <T>(
+    tree: HistoryTree<T>,
+    imageKey: string,
+    operation: T | null,
+    params?: GenerationParams,
+    parentId: string = tree.currentId
+): HistoryTree<T> => {
+    const parent = tree.nodes[parentId];
+    const node = createNode(imageKey, operation, parentId, params);
+    const nodes = {
+        ...tree.nodes,
+        [node.id]: node,
+        [parentId]: { ...parent, childIds: [...parent.childIds, node.id] },
+    };
+    return selectHistoryNode({ ...tree, nodes }, node.id);
+};
+
+/**
+ * 操作本身引用的其他图片（例如图层），同样是 imageStore 中的键。
+ * 清理、保存和打包项目时与节点图片一并处理。
+ */
+export interface OperationImages<T> {
+    keys: (operation: T) => string[];
+    replaceKeys: (operation: T, replace: (imageKey: string) => string) => T;
+}
+
+// 树中所有节点引用的图片键，包括操作引用的图片
+export const getHistoryImageKeys = <T>(tree: HistoryTree<T>, operationImages?: OperationImages<T>): string[] =>
+    Object.values(tree.nodes).flatMap(node => [
+        node.imageKey,
+        ...(node.operation && operationImages ? operationImages.keys(node.operation) : []),
+    ]);
+
+// 所有节点（包括非活动分支），按创建时间排序
+export const getHistoryNodes = <T>(tree: HistoryTree<T>): HistoryNode<T>[] =>
+    Object.values(tree.nodes).sort((a, b) => a.createdAt - b.createdAt);
+
+export const canUndoHistory = <T>(tree: HistoryTree<T>) => getCurrentNode(tree).parentId !== null;
+
+export const canRedoHistory = <T>(tree: HistoryTree<T>) => getCurrentNode(tree).activeChildId !== null;
+
+export const undoHistory = <T>(tree: HistoryTree<T>): HistoryTree<T> => {
+    const { parentId } = getCurrentNode(tree);
+    return parentId ? { ...tree, currentId: parentId } : tree;
+};
+
+export const redoHistory = <T>(tree: HistoryTree<T>): HistoryTree<T> => {
+    const { activeChildId } = getCurrentNode(tree);
+    return activeChildId ? { ...tree, currentId: activeChildId } : tree;
+};
+
+// 同一父节点下的所有节点（包括自身），按创建顺序排列
+export const getSiblings = <T>(tree: HistoryTree<T>, id: string = tree.currentId): HistoryNode<T>[] => {
+    const node = tree.nodes[id];
+    if (!node.parentId) {
+        return [node];
+    }
+    return tree.nodes[node.parentId].childIds.map(childId => tree.nodes[childId]);
+};
+
+// 活动分支：从根节点到当前节点，再沿 activeChildId 一直走到叶子
+export const getActiveBranch = <T>(tree: HistoryTree<T>): HistoryNode<T>[] => {
+    const path: HistoryNode<T>[] = [];
+    for (let node: HistoryNode<T> | undefined = getCurrentNode(tree); node; node = node.parentId ? tree.nodes[node.parentId] : undefined) {
+        path.unshift(node);
+    }
+    for (let id = getCurrentNode(tree).activeChildId; id; id = tree.nodes[id].activeChildId) {
+        path.push(tree.nodes[id]);
+    }
+    return path;
+};
+
+/**
+ * 删除单个节点：它的子节点接到父节点上、占据它原来的位置，之后的编辑不会丢失。
+ * 根节点（原图）不能删除；删除当前节点时回到父节点。
+ */
+export const removeHistoryNode = <T>(tree: HistoryTree<T>, id: string): HistoryTree<T> => {
+    const node = tree.nodes[id];
+    if (!node?.parentId) {
+        return tree;
+    }
+    const parent = tree.nodes[node.parentId];
+    const nodes = { ...tree.nodes };
+    delete nodes[id];
+    node.childIds.forEach(childId => {
+        nodes[childId] = { ...nodes[childId], parentId: parent.id };
+    });
+    const childIds = parent.childIds.flatMap(childId => childId === id ? node.childIds : [childId]);
+    nodes[parent.id] = {
+        ...parent,
+        childIds,
+        activeChildId: parent.activeChildId === id ? node.activeChildId ?? childIds[0] ?? null : parent.activeChildId,
+    };
+    return { ...tree, nodes, currentId: tree.currentId === id ? parent.id : tree.currentId };
+};
+
+// 复制节点为同一父节点下的新分支并切换过去，便于从同一状态出发尝试别的方向
+export const duplicateHistoryNode = <T>(tree: HistoryTree<T>, id: string): HistoryTree<T> => {
+    const node = tree.nodes[id];
+    if (!node?.parentId) {
+        return tree;
+    }
+    return addHistoryNode(tree, node.imageKey, node.operation, node.params, node.parentId);
+};
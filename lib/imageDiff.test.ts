@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it, vi } from 'vitest';
+import { rasterizeRegion, scaleRegion } from './imageDiff';
+import { rasterizeMask } from './maskUtils';
+
+// 这里只测试范围换算，不需要 IndexedDB 中的图片；蒙版的解码需要浏览器画布，由 maskUtils 负责
+vi.mock('./imageStore', () => ({ getImage: vi.fn() }));
+vi.mock('./maskUtils', () => ({ rasterizeMask: vi.fn(async (_mask: string, width: number, height: number) => new Uint8Array(width * height).fill(1)) }));
+
+// 把 0/1 像素画成字符网格，便于直接比较形状
+const draw = (pixels: Uint8Array, width: number) =>
+    Array.from({ length: pixels.length / width }, (_, y) =>
+        Array.from(pixels.subarray(y * width, (y + 1) * width), inside => inside ? '#' : '.').join(''));
+
+describe('scaleRegion', () => {
+    it('scales the circle centre and turns the radius into pixels of the long side', () => {
+        expect(scaleRegion({ shape: 'circle', x: 400, y: 200, radius: 0.25 }, 0.5, 384))
+            .toEqual({ shape: 'circle', x: 200, y: 100, radius: 96 });
+    });
+
+    it('scales every side of a selected rectangle', () => {
+        expect(scaleRegion({ shape: 'rect', x: 100, y: 40, width: 300, height: 120 }, 0.5, 384))
+            .toEqual({ shape: 'rect', x: 50, y: 20, width: 150, height: 60 });
+    });
+
+    it('leaves masks as they are, since they stretch to any size', () => {
+        const region = { shape: 'mask', mask: 'data:image/png;base64,AAAA' } as const;
+        expect(scaleRegion(region, 0.5, 384)).toBe(region);
+    });
+});
+
+describe('rasterizeRegion', () => {
+    it('marks the pixels within the circle radius', async () => {
+        const pixels = await rasterizeRegion({ shape: 'circle', x: 3, y: 3, radius: 2 }, 7, 7);
+        expect(draw(pixels, 7)).toEqual([
+            '.......',
+            '...#...',
+            '..###..',
+            '.#####.',
+            '..###..',
+            '...#...',
+            '.......',
+        ]);
+    });
+
+    it('clips circles that reach past the image edge', async () => {
+        const pixels = await rasterizeRegion({ shape: 'circle', x: 0, y: 0, radius: 1.5 }, 4, 3);
+        expect(draw(pixels, 4)).toEqual([
+            '##..',
+            '##..',
+            '....',
+        ]);
+    });
+
+    it('marks the pixels of a rectangle, excluding its right and bottom edges', async () => {
+        const pixels = await rasterizeRegion({ shape: 'rect', x: 1, y: 1, width: 3, height: 2 }, 5, 4);
+        expect(draw(pixels, 5)).toEqual([
+            '.....',
+            '.###.',
+            '.###.',
+            '.....',
+        ]);
+    });
+
+    it('covers pixels whose left edge falls inside a fractional rectangle', async () => {
+        // 缩放后框选范围通常不落在整像素上
+        const pixels = await rasterizeRegion({ shape: 'rect', x: 0.5, y: 0, width: 2, height: 1.5 }, 4, 3);
+        expect(draw(pixels, 4)).toEqual([
+            '.##.',
+            '.##.',
+            '....',
+        ]);
+    });
+
+    it('rasterizes painted masks at the analysis size', async () => {
+        const pixels = await rasterizeRegion({ shape: 'mask', mask: 'data:image/png;base64,AAAA' }, 6, 4);
+        expect(rasterizeMask).toHaveBeenCalledWith('data:image/png;base64,AAAA', 6, 4);
+        expect(pixels).toHaveLength(24);
+    });
+});
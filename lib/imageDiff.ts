@@ -0,0 +1,265 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getImage } from './imageStore';
+import { rasterizeMask } from './maskUtils';
+
+/**
+ * 比较两张图片的像素差异：生成差异热图，并计算变化面积、SSIM 和分区漂移。
+ * 模型编辑经常改动用户没有要求修改的地方（人脸变形、文字变化等），
+ * 给出期望修改的区域时，可以据此判断改动是否超出范围。
+ */
+
+// 用户要求修改的区域，A 图的像素坐标
+export type ExpectedRegion =
+    // 热点周围的圆，radius 为相对于图片长边的比例
+    | { shape: 'circle'; x: number; y: number; radius: number }
+    // 框选的矩形
+    | { shape: 'rect'; x: number; y: number; width: number; height: number }
+    // 涂抹的蒙版（见 maskUtils），按图片尺寸拉伸
+    | { shape: 'mask'; mask: string };
+
+export interface ImageDiffOptions {
+    expectedRegion?: ExpectedRegion;
+}
+
+export interface RegionDrift {
+    // 例如“左上”“中”
+    name: string;
+    // 该区域中期望修改范围以外、发生明显变化的像素比例
+    changedRatio: number;
+    // 平均差异（0–1）
+    meanDiff: number;
+    drifted: boolean;
+}
+
+export interface ImageDiff {
+    // 差异热图（PNG data URL，未变化处透明），尺寸为分析尺寸
+    heatmapUrl: string;
+    width: number;
+    height: number;
+    // 期望修改范围换算到热图坐标，圆的 radius 为像素
+    expectedArea?: ExpectedRegion;
+    // 两张图片尺寸或比例不同时，B 被缩放到 A 的尺寸后再比较
+    sizeMismatch: boolean;
+    changedRatio: number;
+    meanDiff: number;
+    // 结构相似度，1 表示完全相同
+    ssim: number;
+    // 期望修改范围以外发生变化的像素比例；没有给出范围时等于 changedRatio
+    outsideChangedRatio: number;
+    regions: RegionDrift[];
+    // 给出了期望修改范围，且范围以外有明显改动
+    driftWarning: boolean;
+}
+
+// 分析时把图片缩到这个尺寸以内：足够发现局部变化，也能平均掉重新编码带来的噪点
+const ANALYSIS_SIZE = 384;
+// 单个像素的通道差异超过这个值才算发生变化（0–1）
+const CHANGE_THRESHOLD = 0.1;
+// 热图中差异达到这个值时显示为最深的颜色
+const HEATMAP_SATURATION = 0.4;
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+const GRID_SIZE = 3;
+const REGION_NAMES = ['左上', '上', '右上', '左', '中', '右', '左下', '下', '右下'];
+// 范围以外的变化比例超过这些值时给出警告：整体，或任一分区
+const DRIFT_WARNING_RATIO = 0.02;
+const REGION_DRIFT_RATIO = 0.08;
+const CACHE_SIZE = 50;
+
+const drawToSize = (bitmap: ImageBitmap, width: number, height: number): Uint8ClampedArray => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('无法创建画布来比较图片。');
+    }
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+// 把期望范围换算到分析尺寸（scale 为缩放比例，longSide 为分析尺寸的长边）；蒙版本身与尺寸无关
+export const scaleRegion = (region: ExpectedRegion, scale: number, longSide: number): ExpectedRegion => {
+    switch (region.shape) {
+        case 'circle':
+            return { shape: 'circle', x: region.x * scale, y: region.y * scale, radius: region.radius * longSide };
+        case 'rect':
+            return { shape: 'rect', x: region.x * scale, y: region.y * scale, width: region.width * scale, height: region.height * scale };
+        case 'mask':
+            return region;
+    }
+};
+
+// 分析尺寸上每个像素是否在期望范围内
+export const rasterizeRegion = async (region: ExpectedRegion, width: number, height: number): Promise<Uint8Array> => {
+    if (region.shape === 'mask') return rasterizeMask(region.mask, width, height);
+    const inside = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            inside[y * width + x] = (region.shape === 'circle'
+                ? (x - region.x) ** 2 + (y - region.y) ** 2 <= region.radius ** 2
+                : x >= region.x && x < region.x + region.width && y >= region.y && y < region.y + region.height) ? 1 : 0;
+        }
+    }
+    return inside;
+};
+
+const luminance = (data: Uint8ClampedArray, i: number) =>
+    0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// 在灰度图上按滑动窗口计算的平均 SSIM
+const computeSsim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+    const n = SSIM_WINDOW * SSIM_WINDOW;
+    let total = 0;
+    let count = 0;
+    for (let y = 0; y + SSIM_WINDOW <= height; y += SSIM_STRIDE) {
+        for (let x = 0; x + SSIM_WINDOW <= width; x += SSIM_STRIDE) {
+            let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+            for (let wy = 0; wy < SSIM_WINDOW; wy++) {
+                let i = (y + wy) * width + x;
+                for (let wx = 0; wx < SSIM_WINDOW; wx++, i++) {
+                    sumA += a[i];
+                    sumB += b[i];
+                    sumAA += a[i] * a[i];
+                    sumBB += b[i] * b[i];
+                    sumAB += a[i] * b[i];
+                }
+            }
+            const meanA = sumA / n;
+            const meanB = sumB / n;
+            const varA = sumAA / n - meanA * meanA;
+            const varB = sumBB / n - meanB * meanB;
+            const covariance = sumAB / n - meanA * meanB;
+            total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2))
+                / ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+            count++;
+        }
+    }
+    return count > 0 ? total / count : 1;
+};
+
+/**
+ * 比较 A（修改前）和 B（修改后）。
+ */
+export const computeImageDiff = async (before: Blob, after: Blob, options: ImageDiffOptions = {}): Promise<ImageDiff> => {
+    const [bitmapA, bitmapB] = await Promise.all([createImageBitmap(before), createImageBitmap(after)]);
+    const scale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmapA.width, bitmapA.height));
+    const width = Math.max(1, Math.round(bitmapA.width * scale));
+    const height = Math.max(1, Math.round(bitmapA.height * scale));
+    const sizeMismatch = bitmapA.width !== bitmapB.width || bitmapA.height !== bitmapB.height;
+    const dataA = drawToSize(bitmapA, width, height);
+    const dataB = drawToSize(bitmapB, width, height);
+    bitmapA.close();
+    bitmapB.close();
+
+    const { expectedRegion } = options;
+    const region = expectedRegion && scaleRegion(expectedRegion, scale, Math.max(width, height));
+    const expectedPixels = region && await rasterizeRegion(region, width, height);
+
+    const pixelCount = width * height;
+    const grayA = new Float32Array(pixelCount);
+    const grayB = new Float32Array(pixelCount);
+    const heatmap = new ImageData(width, height);
+    const regionStats = REGION_NAMES.map(() => ({ outside: 0, changed: 0, diffSum: 0, count: 0 }));
+    let changed = 0;
+    let outside = 0;
+    let outsideChanged = 0;
+    let diffSum = 0;
+
+    for (let y = 0; y < height; y++) {
+        const row = Math.min(GRID_SIZE - 1, Math.floor((y / height) * GRID_SIZE));
+        for (let x = 0; x < width; x++) {
+            const p = y * width + x;
+            const i = p * 4;
+            grayA[p] = luminance(dataA, i);
+            grayB[p] = luminance(dataB, i);
+            const diff = Math.max(
+                Math.abs(dataA[i] - dataB[i]),
+                Math.abs(dataA[i + 1] - dataB[i + 1]),
+                Math.abs(dataA[i + 2] - dataB[i + 2]),
+            ) / 255;
+            const isChanged = diff > CHANGE_THRESHOLD;
+            diffSum += diff;
+            if (isChanged) changed++;
+
+            const stats = regionStats[row * GRID_SIZE + Math.min(GRID_SIZE - 1, Math.floor((x / width) * GRID_SIZE))];
+            stats.diffSum += diff;
+            stats.count++;
+            if (!expectedPixels?.[p]) {
+                outside++;
+                stats.outside++;
+                if (isChanged) {
+                    outsideChanged++;
+                    stats.changed++;
+                }
+            }
+
+            // 黄色（轻微）到红色（强烈），未变化处透明
+            if (isChanged) {
+                const t = Math.min(1, diff / HEATMAP_SATURATION);
+                heatmap.data[i] = 255;
+                heatmap.data[i + 1] = Math.round(220 * (1 - t));
+                heatmap.data[i + 2] = 0;
+                heatmap.data[i + 3] = Math.round(110 + 145 * t);
+            }
+        }
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.putImageData(heatmap, 0, 0);
+
+    const regions: RegionDrift[] = regionStats.map((stats, index) => {
+        const changedRatio = stats.outside > 0 ? stats.changed / stats.outside : 0;
+        return {
+            name: REGION_NAMES[index],
+            changedRatio,
+            meanDiff: stats.count > 0 ? stats.diffSum / stats.count : 0,
+            drifted: changedRatio > REGION_DRIFT_RATIO,
+        };
+    });
+    const outsideChangedRatio = outside > 0 ? outsideChanged / outside : 0;
+
+    return {
+        heatmapUrl: canvas.toDataURL('image/png'),
+        width,
+        height,
+        expectedArea: region,
+        sizeMismatch,
+        changedRatio: changed / pixelCount,
+        meanDiff: diffSum / pixelCount,
+        ssim: computeSsim(grayA, grayB, width, height),
+        outsideChangedRatio,
+        regions,
+        driftWarning: !!expectedRegion && (outsideChangedRatio > DRIFT_WARNING_RATIO || regions.some(r => r.drifted)),
+    };
+};
+
+const cache = new Map<string, Promise<ImageDiff>>();
+
+/**
+ * 按 imageStore 的键比较两张图片。结果按键和期望范围缓存，最近使用的保留在前面。
+ */
+export const getImageDiff = (beforeKey: string, afterKey: string, options: ImageDiffOptions = {}): Promise<ImageDiff> => {
+    const cacheKey = `${beforeKey}|${afterKey}|${JSON.stringify(options.expectedRegion ?? null)}`;
+    let diff = cache.get(cacheKey);
+    if (diff) {
+        cache.delete(cacheKey);
+    } else {
+        diff = Promise.all([getImage(beforeKey), getImage(afterKey)])
+            .then(([before, after]) => computeImageDiff(before, after, options));
+        diff.catch(() => cache.delete(cacheKey));
+    }
+    cache.set(cacheKey, diff);
+    if (cache.size > CACHE_SIZE) {
+        cache.delete(cache.keys().next().value!);
+    }
+    return diff;
+};
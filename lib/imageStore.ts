@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { IMAGE_CACHE_STORE, IMAGES_STORE, openDatabase, prefixKeyRange, requestResult, transactionDone } from './database';
+import { createPersistedOptions } from './persistedOptions';
+
+/**
+ * 图片存储：历史状态和批量结果的全尺寸图片都放在这里，调用方只持有键。
+ * 每张图片写入 IndexedDB 后，内存中只保留最近使用的一部分；
+ * 超出内存预算时按最久未使用的顺序换出到磁盘，需要时再按需读回。
+ * 从项目恢复的图片直接沿用项目中的键，需要时从项目读取，不再复制一份。
+ * 缩略图和预览图很小，常驻内存。
+ */
+
+export interface MemoryOptions {
+    // 内存中最多保留的全尺寸图片总大小（MB）
+    budgetMB: number;
+}
+
+export interface MemoryUsage {
+    // 内存中全尺寸图片的总大小（字节）
+    residentBytes: number;
+    residentCount: number;
+    totalCount: number;
+}
+
+const STORAGE_KEY = 'aice-ps:memory';
+
+const DEFAULT_OPTIONS: MemoryOptions = {
+    budgetMB: 256,
+};
+
+const persistedOptions = createPersistedOptions<MemoryOptions>(STORAGE_KEY, DEFAULT_OPTIONS, 'memory');
+
+const THUMBNAIL_SIZE = 160;
+const PREVIEW_SIZE = 768;
+
+interface ResidentImage {
+    file: File;
+    // 已经写入 IndexedDB，可以从内存中换出
+    persisted: boolean;
+}
+
+// Map 保持插入顺序：每次使用都重新插入到末尾，开头就是最久未使用的图片
+const resident = new Map<string, ResidentImage>();
+let residentBytes = 0;
+const knownKeys = new Set<string>();
+// 保存在项目中的图片（见 projectStore），从项目的对象仓库读取
+const storedKeys = new Set<string>();
+const loading = new Map<string, Promise<File>>();
+const thumbnails = new Map<string, Promise<string>>();
+// 正在显示的图片（当前状态、原图等）不会被换出
+const retained = new Map<string, number>();
+
+// 每个标签页一个会话前缀；关闭的标签页留下的图片在下次启动时清理
+const sessionId = `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+const SESSION_LOCK_PREFIX = 'aice-ps-image-session:';
+let imageCounter = 0;
+
+const touch = (key: string, image: ResidentImage) => {
+    resident.delete(key);
+    resident.set(key, image);
+};
+
+const evictOverBudget = () => {
+    const budget = persistedOptions.get().budgetMB * 1024 * 1024;
+    for (const [key, image] of resident) {
+        if (residentBytes <= budget) break;
+        if (!image.persisted || retained.has(key)) continue;
+        resident.delete(key);
+        residentBytes -= image.file.size;
+    }
+};
+
+const persist = async (key: string, file: File) => {
+    const db = await openDatabase();
+    const tx = db.transaction(IMAGE_CACHE_STORE, 'readwrite');
+    tx.objectStore(IMAGE_CACHE_STORE).put(file, key);
+    await transactionDone(tx);
+};
+
+/**
+ * 保存一张图片并返回它的键。图片立即可用，写入磁盘在后台进行；
+ * 写入完成前图片不会被换出。
+ */
+export const putImage = (blob: Blob): string => {
+    const key = `${sessionId}/${(imageCounter++).toString(36)}`;
+    const file = blob instanceof File ? blob : new File([blob], `image-${Date.now()}.png`, { type: blob.type || 'image/png' });
+    const image: ResidentImage = { file, persisted: false };
+    resident.set(key, image);
+    residentBytes += file.size;
+    knownKeys.add(key);
+    persist(key, file).then(() => {
+        image.persisted = true;
+        evictOverBudget();
+    }).catch(e => {
+        // 写入失败的图片一直留在内存中，不会丢失
+        console.warn('Failed to write image to disk cache', e);
+    });
+    return key;
+};
+
+/**
+ * 登记已经保存在项目中的图片，之后可以像其他图片一样用键读取。
+ * 这些图片属于项目，删除时只从内存中移除，由项目保存时清理。
+ */
+export const addStoredImages = (keys: string[]) => {
+    keys.forEach(key => {
+        storedKeys.add(key);
+        knownKeys.add(key);
+    });
+};
+
+// 图片在内存中时同步返回，否则返回 undefined
+export const peekImage = (key: string): File | undefined => resident.get(key)?.file;
+
+/**
+ * 读取全尺寸图片，必要时从磁盘读回并重新放入内存。
+ */
+export const getImage = (key: string): Promise<File> => {
+    const image = resident.get(key);
+    if (image) {
+        touch(key, image);
+        return Promise.resolve(image.file);
+    }
+    let pending = loading.get(key);
+    if (!pending) {
+        pending = (async () => {
+            const stored = storedKeys.has(key);
+            const storeName = stored ? IMAGES_STORE : IMAGE_CACHE_STORE;
+            const db = await openDatabase();
+            const tx = db.transaction(storeName, 'readonly');
+            const file = await requestResult(tx.objectStore(storeName).get(key) as IDBRequest<File | undefined>);
+            if (!file) {
+                throw new Error(stored ? '项目中的图片已丢失，无法读取。' : '图片已从缓存中丢失，无法读取。');
+            }
+            if (!resident.has(key)) {
+                resident.set(key, { file, persisted: true });
+                residentBytes += file.size;
+                evictOverBudget();
+            }
+            return file;
+        })().finally(() => loading.delete(key));
+        loading.set(key, pending);
+    }
+    return pending;
+};
+
+// 保持图片常驻内存，直到调用返回的释放函数
+export const retainImage = (key: string): (() => void) => {
+    retained.set(key, (retained.get(key) ?? 0) + 1);
+    return () => {
+        const count = (retained.get(key) ?? 1) - 1;
+        if (count > 0) {
+            retained.set(key, count);
+        } else {
+            retained.delete(key);
+            evictOverBudget();
+        }
+    };
+};
+
+// 不再被引用的图片：从内存和磁盘中删除；项目中的图片只从内存中移除
+export const deleteImages = async (keys: string[]) => {
+    keys.forEach(key => {
+        const image = resident.get(key);
+        if (image) {
+            resident.delete(key);
+            residentBytes -= image.file.size;
+        }
+        knownKeys.delete(key);
+        thumbnails.delete(key);
+    });
+    const cached = keys.filter(key => !storedKeys.has(key));
+    if (cached.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(IMAGE_CACHE_STORE, 'readwrite');
+    cached.forEach(key => tx.objectStore(IMAGE_CACHE_STORE).delete(key));
+    await transactionDone(tx);
+};
+
+const drawScaled = async (blob: Blob, maxSize: number): Promise<HTMLCanvasElement> => {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas;
+};
+
+// 小缩略图（data URL），用于历史时间轴和分支切换
+export const getThumbnail = (key: string): Promise<string> => {
+    let thumbnail = thumbnails.get(key);
+    if (!thumbnail) {
+        thumbnail = getImage(key)
+            .then(file => drawScaled(file, THUMBNAIL_SIZE))
+            .then(canvas => canvas.toDataURL('image/webp', 0.8));
+        thumbnail.catch(() => thumbnails.delete(key));
+        thumbnails.set(key, thumbnail);
+    }
+    return thumbnail;
+};
+
+/**
+ * 为批量结果生成预览图的 blob URL：足够在结果网格和查看器中显示，
+ * 但比全尺寸图片小得多。由调用方负责释放。
+ */
+export const createPreviewUrl = async (blob: Blob): Promise<string> => {
+    const canvas = await drawScaled(blob, PREVIEW_SIZE);
+    const preview = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', 0.85));
+    return URL.createObjectURL(preview ?? blob);
+};
+
+export const getMemoryOptions = (): MemoryOptions => persistedOptions.get();
+
+export const setMemoryOptions = (next: Partial<MemoryOptions>) => {
+    persistedOptions.set(next);
+    evictOverBudget();
+};
+
+export const getMemoryUsage = (): MemoryUsage => ({
+    residentBytes,
+    residentCount: resident.size,
+    totalCount: knownKeys.size,
+});
+
+/**
+ * 持有本会话的锁，并删除已经没有标签页持有锁的会话留下的缓存图片。
+ * 浏览器不支持 Web Locks 时不做清理，以免误删其他标签页的图片。
+ */
+const cleanUpClosedSessions = async () => {
+    if (!navigator.locks) return;
+    navigator.locks.request(`${SESSION_LOCK_PREFIX}${sessionId}`, () => new Promise<void>(() => {}));
+    const { held = [] } = await navigator.locks.query();
+    const liveSessions = new Set([
+        sessionId,
+        ...held.flatMap(lock => lock.name?.startsWith(SESSION_LOCK_PREFIX) ? [lock.name.slice(SESSION_LOCK_PREFIX.length)] : []),
+    ]);
+    const db = await openDatabase();
+    const tx = db.transaction(IMAGE_CACHE_STORE, 'readwrite');
+    const store = tx.objectStore(IMAGE_CACHE_STORE);
+    const keys = await requestResult(store.getAllKeys());
+    new Set(keys.map(key => String(key).split('/')[0]))
+        .forEach(session => {
+            if (!liveSessions.has(session)) store.delete(prefixKeyRange(session));
+        });
+    await transactionDone(tx);
+};
+
+cleanUpClosedSessions().catch(e => console.warn('Failed to clean up image cache', e));
@@ -0,0 +1,274 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { getImage, putImage } from './imageStore';
+import { getImageSize } from './localRetouch';
+
+/**
+ * 非破坏性图层：底图、AI 结果、抠图和文字作为独立的图层叠加，
+ * 每个图层有自己的不透明度、混合模式、可见性和蒙版，在画布上合成。
+ *
+ * 图层栈随历史节点的操作一起保存；图层的图片和节点图片一样放在 imageStore 里，图层只保存键。
+ * 节点本身的图片是合成后的结果，对比、差异热图和导出都照常使用合成图。
+ * 图层栈是不可变的，所有修改都返回新的图层栈。
+ */
+
+// 除 normal 外与 canvas 的 globalCompositeOperation 同名
+export type BlendMode =
+    | 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten'
+    | 'color-dodge' | 'color-burn' | 'hard-light' | 'soft-light' | 'difference' | 'exclusion'
+    | 'hue' | 'saturation' | 'color' | 'luminosity';
+
+export const BLEND_MODES: { value: BlendMode; label: string }[] = [
+    { value: 'normal', label: '正常' },
+    { value: 'multiply', label: '正片叠底' },
+    { value: 'screen', label: '滤色' },
+    { value: 'overlay', label: '叠加' },
+    { value: 'darken', label: '变暗' },
+    { value: 'lighten', label: '变亮' },
+    { value: 'color-dodge', label: '颜色减淡' },
+    { value: 'color-burn', label: '颜色加深' },
+    { value: 'hard-light', label: '强光' },
+    { value: 'soft-light', label: '柔光' },
+    { value: 'difference', label: '差值' },
+    { value: 'exclusion', label: '排除' },
+    { value: 'hue', label: '色相' },
+    { value: 'saturation', label: '饱和度' },
+    { value: 'color', label: '颜色' },
+    { value: 'luminosity', label: '明度' },
+];
+
+// 文字内容；位置和字号相对图片尺寸，图层栈缩放后仍然适用
+export interface TextContent {
+    text: string;
+    // 文字中心的位置，0–1
+    x: number;
+    y: number;
+    // 字号相对图片高度
+    size: number;
+    color: string;
+    bold: boolean;
+}
+
+interface LayerBase {
+    id: string;
+    name: string;
+    // 0–1
+    opacity: number;
+    blendMode: BlendMode;
+    visible: boolean;
+    // 涂抹蒙版（见 maskUtils），涂抹的地方隐藏该图层
+    mask?: string;
+}
+
+export interface ImageLayer extends LayerBase {
+    kind: 'image';
+    // imageStore 中的键，图片尺寸与图层栈一致
+    imageKey: string;
+}
+
+export interface TextLayer extends LayerBase {
+    kind: 'text';
+    content: TextContent;
+}
+
+export type Layer = ImageLayer | TextLayer;
+
+export type LayerProps = Pick<LayerBase, 'name' | 'opacity' | 'blendMode' | 'visible' | 'mask'>;
+
+export interface LayerStack {
+    width: number;
+    height: number;
+    // 从下到上
+    layers: Layer[];
+}
+
+const DEFAULT_TEXT: Omit<TextContent, 'text'> = {
+    x: 0.5,
+    y: 0.5,
+    size: 0.08,
+    color: '#ffffff',
+    bold: true,
+};
+
+// 解码后的图片按键缓存，调整不透明度等属性时不必重新解码
+const MAX_CACHED_BITMAPS = 16;
+const bitmapCache = new Map<string, Promise<ImageBitmap>>();
+const MAX_CACHED_MASKS = 8;
+const maskCache = new Map<string, Promise<HTMLImageElement>>();
+
+const createLayerId = () => `layer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const loadBitmap = (imageKey: string): Promise<ImageBitmap> => {
+    const cached = bitmapCache.get(imageKey);
+    if (cached) {
+        bitmapCache.delete(imageKey);
+        bitmapCache.set(imageKey, cached);
+        return cached;
+    }
+    const bitmap = getImage(imageKey).then(image => createImageBitmap(image));
+    bitmapCache.set(imageKey, bitmap);
+    bitmap.catch(() => bitmapCache.delete(imageKey));
+    // 换出时不调用 close()：正在进行的合成可能刚拿到这张位图还没来得及绘制，交给垃圾回收释放
+    while (bitmapCache.size > MAX_CACHED_BITMAPS) {
+        bitmapCache.delete(bitmapCache.keys().next().value!);
+    }
+    return bitmap;
+};
+
+const loadMask = (mask: string): Promise<HTMLImageElement> => {
+    const cached = maskCache.get(mask);
+    if (cached) return cached;
+    const image = new Promise<HTMLImageElement>((resolve, reject) => {
+        const element = new Image();
+        element.onload = () => resolve(element);
+        element.onerror = () => reject(new Error('无法读取图层蒙版。'));
+        element.src = mask;
+    });
+    maskCache.set(mask, image);
+    image.catch(() => maskCache.delete(mask));
+    while (maskCache.size > MAX_CACHED_MASKS) {
+        maskCache.delete(maskCache.keys().next().value!);
+    }
+    return image;
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('无法创建画布来合成图层。');
+    }
+    return { canvas, ctx };
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string) => new Promise<File>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(new File([blob], name, { type: 'image/png' })) : reject(new Error('无法导出合成图片。')), 'image/png');
+});
+
+/**
+ * 用 imageStore 中的图片创建图片图层。尺寸与图层栈不同的图片（模型输出经常如此）
+ * 先拉伸到图层栈大小并另存一份，这样针对某个图层的编辑和在画布上点选的坐标一致。
+ */
+export const createImageLayer = async (stack: Pick<LayerStack, 'width' | 'height'>, imageKey: string, name: string): Promise<ImageLayer> => {
+    const size = await getImageSize(await getImage(imageKey));
+    let layerKey = imageKey;
+    if (size.width !== stack.width || size.height !== stack.height) {
+        const { canvas, ctx } = createCanvas(stack.width, stack.height);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(await loadBitmap(imageKey), 0, 0, stack.width, stack.height);
+        layerKey = putImage(await canvasToFile(canvas, `layer-${Date.now()}.png`));
+    }
+    return { id: createLayerId(), kind: 'image', name, imageKey: layerKey, opacity: 1, blendMode: 'normal', visible: true };
+};
+
+export const createTextLayer = (text: string = '文字'): TextLayer => ({
+    id: createLayerId(),
+    kind: 'text',
+    name: text,
+    content: { ...DEFAULT_TEXT, text },
+    opacity: 1,
+    blendMode: 'normal',
+    visible: true,
+});
+
+/**
+ * 以 imageStore 中的一张图片作为底图创建图层栈。
+ */
+export const createLayerStack = async (baseKey: string): Promise<LayerStack> => {
+    const { width, height } = await getImageSize(await getImage(baseKey));
+    return { width, height, layers: [await createImageLayer({ width, height }, baseKey, '背景')] };
+};
+
+// 图层栈引用的所有图片键
+export const getLayerImageKeys = (stack: LayerStack): string[] =>
+    stack.layers.flatMap(layer => layer.kind === 'image' ? [layer.imageKey] : []);
+
+// 替换图片图层的键，用于保存和恢复项目
+export const replaceLayerImageKeys = (stack: LayerStack, replace: (imageKey: string) => string): LayerStack => ({
+    ...stack,
+    layers: stack.layers.map(layer => layer.kind === 'image' ? { ...layer, imageKey: replace(layer.imageKey) } : layer),
+});
+
+export const getLayer = (stack: LayerStack, id: string | null | undefined): Layer | undefined =>
+    stack.layers.find(layer => layer.id === id);
+
+// 插入到 aboveId 之上；没有指定时放在最上面
+export const insertLayer = (stack: LayerStack, layer: Layer, aboveId?: string | null): LayerStack => {
+    const index = stack.layers.findIndex(item => item.id === aboveId);
+    const layers = [...stack.layers];
+    layers.splice(index === -1 ? layers.length : index + 1, 0, layer);
+    return { ...stack, layers };
+};
+
+export const updateLayer = (stack: LayerStack, id: string, props: Partial<LayerProps>): LayerStack => ({
+    ...stack,
+    layers: stack.layers.map(layer => layer.id === id ? { ...layer, ...props } : layer),
+});
+
+export const updateTextContent = (stack: LayerStack, id: string, content: Partial<TextContent>): LayerStack => ({
+    ...stack,
+    layers: stack.layers.map(layer => layer.id === id && layer.kind === 'text'
+        ? { ...layer, content: { ...layer.content, ...content } }
+        : layer),
+});
+
+// offset 为正时上移
+export const moveLayer = (stack: LayerStack, id: string, offset: number): LayerStack => {
+    const index = stack.layers.findIndex(layer => layer.id === id);
+    const target = Math.min(stack.layers.length - 1, Math.max(0, index + offset));
+    if (index === -1 || target === index) return stack;
+    const layers = [...stack.layers];
+    const [layer] = layers.splice(index, 1);
+    layers.splice(target, 0, layer);
+    return { ...stack, layers };
+};
+
+// 至少保留一个图层
+export const removeLayer = (stack: LayerStack, id: string): LayerStack =>
+    stack.layers.length > 1 ? { ...stack, layers: stack.layers.filter(layer => layer.id !== id) } : stack;
+
+const drawText = (ctx: CanvasRenderingContext2D, content: TextContent, width: number, height: number) => {
+    const fontSize = Math.max(1, content.size * height);
+    const lines = content.text.split('\n');
+    ctx.font = `${content.bold ? 'bold ' : ''}${fontSize}px "Noto Sans SC", "PingFang SC", "Microsoft YaHei", sans-serif`;
+    ctx.fillStyle = content.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lineHeight = fontSize * 1.2;
+    const top = content.y * height - (lineHeight * (lines.length - 1)) / 2;
+    lines.forEach((line, index) => ctx.fillText(line, content.x * width, top + index * lineHeight));
+};
+
+const renderLayer = async (layer: Layer, width: number, height: number): Promise<HTMLCanvasElement> => {
+    const { canvas, ctx } = createCanvas(width, height);
+    if (layer.kind === 'image') {
+        ctx.drawImage(await loadBitmap(layer.imageKey), 0, 0, width, height);
+    } else {
+        drawText(ctx, layer.content, width, height);
+    }
+    if (layer.mask) {
+        ctx.globalCompositeOperation = 'destination-out';
+        ctx.drawImage(await loadMask(layer.mask), 0, 0, width, height);
+    }
+    return canvas;
+};
+
+/**
+ * 按顺序合成所有可见图层，返回拼合后的 PNG。
+ */
+export const compositeLayers = async (stack: LayerStack): Promise<File> => {
+    const { canvas, ctx } = createCanvas(stack.width, stack.height);
+    for (const layer of stack.layers) {
+        if (!layer.visible || layer.opacity <= 0) continue;
+        const rendered = await renderLayer(layer, stack.width, stack.height);
+        ctx.globalAlpha = layer.opacity;
+        ctx.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+        ctx.drawImage(rendered, 0, 0);
+    }
+    return canvasToFile(canvas, `layers-${Date.now()}.png`);
+};
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 本地调整：曝光、对比度、饱和度、色温等基础调整直接在浏览器里用画布计算，
+ * 不调用模型——即时、免费，也不会改动画面内容。
+ *
+ * 逐通道的调整（白平衡、曝光、亮度、对比度）预先算成查找表，
+ * 依赖整个像素的调整（高光/阴影、饱和度、自然饱和度）逐像素计算。
+ * 预览和最终输出使用同一套计算，只是预览在缩小的图片上进行。
+ */
+
+// 所有参数的范围都是 -100–100，0 表示不调整
+export interface LocalAdjustments {
+    exposure: number;
+    brightness: number;
+    contrast: number;
+    highlights: number;
+    shadows: number;
+    saturation: number;
+    vibrance: number;
+    temperature: number;
+    tint: number;
+}
+
+export const DEFAULT_LOCAL_ADJUSTMENTS: LocalAdjustments = {
+    exposure: 0,
+    brightness: 0,
+    contrast: 0,
+    highlights: 0,
+    shadows: 0,
+    saturation: 0,
+    vibrance: 0,
+    temperature: 0,
+    tint: 0,
+};
+
+export const LOCAL_ADJUSTMENT_CONTROLS: { key: keyof LocalAdjustments; label: string }[] = [
+    { key: 'exposure', label: '曝光' },
+    { key: 'brightness', label: '亮度' },
+    { key: 'contrast', label: '对比度' },
+    { key: 'highlights', label: '高光' },
+    { key: 'shadows', label: '阴影' },
+    { key: 'saturation', label: '饱和度' },
+    { key: 'vibrance', label: '自然饱和度' },
+    { key: 'temperature', label: '色温' },
+    { key: 'tint', label: '色调' },
+];
+
+// 曝光滑块满格对应的档数（EV）
+const MAX_EXPOSURE_EV = 2;
+// 白平衡满格时红/蓝（色温）或绿（色调）通道的增益变化
+const WHITE_BALANCE_GAIN = 0.2;
+// 高光/阴影满格时的最大提亮或压暗量
+const TONE_AMOUNT = 0.35;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const isDefaultAdjustments = (adjustments: LocalAdjustments) =>
+    LOCAL_ADJUSTMENT_CONTROLS.every(({ key }) => !adjustments[key]);
+
+// 历史记录中显示的摘要，例如“曝光 +20 · 对比度 -10”
+export const describeLocalAdjustments = (adjustments: LocalAdjustments) =>
+    LOCAL_ADJUSTMENT_CONTROLS
+        .filter(({ key }) => adjustments[key])
+        .map(({ key, label }) => `${label} ${adjustments[key] > 0 ? '+' : ''}${adjustments[key]}`)
+        .join(' · ');
+
+const srgbToLinear = (v: number) => v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+const linearToSrgb = (v: number) => v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+
+// 单个通道的查找表：白平衡增益 → 线性空间曝光 → 亮度（伽马）→ 对比度，结果为 0–1
+const buildChannelTable = (gain: number, { exposure, brightness, contrast }: LocalAdjustments) => {
+    const exposureGain = Math.pow(2, (exposure / 100) * MAX_EXPOSURE_EV);
+    const gamma = Math.pow(2, -brightness / 100);
+    const contrastFactor = 1 + contrast / 100;
+    const table = new Float32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let v = clamp01(linearToSrgb(clamp01(srgbToLinear(i / 255) * gain * exposureGain)));
+        v = Math.pow(v, gamma);
+        table[i] = clamp01((v - 0.5) * contrastFactor + 0.5);
+    }
+    return table;
+};
+
+/**
+ * 就地调整像素。
+ */
+export const applyAdjustmentsToImageData = (image: ImageData, adjustments: LocalAdjustments) => {
+    const { temperature, tint, highlights, shadows, saturation, vibrance } = adjustments;
+    const red = buildChannelTable(1 + (temperature / 100) * WHITE_BALANCE_GAIN, adjustments);
+    const green = buildChannelTable(1 - (tint / 100) * WHITE_BALANCE_GAIN, adjustments);
+    const blue = buildChannelTable(1 - (temperature / 100) * WHITE_BALANCE_GAIN, adjustments);
+    const highlightAmount = (highlights / 100) * TONE_AMOUNT;
+    const shadowAmount = (shadows / 100) * TONE_AMOUNT;
+    const saturationFactor = 1 + saturation / 100;
+    const vibranceAmount = vibrance / 100;
+    const perPixel = highlightAmount !== 0 || shadowAmount !== 0 || saturationFactor !== 1 || vibranceAmount !== 0;
+
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+        let r = red[data[i]];
+        let g = green[data[i + 1]];
+        let b = blue[data[i + 2]];
+        if (perPixel) {
+            let luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+            // 高光只影响亮部，阴影只影响暗部，中间调基本不变
+            const toneShift = highlightAmount * luma * luma + shadowAmount * (1 - luma) * (1 - luma);
+            r += toneShift;
+            g += toneShift;
+            b += toneShift;
+            luma += toneShift;
+            // 自然饱和度对已经很鲜艳的颜色作用较小
+            const chroma = Math.max(r, g, b) - Math.min(r, g, b);
+            const factor = saturationFactor * (1 + vibranceAmount * (1 - Math.min(1, chroma)));
+            r = luma + (r - luma) * factor;
+            g = luma + (g - luma) * factor;
+            b = luma + (b - luma) * factor;
+        }
+        data[i] = Math.round(clamp01(r) * 255);
+        data[i + 1] = Math.round(clamp01(g) * 255);
+        data[i + 2] = Math.round(clamp01(b) * 255);
+    }
+};
+
+/**
+ * 按原始分辨率应用调整，返回 PNG。
+ */
+export const applyLocalAdjustments = async (image: Blob, adjustments: LocalAdjustments): Promise<File> => {
+    const bitmap = await createImageBitmap(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('无法创建画布来调整图片。');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyAdjustmentsToImageData(pixels, adjustments);
+    ctx.putImageData(pixels, 0, 0);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob
+            ? resolve(new File([blob], `adjusted-${Date.now()}.png`, { type: 'image/png' }))
+            : reject(new Error('无法导出调整后的图片。')), 'image/png');
+    });
+};
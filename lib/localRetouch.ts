@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 高分辨率局部修饰：只把热点周围（或用户框选）的一块区域按原始分辨率裁出来发给模型，
+ * 再把结果贴回原图，边缘羽化过渡。大照片上修一个小地方时不会因为整图缩到 2048px 而损失细节。
+ */
+
+// 原图像素坐标中的矩形
+export interface ImageArea {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// 发给模型的区域不超过这个尺寸，正好不会被 resizeImageForApi 再次缩小
+const MAX_WINDOW_SIZE = 2048;
+// 热点周围的区域至少这么大，给模型足够的上下文
+const MIN_WINDOW_SIZE = 512;
+// 热点周围区域的边长相对图片长边的比例
+const WINDOW_RATIO = 0.35;
+// 框选区域四周额外留出的上下文，相对区域尺寸
+const AREA_PADDING = 0.25;
+// 贴回时的羽化宽度：相对区域短边的比例，且不小于 MIN_FEATHER 像素
+const FEATHER_RATIO = 0.06;
+const MIN_FEATHER = 8;
+
+const clampArea = ({ x, y, width, height }: ImageArea, imageWidth: number, imageHeight: number): ImageArea => {
+    const w = Math.min(Math.round(width), imageWidth);
+    const h = Math.min(Math.round(height), imageHeight);
+    return {
+        x: Math.min(Math.max(0, Math.round(x)), imageWidth - w),
+        y: Math.min(Math.max(0, Math.round(y)), imageHeight - h),
+        width: w,
+        height: h,
+    };
+};
+
+/**
+ * 以热点为中心的正方形上下文区域，超出图片时向内平移。
+ */
+export const contextWindowAround = (hotspot: { x: number; y: number }, imageWidth: number, imageHeight: number): ImageArea => {
+    const size = Math.min(MAX_WINDOW_SIZE, Math.max(MIN_WINDOW_SIZE, Math.max(imageWidth, imageHeight) * WINDOW_RATIO));
+    return clampArea({ x: hotspot.x - size / 2, y: hotspot.y - size / 2, width: size, height: size }, imageWidth, imageHeight);
+};
+
+/**
+ * 框选区域四周加上一圈上下文，上下文只加到 MAX_WINDOW_SIZE 为止。
+ * 选区本身总是完整包含在内：比 MAX_WINDOW_SIZE 还大的选区整块发送，
+ * 由 resizeImageForApi 缩小到 2048px，贴回时再拉伸回原尺寸。
+ */
+export const contextWindowForArea = (area: ImageArea, imageWidth: number, imageHeight: number): ImageArea => {
+    const width = Math.max(area.width, Math.min(MAX_WINDOW_SIZE, area.width * (1 + 2 * AREA_PADDING)));
+    const height = Math.max(area.height, Math.min(MAX_WINDOW_SIZE, area.height * (1 + 2 * AREA_PADDING)));
+    const centerX = area.x + area.width / 2;
+    const centerY = area.y + area.height / 2;
+    return clampArea({ x: centerX - width / 2, y: centerY - height / 2, width, height }, imageWidth, imageHeight);
+};
+
+export const getImageSize = async (file: Blob): Promise<{ width: number; height: number }> => {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string) => new Promise<File>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(new File([blob], name, { type: 'image/png' })) : reject(new Error('无法导出裁剪区域。')), 'image/png');
+});
+
+/**
+ * 按原始分辨率裁出一块区域。
+ */
+export const cropImageArea = async (file: Blob, area: ImageArea): Promise<File> => {
+    const bitmap = await createImageBitmap(file, area.x, area.y, area.width, area.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = area.width;
+    canvas.height = area.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvasToFile(canvas, `crop-${Date.now()}.png`);
+};
+
+/**
+ * 把编辑后的区域贴回原图，返回 PNG data URL。
+ * 区域贴着图片边缘的一侧不羽化，其余各边从外到内逐渐过渡到编辑结果。
+ */
+export const pasteImageArea = async (original: Blob, edited: Blob | string, area: ImageArea): Promise<string> => {
+    const editedBlob = typeof edited === 'string' ? await (await fetch(edited)).blob() : edited;
+    const [originalBitmap, editedBitmap] = await Promise.all([createImageBitmap(original), createImageBitmap(editedBlob)]);
+    try {
+        const { width, height } = originalBitmap;
+        const feather = Math.max(MIN_FEATHER, Math.min(area.width, area.height) * FEATHER_RATIO);
+        const edges = {
+            left: area.x > 0,
+            top: area.y > 0,
+            right: area.x + area.width < width,
+            bottom: area.y + area.height < height,
+        };
+
+        const patch = document.createElement('canvas');
+        patch.width = area.width;
+        patch.height = area.height;
+        const patchCtx = patch.getContext('2d');
+        if (!patchCtx) {
+            throw new Error('无法创建画布来贴回修饰结果。');
+        }
+        // 模型输出的尺寸可能和发送的区域不同，拉伸回原区域大小
+        patchCtx.imageSmoothingQuality = 'high';
+        patchCtx.drawImage(editedBitmap, 0, 0, area.width, area.height);
+
+        const pixels = patchCtx.getImageData(0, 0, area.width, area.height);
+        for (let y = 0; y < area.height; y++) {
+            const vertical = Math.min(
+                edges.top ? (y + 0.5) / feather : 1,
+                edges.bottom ? (area.height - y - 0.5) / feather : 1,
+            );
+            for (let x = 0; x < area.width; x++) {
+                const alpha = Math.min(
+                    vertical,
+                    edges.left ? (x + 0.5) / feather : 1,
+                    edges.right ? (area.width - x - 0.5) / feather : 1,
+                );
+                if (alpha < 1) {
+                    const i = (y * area.width + x) * 4 + 3;
+                    pixels.data[i] = Math.round(pixels.data[i] * Math.max(0, alpha));
+                }
+            }
+        }
+        patchCtx.putImageData(pixels, 0, 0);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('无法创建画布来贴回修饰结果。');
+        }
+        ctx.drawImage(originalBitmap, 0, 0);
+        ctx.drawImage(patch, area.x, area.y);
+        return canvas.toDataURL('image/png');
+    } finally {
+        originalBitmap.close();
+        editedBitmap.close();
+    }
+};
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { CubeLut } from './cubeLut';
+import { LUTS_STORE, openDatabase, requestResult, transactionDone } from './database';
+
+/**
+ * LUT 预设：导入的 .cube 文件解析后保存在 IndexedDB 中（33³ 的 LUT 约 400 KB，
+ * 放不进 localStorage），和内置的滤镜预设一起列出。
+ * 历史记录只保存预设的 id、名称和强度。
+ */
+
+export interface LutPreset {
+    id: string;
+    name: string;
+    lut: CubeLut;
+    createdAt: number;
+}
+
+export const createLutPreset = (name: string, lut: CubeLut): LutPreset => ({
+    id: `lut-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    lut,
+    createdAt: Date.now(),
+});
+
+export const listLutPresets = async (): Promise<LutPreset[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(LUTS_STORE, 'readonly');
+    const presets = await requestResult(tx.objectStore(LUTS_STORE).getAll() as IDBRequest<LutPreset[]>);
+    return presets.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveLutPreset = async (preset: LutPreset): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(LUTS_STORE, 'readwrite');
+    tx.objectStore(LUTS_STORE).put(preset);
+    await transactionDone(tx);
+};
+
+export const deleteLutPreset = async (id: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(LUTS_STORE, 'readwrite');
+    tx.objectStore(LUTS_STORE).delete(id);
+    await transactionDone(tx);
+};
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 涂抹蒙版：PNG data URL，alpha 通道表示涂抹的程度，颜色只用于在画布上显示。
+ * 蒙版按图片宽高比保存，最长边不超过 MAX_MASK_SIZE，使用时再缩放到需要的尺寸。
+ */
+
+// 足够覆盖羽化后的边缘，又不会让历史记录变得太大
+const MAX_MASK_SIZE = 1024;
+export const MASK_COLOR = 'rgb(59, 130, 246)';
+
+// 与图片宽高比相同的蒙版尺寸
+export const maskCanvasSize = (width: number, height: number) => {
+    const scale = Math.min(1, MAX_MASK_SIZE / Math.max(width, height));
+    return {
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale)),
+        scale,
+    };
+};
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('无法读取蒙版。'));
+    image.src = src;
+});
+
+// 把蒙版画到 width×height 上并读出像素；没有蒙版时全部透明
+const readMaskPixels = async (mask: string | null, width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('无法创建画布来处理蒙版。');
+    }
+    if (mask) {
+        ctx.drawImage(await loadImage(mask), 0, 0, width, height);
+    }
+    return { canvas, ctx, pixels: ctx.getImageData(0, 0, width, height) };
+};
+
+/**
+ * 蒙版在 width×height 上的涂抹范围：涂抹过（包括羽化的边缘）的像素为 1，其余为 0。
+ */
+export const rasterizeMask = async (mask: string, width: number, height: number): Promise<Uint8Array> => {
+    const { pixels } = await readMaskPixels(mask, width, height);
+    const covered = new Uint8Array(width * height);
+    for (let p = 0; p < covered.length; p++) {
+        covered[p] = pixels.data[p * 4 + 3] > 0 ? 1 : 0;
+    }
+    return covered;
+};
+
+/**
+ * 反转蒙版：涂抹过的地方变为未涂抹，反之亦然。width/height 为图片原始尺寸。
+ */
+export const invertMask = async (mask: string | null, width: number, height: number): Promise<string> => {
+    const size = maskCanvasSize(width, height);
+    const { canvas, ctx, pixels } = await readMaskPixels(mask, size.width, size.height);
+    const [r, g, b] = MASK_COLOR.match(/\d+/g)!.map(Number);
+    for (let i = 0; i < pixels.data.length; i += 4) {
+        pixels.data[i] = r;
+        pixels.data[i + 1] = g;
+        pixels.data[i + 2] = b;
+        pixels.data[i + 3] = 255 - pixels.data[i + 3];
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * 转换为发给模型的黑白蒙版：白色为要修改的区域，尺寸与发送的图片一致。
+ */
+export const renderMaskForModel = async (mask: string, width: number, height: number): Promise<Blob> => {
+    const { canvas, ctx, pixels } = await readMaskPixels(mask, width, height);
+    for (let i = 0; i < pixels.data.length; i += 4) {
+        const value = pixels.data[i + 3] >= 128 ? 255 : 0;
+        pixels.data[i] = value;
+        pixels.data[i + 1] = value;
+        pixels.data[i + 2] = value;
+        pixels.data[i + 3] = 255;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('无法导出蒙版。')), 'image/png');
+    });
+};
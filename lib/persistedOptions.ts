@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 保存在 localStorage 中的设置：读取时与默认值合并（以后新增的字段取默认值），
+ * 修改时合并后立即保存。localStorage 不可用（隐私模式、配额已满）时只在本次会话中生效。
+ */
+
+export interface PersistedOptions<T> {
+    get: () => T;
+    // 合并修改并保存，返回修改后的设置
+    set: (next: Partial<T>) => T;
+}
+
+// name 用于保存失败时的日志，例如 'scheduler'
+export const createPersistedOptions = <T extends object>(storageKey: string, defaults: T, name: string): PersistedOptions<T> => {
+    let options: T = (() => {
+        try {
+            const saved = localStorage.getItem(storageKey);
+            return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+        } catch {
+            return defaults;
+        }
+    })();
+
+    return {
+        get: () => options,
+        set: next => {
+            options = { ...options, ...next };
+            try {
+                localStorage.setItem(storageKey, JSON.stringify(options));
+            } catch (e) {
+                console.warn(`Failed to persist ${name} options`, e);
+            }
+            return options;
+        },
+    };
+};
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BatchResult } from '../types';
+import type { HistoryNode, HistoryTree, OperationImages } from './historyTree';
+import { createPreviewUrl, getImage, putImage } from './imageStore';
+import { createProject, type ProjectBatch, type ProjectMeta, type ProjectState } from './projectStore';
+import { createZip, readZip } from './zipUtils';
+
+/**
+ * 可移植的项目文件：一个 zip 包，包含 project.json 和所有图片。
+ * project.json 中的 File/Blob 替换为 `{ $file: 路径 }` 引用，同一个文件只打包一次
+ * （例如被多个历史节点引用的合成素材图）。
+ */
+
+export const PROJECT_ARCHIVE_EXTENSION = '.aiceps';
+
+const ARCHIVE_FORMAT = 'aice-ps-project';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_NAME = 'project.json';
+
+interface ArchivedFile {
+    $file: string;
+    name?: string;
+    type: string;
+    lastModified?: number;
+}
+
+// 图片键和预览图的 blob URL 只在当前页面有效，打包时换成图片本身
+type ArchivedNode<T> = Omit<HistoryNode<T>, 'imageKey'> & { image: Blob };
+
+interface ArchivedTree<T> extends Omit<HistoryTree<T>, 'nodes'> {
+    nodes: Record<string, ArchivedNode<T>>;
+}
+
+type ArchivedBatchResult = Omit<BatchResult, 'imageUrl' | 'imageKey'> & { image?: Blob };
+
+interface ArchivedBatch<T> extends Omit<ProjectBatch<T>, 'results'> {
+    results: ArchivedBatchResult[];
+}
+
+interface ArchivedState<T> extends Omit<ProjectState<T>, 'tree' | 'adjustment' | 'fusion'> {
+    tree: ArchivedTree<T>;
+    adjustment: ArchivedBatch<T>;
+    fusion: ArchivedBatch<T>;
+    // 操作引用的图片（例如图层），按操作中保存的键索引
+    operationImages?: Record<string, Blob>;
+}
+
+interface Manifest<T> {
+    format: string;
+    version: number;
+    meta: ProjectMeta;
+    state: ArchivedState<T>;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/webp': '.webp',
+    'image/gif': '.gif',
+};
+
+const isArchivedFile = (value: unknown): value is ArchivedFile =>
+    typeof value === 'object' && value !== null && typeof (value as ArchivedFile).$file === 'string';
+
+const archiveBatch = async <T>(batch: ProjectBatch<T>): Promise<ArchivedBatch<T>> => ({
+    input: batch.input,
+    results: await Promise.all(batch.results.map(async ({ imageUrl, imageKey, ...result }) =>
+        imageKey ? { ...result, image: await getImage(imageKey) } : result
+    )),
+});
+
+const restoreBatch = async <T>(batch: ArchivedBatch<T>): Promise<ProjectBatch<T>> => ({
+    input: batch.input,
+    results: await Promise.all(batch.results.map(async ({ image, ...result }) =>
+        image ? { ...result, imageKey: putImage(image), imageUrl: await createPreviewUrl(image) } : result
+    )),
+});
+
+const archiveTree = async <T>(tree: HistoryTree<T>): Promise<ArchivedTree<T>> => {
+    const nodes: Record<string, ArchivedNode<T>> = {};
+    for (const { imageKey, ...node } of Object.values(tree.nodes)) {
+        nodes[node.id] = { ...node, image: await getImage(imageKey) };
+    }
+    return { ...tree, nodes };
+};
+
+const archiveOperationImages = async <T>(tree: HistoryTree<T>, operationImages: OperationImages<T>): Promise<Record<string, Blob>> => {
+    const images: Record<string, Blob> = {};
+    for (const { operation } of Object.values(tree.nodes)) {
+        for (const key of operation ? operationImages.keys(operation) : []) {
+            images[key] ??= await getImage(key);
+        }
+    }
+    return images;
+};
+
+const restoreTree = <T>(tree: ArchivedTree<T>, images: Record<string, Blob> = {}, operationImages?: OperationImages<T>): HistoryTree<T> => {
+    // 多个节点共用的操作图片只放入一次
+    const restoredKeys = new Map<string, string>();
+    const restoreImage = (key: string) => {
+        let restored = restoredKeys.get(key);
+        if (!restored) {
+            if (!images[key]) {
+                throw new Error('项目文件已损坏：缺少图层等操作引用的图片。');
+            }
+            restored = putImage(images[key]);
+            restoredKeys.set(key, restored);
+        }
+        return restored;
+    };
+    const nodes: Record<string, HistoryNode<T>> = {};
+    Object.values(tree.nodes).forEach(({ image, ...node }) => {
+        const operation = node.operation && operationImages ? operationImages.replaceKeys(node.operation, restoreImage) : node.operation;
+        nodes[node.id] = { ...node, imageKey: putImage(image), operation };
+    });
+    return { ...tree, nodes };
+};
+
+/**
+ * 把项目（全部历史图片、操作记录、批量结果及其输入）打包成一个文件。
+ */
+export const exportProjectArchive = async <T>(meta: ProjectMeta, state: ProjectState<T>, operationImages?: OperationImages<T>): Promise<Blob> => {
+    const manifest: Manifest<T> = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        meta,
+        state: {
+            ...state,
+            tree: await archiveTree(state.tree),
+            adjustment: await archiveBatch(state.adjustment),
+            fusion: await archiveBatch(state.fusion),
+            operationImages: operationImages && await archiveOperationImages(state.tree, operationImages),
+        },
+    };
+
+    const files = new Map<Blob, string>();
+    const json = JSON.stringify(manifest, (_, value) => {
+        if (!(value instanceof Blob)) {
+            return value;
+        }
+        let path = files.get(value);
+        if (!path) {
+            path = `images/${String(files.size + 1).padStart(4, '0')}${MIME_EXTENSIONS[value.type] ?? ''}`;
+            files.set(value, path);
+        }
+        const archived: ArchivedFile = {
+            $file: path,
+            name: value instanceof File ? value.name : undefined,
+            type: value.type,
+            lastModified: value instanceof File ? value.lastModified : undefined,
+        };
+        return archived;
+    }, 2);
+
+    const images = await Promise.all([...files].map(async ([blob, name]) => ({
+        name,
+        data: new Uint8Array(await blob.arrayBuffer()),
+    })));
+    return createZip([{ name: MANIFEST_NAME, data: new TextEncoder().encode(json) }, ...images]);
+};
+
+/**
+ * 打开项目文件并还原项目状态。导入的项目获得新的 ID，不会覆盖本地已有的项目。
+ * 图片放入 imageStore；批量结果的预览图重新生成 blob URL，由调用方负责释放。
+ */
+export const importProjectArchive = async <T>(file: Blob, operationImages?: OperationImages<T>): Promise<{ meta: ProjectMeta; state: ProjectState<T> }> => {
+    const entries = await readZip(file);
+    const manifestData = entries.get(MANIFEST_NAME);
+    if (!manifestData) {
+        throw new Error('不是有效的项目文件：缺少 project.json。');
+    }
+
+    const manifest: Manifest<T> = JSON.parse(new TextDecoder().decode(manifestData), (_, value) => {
+        if (!isArchivedFile(value)) {
+            return value;
+        }
+        const data = entries.get(value.$file);
+        if (!data) {
+            throw new Error(`项目文件已损坏：缺少 ${value.$file}`);
+        }
+        return new File([data], value.name ?? value.$file.slice(value.$file.lastIndexOf('/') + 1), {
+            type: value.type,
+            lastModified: value.lastModified,
+        });
+    });
+    if (manifest.format !== ARCHIVE_FORMAT) {
+        throw new Error('不是有效的项目文件。');
+    }
+    if (manifest.version > ARCHIVE_VERSION) {
+        throw new Error('项目文件由更新版本的应用创建，请升级后再打开。');
+    }
+
+    const { operationImages: images, ...state } = manifest.state;
+    return {
+        meta: { ...createProject(manifest.meta.name), createdAt: manifest.meta.createdAt },
+        state: {
+            ...state,
+            tree: restoreTree(state.tree, images, operationImages),
+            adjustment: await restoreBatch(state.adjustment),
+            fusion: await restoreBatch(state.fusion),
+        },
+    };
+};
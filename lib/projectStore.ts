@@ -0,0 +1,303 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BatchResult } from '../types';
+import { getHistoryImageKeys, type HistoryNode, type HistoryTree, type OperationImages } from './historyTree';
+import { IMAGES_STORE, PROJECTS_STORE, STATES_STORE, openDatabase, prefixKeyRange, requestResult, transactionDone } from './database';
+import { addStoredImages, createPreviewUrl, getImage } from './imageStore';
+
+/**
+ * 项目持久化：把编辑历史、批量结果和未提交的提示词保存到 IndexedDB，
+ * 刷新页面或标签页崩溃后可以从开始页恢复。
+ *
+ * 三个对象仓库：
+ * - projects：项目摘要，用于列出最近的项目
+ * - states：历史树结构、批量结果和输入，图片只保存键
+ * - images：图片本身，键为 `${projectId}/...`；图片不可变，只写入一次
+ *
+ * 编辑中的图片在 imageStore 里，保存时按需读取；恢复时不复制图片，
+ * imageStore 直接沿用项目中的键，需要时再从 images 读取。
+ */
+
+export interface ProjectMeta {
+    id: string;
+    name: string;
+    createdAt: number;
+}
+
+export interface ProjectSummary extends ProjectMeta {
+    updatedAt: number;
+    stepCount: number;
+    // 当前状态的图片，列表中作为缩略图
+    thumbnail?: File;
+}
+
+// 批量生成的输入，应用或重试某个结果时使用
+export interface BatchInput<T> {
+    imageFile: File;
+    sourceImages?: File[];
+    parentId: string;
+    operation: T;
+}
+
+export interface ProjectBatch<T> {
+    results: BatchResult[];
+    input: BatchInput<T> | null;
+}
+
+export interface ProjectState<T> {
+    tree: HistoryTree<T>;
+    adjustment: ProjectBatch<T>;
+    fusion: ProjectBatch<T>;
+    retouchPrompt: string;
+}
+
+export interface LoadedProject<T> {
+    meta: ProjectMeta;
+    state: ProjectState<T>;
+    // 在本地存储中找不到的图片数量，相关的步骤和结果无法显示
+    missingImages: number;
+}
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+}
+
+interface SummaryRecord extends ProjectMeta {
+    updatedAt: number;
+    stepCount: number;
+    thumbnailKey: string;
+}
+
+// imageKey 换成项目图片的键
+type StoredNode<T> = HistoryNode<T>;
+
+// 预览图的 blob URL 无法跨会话保存，恢复时重新生成；imageKey 换成项目图片的键
+type StoredBatchResult = Omit<BatchResult, 'imageUrl'>;
+
+interface StoredBatch<T> {
+    results: StoredBatchResult[];
+    input: BatchInput<T> | null;
+}
+
+interface StateRecord<T> {
+    id: string;
+    nodes: Record<string, StoredNode<T>>;
+    rootId: string;
+    currentId: string;
+    adjustment: StoredBatch<T>;
+    fusion: StoredBatch<T>;
+    retouchPrompt: string;
+}
+
+const nodeImageKey = (projectId: string, nodeId: string) => `${projectId}/node/${nodeId}`;
+
+/**
+ * 批量结果和操作引用的图片（例如多个节点共用的图层）按 imageStore 的键保存，
+ * 键在会话内唯一，同一张图片只保存一次。从这个项目恢复的图片已经是项目的键，原样沿用。
+ */
+const projectImageKey = (projectId: string, kind: 'result' | 'operation', imageKey: string) =>
+    imageKey.startsWith(`${projectId}/`) ? imageKey : `${projectId}/${kind}/${imageKey.replace('/', '-')}`;
+
+// 项目中已经保存的图片键
+const readImageKeys = async (projectId: string): Promise<Set<string>> => {
+    const db = await openDatabase();
+    const tx = db.transaction(IMAGES_STORE, 'readonly');
+    return new Set(await requestResult(tx.objectStore(IMAGES_STORE).getAllKeys(prefixKeyRange(projectId))) as string[]);
+};
+
+// 保存按顺序执行，避免较早的保存在清理过期图片时删掉较新保存写入的图片
+let saveQueue: Promise<void> = Promise.resolve();
+
+export const createProject = (name: string): ProjectMeta => ({
+    id: `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt: Date.now(),
+});
+
+// 需要写入的新图片。已经在项目中的图片（包括从项目恢复、键没变的图片）不再读取和写入
+type PendingImages = (key: string, sourceKey: string) => Promise<void>;
+
+const storeBatch = async <T>(
+    projectId: string,
+    batch: ProjectBatch<T>,
+    storeImage: PendingImages
+): Promise<StoredBatch<T>> => ({
+    input: batch.input,
+    results: await Promise.all(batch.results.map(async ({ imageUrl, ...result }) => {
+        if (!result.imageKey) return result;
+        const imageKey = projectImageKey(projectId, 'result', result.imageKey);
+        await storeImage(imageKey, result.imageKey);
+        return { ...result, imageKey };
+    })),
+});
+
+const writeProject = async <T>(meta: ProjectMeta, state: ProjectState<T>, operationImages?: OperationImages<T>) => {
+    const { tree } = state;
+    const savedKeys = await readImageKeys(meta.id);
+    // 新图片先全部准备好：事务中途等待其他异步操作会导致事务自动提交
+    const images = new Map<string, Blob>();
+    const storeImage: PendingImages = async (key, sourceKey) => {
+        if (key !== sourceKey && !savedKeys.has(key) && !images.has(key)) {
+            images.set(key, await getImage(sourceKey));
+        }
+    };
+    const nodes: Record<string, StoredNode<T>> = {};
+    for (const node of Object.values(tree.nodes)) {
+        const imageKey = nodeImageKey(meta.id, node.id);
+        await storeImage(imageKey, node.imageKey);
+        let { operation } = node;
+        if (operation && operationImages) {
+            for (const key of operationImages.keys(operation)) {
+                await storeImage(projectImageKey(meta.id, 'operation', key), key);
+            }
+            operation = operationImages.replaceKeys(operation, key => projectImageKey(meta.id, 'operation', key));
+        }
+        nodes[node.id] = { ...node, imageKey, operation };
+    }
+    const adjustment = await storeBatch(meta.id, state.adjustment, storeImage);
+    const fusion = await storeBatch(meta.id, state.fusion, storeImage);
+
+    const liveKeys = new Set([
+        ...getHistoryImageKeys({ ...tree, nodes }, operationImages),
+        ...[...adjustment.results, ...fusion.results].flatMap(result => result.imageKey ? [result.imageKey] : []),
+    ]);
+
+    const db = await openDatabase();
+    const tx = db.transaction([PROJECTS_STORE, STATES_STORE, IMAGES_STORE], 'readwrite');
+    const imageStore = tx.objectStore(IMAGES_STORE);
+    images.forEach((blob, key) => imageStore.put(blob, key));
+    // 清理已删除节点和已丢弃结果的图片；保存按顺序执行，期间不会有其他保存写入新图片
+    savedKeys.forEach(key => {
+        if (!liveKeys.has(key)) imageStore.delete(key);
+    });
+    const record: StateRecord<T> = {
+        id: meta.id,
+        nodes,
+        rootId: tree.rootId,
+        currentId: tree.currentId,
+        adjustment,
+        fusion,
+        retouchPrompt: state.retouchPrompt,
+    };
+    tx.objectStore(STATES_STORE).put(record);
+    const summary: SummaryRecord = {
+        ...meta,
+        updatedAt: Date.now(),
+        stepCount: Object.keys(nodes).length,
+        thumbnailKey: nodes[tree.currentId].imageKey,
+    };
+    tx.objectStore(PROJECTS_STORE).put(summary);
+    await transactionDone(tx);
+};
+
+/**
+ * 保存项目的完整状态。只有新出现的图片会被写入，不再引用的图片会被删除。
+ */
+export const saveProject = <T>(meta: ProjectMeta, state: ProjectState<T>, operationImages?: OperationImages<T>): Promise<void> => {
+    const result = saveQueue.then(() => writeProject(meta, state, operationImages));
+    saveQueue = result.catch(() => undefined);
+    return result;
+};
+
+/**
+ * 读取项目。图片不复制，登记到 imageStore 后按需读取；
+ * 批量结果的预览图重新生成 blob URL，由调用方负责释放。
+ * 项目不存在时返回 null。
+ */
+export const loadProject = async <T>(id: string, operationImages?: OperationImages<T>): Promise<LoadedProject<T> | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction([PROJECTS_STORE, STATES_STORE, IMAGES_STORE], 'readonly');
+    const [summary, record, keys] = await Promise.all([
+        requestResult(tx.objectStore(PROJECTS_STORE).get(id) as IDBRequest<SummaryRecord | undefined>),
+        requestResult(tx.objectStore(STATES_STORE).get(id) as IDBRequest<StateRecord<T> | undefined>),
+        requestResult(tx.objectStore(IMAGES_STORE).getAllKeys(prefixKeyRange(id))),
+    ]);
+    if (!summary || !record) {
+        return null;
+    }
+
+    const savedKeys = new Set(keys as string[]);
+    addStoredImages([...savedKeys]);
+    const missing = new Set<string>();
+    Object.values(record.nodes).forEach(node => {
+        [node.imageKey, ...(node.operation && operationImages ? operationImages.keys(node.operation) : [])]
+            .filter(key => !savedKeys.has(key))
+            .forEach(key => missing.add(key));
+    });
+
+    // 图片丢失的结果标记为失败，可以重新生成
+    const restoreBatch = async (batch: StoredBatch<T>): Promise<ProjectBatch<T>> => ({
+        input: batch.input,
+        results: await Promise.all(batch.results.map(async ({ imageKey, ...result }): Promise<BatchResult> => {
+            if (!imageKey) return result;
+            if (!savedKeys.has(imageKey)) {
+                missing.add(imageKey);
+                return { ...result, status: 'error', errorCode: 'UNKNOWN', errorMessage: '图片已从本地存储中丢失。' };
+            }
+            return { ...result, imageKey, imageUrl: await createPreviewUrl(await getImage(imageKey)) };
+        })),
+    });
+    const adjustment = await restoreBatch(record.adjustment);
+    const fusion = await restoreBatch(record.fusion);
+
+    return {
+        meta: { id, name: summary.name, createdAt: summary.createdAt },
+        state: {
+            tree: { nodes: record.nodes, rootId: record.rootId, currentId: record.currentId },
+            adjustment,
+            fusion,
+            retouchPrompt: record.retouchPrompt,
+        },
+        missingImages: missing.size,
+    };
+};
+
+// 最近的项目，按最后保存时间倒序
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    await saveQueue;
+    const db = await openDatabase();
+    const tx = db.transaction([PROJECTS_STORE, IMAGES_STORE], 'readonly');
+    const summaries = await requestResult(tx.objectStore(PROJECTS_STORE).getAll() as IDBRequest<SummaryRecord[]>);
+    const imageStore = tx.objectStore(IMAGES_STORE);
+    const thumbnails = await Promise.all(summaries.map(summary =>
+        requestResult(imageStore.get(summary.thumbnailKey) as IDBRequest<File | undefined>)
+    ));
+    return summaries
+        .map(({ thumbnailKey, ...summary }, index) => ({ ...summary, thumbnail: thumbnails[index] }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await saveQueue;
+    const db = await openDatabase();
+    const tx = db.transaction([PROJECTS_STORE, STATES_STORE, IMAGES_STORE], 'readwrite');
+    tx.objectStore(PROJECTS_STORE).delete(id);
+    tx.objectStore(STATES_STORE).delete(id);
+    tx.objectStore(IMAGES_STORE).delete(prefixKeyRange(id));
+    await transactionDone(tx);
+};
+
+// 只保留最近的 keep 个项目，返回删除的数量
+export const pruneProjects = async (keep: number): Promise<number> => {
+    const stale = (await listProjects()).slice(keep);
+    for (const project of stale) {
+        await deleteProject(project.id);
+    }
+    return stale.length;
+};
+
+// 浏览器不支持 StorageManager 时返回 null
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) {
+        return null;
+    }
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+};
+
+// 等待所有排队中的保存完成
+export const whenProjectsSaved = (): Promise<void> => saveQueue;
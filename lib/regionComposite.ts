@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { EditResult } from '../types';
+import { createPersistedOptions } from './persistedOptions';
+
+/**
+ * 保留未编辑区域：模型输出经过缩放和重新采样，哪怕只改了一小块也会让整张照片变模糊、
+ * 甚至改变尺寸。这里把模型输出对齐到原图，只在发生变化（或用户涂抹）的区域内
+ * 合成回原图的全分辨率像素，边缘做羽化过渡。
+ */
+
+export type PreserveMode = 'off' | 'auto' | 'brush';
+
+export interface PreserveOptions {
+    // off：直接使用模型输出；auto：自动检测变化区域；brush：只保留用户涂抹的区域
+    mode: PreserveMode;
+    // 羽化半径（原图像素）
+    feather: number;
+}
+
+// 一次编辑实际使用的合成设置，记录在历史中，重新生成时沿用
+export interface PreserveSettings {
+    feather: number;
+    // 用户涂抹的蒙版（PNG data URL，alpha 通道表示保留模型输出的程度）；没有时自动检测
+    mask?: string;
+}
+
+const STORAGE_KEY = 'aice-ps:preserve';
+
+const DEFAULT_OPTIONS: PreserveOptions = {
+    mode: 'off',
+    feather: 16,
+};
+
+const persistedOptions = createPersistedOptions<PreserveOptions>(STORAGE_KEY, DEFAULT_OPTIONS, 'preserve');
+
+export const getPreserveOptions = (): PreserveOptions => persistedOptions.get();
+
+export const setPreserveOptions = (next: Partial<PreserveOptions>) => {
+    persistedOptions.set(next);
+};
+
+// 对齐时在这个尺寸上搜索平移，最多偏移 MAX_SHIFT 像素
+const ALIGN_SIZE = 256;
+const MAX_SHIFT = 4;
+// 变化蒙版在这个尺寸上计算，再放大到原图尺寸
+const MASK_SIZE = 512;
+// 通道差异超过这个值（0–1）视为发生变化
+const CHANGE_THRESHOLD = 0.08;
+// 自动蒙版向外扩张的像素（蒙版尺寸），盖住变化区域边缘的过渡像素
+const MASK_DILATE = 2;
+
+const loadBitmap = async (source: Blob | string): Promise<ImageBitmap> =>
+    createImageBitmap(typeof source === 'string' ? await (await fetch(source)).blob() : source);
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('无法创建画布来合成图片。');
+    }
+    return { canvas, ctx };
+};
+
+// 把图片画到 width×height（可带平移）并读出像素
+const readPixels = (bitmap: ImageBitmap, width: number, height: number, offsetX = 0, offsetY = 0) => {
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(bitmap, offsetX, offsetY, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+const toLuminance = (data: Uint8ClampedArray) => {
+    const result = new Float32Array(data.length / 4);
+    for (let p = 0, i = 0; p < result.length; p++, i += 4) {
+        result[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+    return result;
+};
+
+/**
+ * 在小尺寸上搜索让两张图最吻合的平移，返回相对图片宽高的比例。
+ * 模型输出会被拉伸到原图尺寸，这里只需要修正残余的整体偏移。
+ */
+const findAlignment = (original: ImageBitmap, edited: ImageBitmap) => {
+    const scale = Math.min(1, ALIGN_SIZE / Math.max(original.width, original.height));
+    const width = Math.max(1, Math.round(original.width * scale));
+    const height = Math.max(1, Math.round(original.height * scale));
+    const a = toLuminance(readPixels(original, width, height));
+    const b = toLuminance(readPixels(edited, width, height));
+
+    let best = { x: 0, y: 0, error: Infinity };
+    for (let dy = -MAX_SHIFT; dy <= MAX_SHIFT; dy++) {
+        for (let dx = -MAX_SHIFT; dx <= MAX_SHIFT; dx++) {
+            let error = 0;
+            for (let y = MAX_SHIFT; y < height - MAX_SHIFT; y++) {
+                for (let x = MAX_SHIFT; x < width - MAX_SHIFT; x++) {
+                    error += Math.abs(a[y * width + x] - b[(y - dy) * width + (x - dx)]);
+                }
+            }
+            // 同样吻合时优先不平移
+            if (error < best.error || (error === best.error && dx === 0 && dy === 0)) {
+                best = { x: dx, y: dy, error };
+            }
+        }
+    }
+    return { x: best.x / width, y: best.y / height };
+};
+
+// 可分离的盒式滤波；mode 为 max 时做膨胀
+const filterPass = (values: Float32Array, width: number, height: number, radius: number, mode: 'mean' | 'max') => {
+    if (radius < 1) return values;
+    const r = Math.round(radius);
+    const temp = new Float32Array(values.length);
+    const result = new Float32Array(values.length);
+    const apply = (source: Float32Array, target: Float32Array, length: number, lines: number, index: (line: number, i: number) => number) => {
+        for (let line = 0; line < lines; line++) {
+            for (let i = 0; i < length; i++) {
+                let value = 0;
+                let count = 0;
+                for (let k = Math.max(0, i - r); k <= Math.min(length - 1, i + r); k++) {
+                    const v = source[index(line, k)];
+                    value = mode === 'max' ? Math.max(value, v) : value + v;
+                    count++;
+                }
+                target[index(line, i)] = mode === 'max' ? value : value / count;
+            }
+        }
+    };
+    apply(values, temp, width, height, (y, x) => y * width + x);
+    apply(temp, result, height, width, (x, y) => y * width + x);
+    return result;
+};
+
+// 三次盒式滤波近似高斯模糊
+const feather = (mask: Float32Array, width: number, height: number, radius: number) => {
+    let result = mask;
+    for (let pass = 0; pass < 3; pass++) {
+        result = filterPass(result, width, height, radius / 2, 'mean');
+    }
+    return result;
+};
+
+const detectChanges = (original: ImageBitmap, edited: ImageBitmap, width: number, height: number, offsetX: number, offsetY: number) => {
+    const a = readPixels(original, width, height);
+    const b = readPixels(edited, width, height, offsetX, offsetY);
+    const diff = new Float32Array(width * height);
+    for (let p = 0, i = 0; p < diff.length; p++, i += 4) {
+        diff[p] = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2])) / 255;
+    }
+    // 先平滑掉重新编码产生的零散噪点，再二值化并向外扩张
+    const smoothed = filterPass(diff, width, height, 1, 'mean');
+    const binary = smoothed.map(value => value > CHANGE_THRESHOLD ? 1 : 0);
+    return filterPass(binary, width, height, MASK_DILATE, 'max');
+};
+
+const readMask = async (mask: string, width: number, height: number) => {
+    const bitmap = await loadBitmap(mask);
+    const data = readPixels(bitmap, width, height);
+    bitmap.close();
+    const result = new Float32Array(width * height);
+    for (let p = 0; p < result.length; p++) {
+        result[p] = data[p * 4 + 3] / 255;
+    }
+    return result;
+};
+
+/**
+ * 把模型输出只合成回原图中发生变化（或涂抹）的区域，返回与原图尺寸相同的 PNG data URL。
+ * 本地计算的结果与原图逐像素对应，传 align: false 跳过对齐搜索。
+ */
+export const compositeChangedRegion = async (
+    original: Blob,
+    edited: Blob | string,
+    settings: PreserveSettings,
+    { align = true }: { align?: boolean } = {},
+): Promise<string> => {
+    const [originalBitmap, editedBitmap] = await Promise.all([loadBitmap(original), loadBitmap(edited)]);
+    try {
+        const { width, height } = originalBitmap;
+        const alignment = align ? findAlignment(originalBitmap, editedBitmap) : { x: 0, y: 0 };
+
+        const scale = Math.min(1, MASK_SIZE / Math.max(width, height));
+        const maskWidth = Math.max(1, Math.round(width * scale));
+        const maskHeight = Math.max(1, Math.round(height * scale));
+        const rawMask = settings.mask
+            ? await readMask(settings.mask, maskWidth, maskHeight)
+            : detectChanges(originalBitmap, editedBitmap, maskWidth, maskHeight, alignment.x * maskWidth, alignment.y * maskHeight);
+        const mask = feather(rawMask, maskWidth, maskHeight, settings.feather * scale);
+
+        const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(maskWidth, maskHeight);
+        const maskImage = maskCtx.createImageData(maskWidth, maskHeight);
+        for (let p = 0; p < mask.length; p++) {
+            maskImage.data[p * 4] = 255;
+            maskImage.data[p * 4 + 1] = 255;
+            maskImage.data[p * 4 + 2] = 255;
+            maskImage.data[p * 4 + 3] = Math.round(mask[p] * 255);
+        }
+        maskCtx.putImageData(maskImage, 0, 0);
+
+        // 对齐后的模型输出只留下蒙版内的部分，再垫上原图的全分辨率像素
+        const { canvas, ctx } = createCanvas(width, height);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(editedBitmap, alignment.x * width, alignment.y * height, width, height);
+        ctx.globalCompositeOperation = 'destination-in';
+        ctx.drawImage(maskCanvas, 0, 0, width, height);
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.drawImage(originalBitmap, 0, 0);
+        return canvas.toDataURL('image/png');
+    } finally {
+        originalBitmap.close();
+        editedBitmap.close();
+    }
+};
+
+/**
+ * 包装一个生成任务：给出合成设置时，把结果合成回 getOriginal 读取的原图。
+ */
+export const withPreservedRegions = (
+    task: (signal: AbortSignal) => Promise<EditResult>,
+    getOriginal: () => Promise<Blob>,
+    settings: PreserveSettings | undefined,
+): ((signal: AbortSignal) => Promise<EditResult>) => {
+    if (!settings) return task;
+    return async signal => {
+        const result = await task(signal);
+        return { ...result, dataUrl: await compositeChangedRegion(await getOriginal(), result.dataUrl, settings) };
+    };
+};
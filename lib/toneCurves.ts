@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 曲线和色阶：精确控制影调的本地工具，和即时调整一样在浏览器里计算。
+ * 色阶先把黑场、白场和灰度（伽马）映射到 0–255，再依次经过 RGB 曲线和各通道曲线，
+ * 三步合成每个通道的一张查找表，所以预览、直方图和最终输出都只是查表。
+ */
+
+export type ToneChannel = 'rgb' | 'red' | 'green' | 'blue';
+
+// 曲线上的控制点，输入和输出都是 0–255
+export interface CurvePoint {
+    x: number;
+    y: number;
+}
+
+export interface Levels {
+    // 输入黑场、白场，0–255
+    black: number;
+    white: number;
+    // 中间调的伽马，大于 1 提亮
+    gamma: number;
+}
+
+export interface ToneSettings {
+    levels: Levels;
+    curves: Record<ToneChannel, CurvePoint[]>;
+}
+
+export interface Histogram {
+    red: Uint32Array;
+    green: Uint32Array;
+    blue: Uint32Array;
+}
+
+export const TONE_CHANNELS: { value: ToneChannel; label: string }[] = [
+    { value: 'rgb', label: 'RGB' },
+    { value: 'red', label: '红' },
+    { value: 'green', label: '绿' },
+    { value: 'blue', label: '蓝' },
+];
+
+export const MIN_GAMMA = 0.1;
+export const MAX_GAMMA = 9.99;
+
+const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const DEFAULT_TONE_SETTINGS: ToneSettings = {
+    levels: { black: 0, white: 255, gamma: 1 },
+    curves: { rgb: IDENTITY_CURVE, red: IDENTITY_CURVE, green: IDENTITY_CURVE, blue: IDENTITY_CURVE },
+};
+
+// 直方图在缩小的图片上统计，足够反映分布
+const HISTOGRAM_SIZE = 512;
+
+const isIdentityCurve = (points: CurvePoint[]) => points.every(point => point.x === point.y);
+
+export const isDefaultTone = ({ levels, curves }: ToneSettings) =>
+    levels.black === 0 && levels.white === 255 && levels.gamma === 1
+    && TONE_CHANNELS.every(({ value }) => isIdentityCurve(curves[value]));
+
+/**
+ * 经过控制点的单调三次插值（Fritsch–Carlson），曲线不会在点之间过冲。
+ * 第一个点之前和最后一个点之后保持水平。
+ */
+export const buildCurveTable = (curve: CurvePoint[]): Uint8Array => {
+    const points = [...curve].sort((a, b) => a.x - b.x);
+    const table = new Uint8Array(256);
+    const n = points.length;
+    if (n === 0) {
+        table.forEach((_, i) => { table[i] = i; });
+        return table;
+    }
+    if (n === 1) {
+        table.fill(Math.round(points[0].y));
+        return table;
+    }
+
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        const dx = points[i + 1].x - points[i].x;
+        slopes.push(dx === 0 ? 0 : (points[i + 1].y - points[i].y) / dx);
+    }
+    const tangents = points.map((_, i) => {
+        if (i === 0) return slopes[0];
+        if (i === n - 1) return slopes[n - 2];
+        return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+    });
+    for (let i = 0; i < n - 1; i++) {
+        if (slopes[i] === 0) {
+            tangents[i] = 0;
+            tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / slopes[i];
+        const b = tangents[i + 1] / slopes[i];
+        const length = Math.hypot(a, b);
+        if (length > 3) {
+            tangents[i] = (3 * a / length) * slopes[i];
+            tangents[i + 1] = (3 * b / length) * slopes[i];
+        }
+    }
+
+    let segment = 0;
+    for (let x = 0; x < 256; x++) {
+        let y: number;
+        if (x <= points[0].x) {
+            y = points[0].y;
+        } else if (x >= points[n - 1].x) {
+            y = points[n - 1].y;
+        } else {
+            while (x > points[segment + 1].x) segment++;
+            const p0 = points[segment];
+            const p1 = points[segment + 1];
+            const h = p1.x - p0.x;
+            const t = (x - p0.x) / h;
+            const t2 = t * t;
+            const t3 = t2 * t;
+            y = (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * h * tangents[segment]
+                + (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * h * tangents[segment + 1];
+        }
+        table[x] = Math.round(Math.min(255, Math.max(0, y)));
+    }
+    return table;
+};
+
+const buildLevelsTable = ({ black, white, gamma }: Levels): Uint8Array => {
+    const table = new Uint8Array(256);
+    const range = Math.max(1, white - black);
+    for (let i = 0; i < 256; i++) {
+        const v = Math.min(1, Math.max(0, (i - black) / range));
+        table[i] = Math.round(Math.pow(v, 1 / gamma) * 255);
+    }
+    return table;
+};
+
+/**
+ * 每个通道一张查找表：色阶 → RGB 曲线 → 通道曲线。
+ */
+export const buildToneTables = ({ levels, curves }: ToneSettings): [Uint8Array, Uint8Array, Uint8Array] => {
+    const levelsTable = buildLevelsTable(levels);
+    const rgbTable = buildCurveTable(curves.rgb);
+    return (['red', 'green', 'blue'] as const).map(channel => {
+        const channelTable = buildCurveTable(curves[channel]);
+        return levelsTable.map(v => channelTable[rgbTable[v]]);
+    }) as [Uint8Array, Uint8Array, Uint8Array];
+};
+
+/**
+ * 就地调整像素。
+ */
+export const applyToneToImageData = (image: ImageData, settings: ToneSettings) => {
+    const [red, green, blue] = buildToneTables(settings);
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = red[data[i]];
+        data[i + 1] = green[data[i + 1]];
+        data[i + 2] = blue[data[i + 2]];
+    }
+};
+
+/**
+ * 按原始分辨率应用曲线和色阶，返回 PNG。
+ */
+export const applyTone = async (image: Blob, settings: ToneSettings): Promise<File> => {
+    const bitmap = await createImageBitmap(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('无法创建画布来应用曲线。');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyToneToImageData(pixels, settings);
+    ctx.putImageData(pixels, 0, 0);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob
+            ? resolve(new File([blob], `tone-${Date.now()}.png`, { type: 'image/png' }))
+            : reject(new Error('无法导出应用曲线后的图片。')), 'image/png');
+    });
+};
+
+/**
+ * 各通道的直方图；完全透明的像素不计入。
+ */
+export const computeHistogram = async (image: Blob): Promise<Histogram> => {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, HISTOGRAM_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('无法创建画布来统计直方图。');
+    }
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const histogram: Histogram = { red: new Uint32Array(256), green: new Uint32Array(256), blue: new Uint32Array(256) };
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] === 0) continue;
+        histogram.red[data[i]]++;
+        histogram.green[data[i + 1]]++;
+        histogram.blue[data[i + 2]]++;
+    }
+    return histogram;
+};
+
+/**
+ * 调整后的直方图：曲线和色阶是逐通道的查表，直接按查找表搬运原直方图的计数即可，
+ * 拖动控制点时不必重新统计图片。
+ */
+export const mapHistogram = (histogram: Histogram, settings: ToneSettings): Histogram => {
+    const tables = buildToneTables(settings);
+    const [red, green, blue] = (['red', 'green', 'blue'] as const).map((channel, index) => {
+        const mapped = new Uint32Array(256);
+        histogram[channel].forEach((count, value) => { mapped[tables[index][value]] += count; });
+        return mapped;
+    });
+    return { red, green, blue };
+};
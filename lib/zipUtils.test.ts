@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from './zipUtils';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const bytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// 把 createZip 写出的单个文件改标成 deflate，模拟被其他工具重新打包的项目文件
+const deflatedZip = async (name: string, data: Uint8Array) => {
+    const buffer = await bytes(createZip([{ name, data: deflateRawSync(data) }]));
+    const view = new DataView(buffer.buffer);
+    const centralOffset = view.getUint32(buffer.length - 22 + 16, true);
+    view.setUint16(8, 8, true);
+    view.setUint16(centralOffset + 10, 8, true);
+    return new Blob([buffer]);
+};
+
+describe('zipUtils', () => {
+    it('reads back what it writes', async () => {
+        const image = new Uint8Array(1024).map((_, i) => (i * 7) % 256);
+        const files = await readZip(createZip([
+            { name: 'project.json', data: encoder.encode('{"version":1}') },
+            { name: 'images/原图.png', data: image },
+            { name: 'empty.txt', data: new Uint8Array(0) },
+        ]));
+        expect([...files.keys()]).toEqual(['project.json', 'images/原图.png', 'empty.txt']);
+        expect(decoder.decode(files.get('project.json'))).toBe('{"version":1}');
+        expect(files.get('images/原图.png')).toEqual(image);
+        expect(files.get('empty.txt')).toHaveLength(0);
+    });
+
+    it('writes an uncompressed zip with valid checksums', async () => {
+        const buffer = await bytes(createZip([{ name: 'a.txt', data: encoder.encode('hello') }]));
+        const view = new DataView(buffer.buffer);
+        expect(view.getUint32(0, true)).toBe(0x04034b50);
+        expect(view.getUint16(8, true)).toBe(0);
+        // "hello" 的 CRC-32
+        expect(view.getUint32(14, true)).toBe(0x3610a686);
+        expect(decoder.decode(buffer.subarray(30, 35))).toBe('a.txt');
+    });
+
+    it('inflates deflate entries', async () => {
+        const text = 'nano banana '.repeat(200);
+        const files = await readZip(await deflatedZip('notes.txt', encoder.encode(text)));
+        expect(decoder.decode(files.get('notes.txt'))).toBe(text);
+    });
+
+    it('finds the directory behind a trailing archive comment and skips folder entries', async () => {
+        const buffer = await bytes(createZip([
+            { name: 'images/', data: new Uint8Array(0) },
+            { name: 'images/a.png', data: new Uint8Array([1, 2, 3]) },
+        ]));
+        const comment = encoder.encode('exported by another tool');
+        const withComment = new Uint8Array(buffer.length + comment.length);
+        withComment.set(buffer);
+        withComment.set(comment, buffer.length);
+        new DataView(withComment.buffer).setUint16(buffer.length - 22 + 20, comment.length, true);
+
+        const files = await readZip(new Blob([withComment]));
+        expect([...files.keys()]).toEqual(['images/a.png']);
+        expect(files.get('images/a.png')).toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it('rejects files that are not zips', async () => {
+        await expect(readZip(new Blob([encoder.encode('not a zip archive at all')]))).rejects.toThrow('不是有效的 zip');
+    });
+
+    it('rejects unsupported compression methods', async () => {
+        const buffer = await bytes(createZip([{ name: 'a.bin', data: new Uint8Array([1]) }]));
+        const centralOffset = new DataView(buffer.buffer).getUint32(buffer.length - 22 + 16, true);
+        new DataView(buffer.buffer).setUint16(centralOffset + 10, 12, true);
+        await expect(readZip(new Blob([buffer]))).rejects.toThrow('不支持的 zip 压缩方式：12');
+    });
+});
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse, Modality, Type } from "@google/genai";
+import type { ImageModelProvider } from './imageModelProvider';
+import { AuthInvalidError } from './modelErrors';
+
+let aiInstance: GoogleGenAI | null = null;
+
+// Function to get the current API key
+const getApiKey = (): string | null => {
+    return process.env.API_KEY || null;
+}
+
+// Centralized function to get the GoogleGenAI instance
+const getGoogleAI = (): GoogleGenAI => {
+    if (aiInstance) {
+        return aiInstance;
+    }
+
+    const apiKey = getApiKey();
+    if (!apiKey) {
+        throw new AuthInvalidError("找不到 API 密钥。请确保系统 API 密钥已在环境中正确设置。");
+    }
+
+    try {
+      aiInstance = new GoogleGenAI({ apiKey });
+      return aiInstance;
+    } catch(e) {
+      console.error("Failed to initialize GoogleGenAI", e);
+      // Invalidate on failure so we can retry
+      aiInstance = null;
+      throw new Error(`初始化 AI 服务失败: ${e instanceof Error ? e.message : String(e)}`);
+    }
+};
+
+const MODELS = {
+    edit: 'gemini-2.5-flash-image-preview',
+    generate: 'imagen-4.0-generate-001',
+    suggest: 'gemini-2.5-flash',
+};
+
+export const geminiProvider: ImageModelProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    models: MODELS,
+
+    async editImage({ parts, seed, temperature, signal }) {
+        const ai = getGoogleAI();
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model: MODELS.edit,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE, Modality.TEXT],
+                temperature,
+                seed,
+                abortSignal: signal,
+            },
+        });
+        return response;
+    },
+
+    async generateImage({ prompt, aspectRatio, signal }) {
+        const ai = getGoogleAI();
+        const response = await ai.models.generateImages({
+            model: MODELS.generate,
+            prompt,
+            config: {
+                numberOfImages: 1,
+                outputMimeType: 'image/png',
+                aspectRatio: aspectRatio as "1:1" | "16:9" | "9:16" | "4:3" | "3:4",
+                abortSignal: signal,
+            },
+        });
+
+        return {
+            images: (response.generatedImages ?? [])
+                .filter(generated => generated.image?.imageBytes)
+                .map(generated => ({ mimeType: 'image/png', data: generated.image.imageBytes })),
+        };
+    },
+
+    async suggest({ parts, signal }) {
+        const ai = getGoogleAI();
+        const response = await ai.models.generateContent({
+            model: MODELS.suggest,
+            contents: { parts },
+            config: {
+                abortSignal: signal,
+                responseMimeType: "application/json",
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        suggestions: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    name: { type: Type.STRING, description: "A very short, catchy name for the effect in Chinese." },
+                                    prompt: { type: Type.STRING, description: "The detailed English prompt to achieve the effect." }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        });
+        return response.text;
+    },
+};
@@ -3,38 +3,28 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Modality, Type } from "@google/genai";
-
-let aiInstance: GoogleGenAI | null = null;
-
-// Function to get the current API key
-const getApiKey = (): string | null => {
-    return process.env.API_KEY || null;
-}
-
-// Centralized function to get the GoogleGenAI instance
-const getGoogleAI = (): GoogleGenAI => {
-    if (aiInstance) {
-        return aiInstance;
-    }
-
-    const apiKey = getApiKey();
-    if (!apiKey) {
-        throw new Error("找不到 API 密钥。请确保系统 API 密钥已在环境中正确设置。");
-    }
-    
-    try {
-      aiInstance = new GoogleGenAI({ apiKey });
-      return aiInstance;
-    } catch(e) {
-      console.error("Failed to initialize GoogleGenAI", e);
-      // Invalidate on failure so we can retry
-      aiInstance = null;
-      throw new Error(`初始化 AI 服务失败: ${e instanceof Error ? e.message : String(e)}`);
-    }
-};
-
-const handleApiError = (error: any, action: string): Error => {
+import { getImageModelProvider, type ModelPart } from "./imageModelProvider";
+import {
+    CancelledError,
+    ModelError,
+    NoCandidatesError,
+    NoImageError,
+    SafetyBlockedError,
+    TextOnlyResponseError,
+    TruncatedError,
+    SAFETY_FINISH_REASONS,
+    classifyError,
+    isModelError,
+} from "./modelErrors";
+import { withRetry, type RetryOptions } from "./retryPolicy";
+import { runJobs, scheduleJob } from "./jobScheduler";
+import { createPreviewUrl, putImage } from "../lib/imageStore";
+import { buildRetouchPrompt, drawHotspotMarker, getRetouchOptions, scaleRetouchTarget, type RetouchTarget } from "./retouchHotspot";
+import { renderMaskForModel } from "../lib/maskUtils";
+import { contextWindowAround, contextWindowForArea, cropImageArea, getImageSize, pasteImageArea, type ImageArea } from "../lib/localRetouch";
+import type { BatchProgressEvent, BatchResult, EditResult, GenerationOptions, PinnedParams } from "../types";
+
+const handleApiError = (error: any, action: string): ModelError => {
     console.error(`API call for "${action}" failed:`, error);
     console.error('Full error details:', {
         message: error.message,
@@ -45,32 +35,19 @@ const handleApiError = (error: any, action: string): Error => {
         stringified: JSON.stringify(error, null, 2)
     });
     
-    // Attempt to parse a meaningful message from the error object or string
-    let message = `在"${action}"期间发生错误: ${error.message || '未知通信错误'}`;
-    try {
-      // Errors from the backend might be JSON strings
-      const errorObj = JSON.parse(error.message);
-      if (errorObj?.error?.message) {
-         // Use the specific message from the API if available
-         message = `在"${action}"期间发生错误: ${errorObj.error.message}`;
-      }
-    } catch(e) {
-      // It's not a JSON string, use the original message
-      if (String(error.message).includes('API key not valid')) {
-          message = '系统 API 密钥无效。';
-      } else if (String(error.message).includes('xhr error')) {
-           message = `与 AI 服务的通信失败。这可能是由网络问题或无效的系统 API 密钥引起的。`;
-      } else if (String(error.message).includes('Internal error')) {
-           message = `Gemini API 内部错误。请稍后重试，或者尝试简化提示词/减小图片尺寸。原始错误: ${error.message}`;
-      }
-    }
-
-    return new Error(message);
+    return classifyError(error, action);
 }
 
 
+// 把模型返回的 data URL 存入图片存储，内存中只保留一张预览图，不再常驻 base64 字符串
+const storeBatchImage = async (dataUrl: string): Promise<{ imageKey: string; imageUrl: string }> => {
+    const blob = await (await fetch(dataUrl)).blob();
+    return { imageKey: putImage(blob), imageUrl: await createPreviewUrl(blob) };
+};
+
 // Helper to resize and convert image if necessary
-const resizeImageForApi = async (file: File): Promise<{ file: File, mimeType: string }> => {
+// 同时返回实际发送的尺寸和缩放比例，以便把原图坐标换算到发送的图片上
+const resizeImageForApi = async (file: File): Promise<{ file: File, mimeType: string, width: number, height: number, scale: number }> => {
     const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png'];
     const MAX_DIMENSION = 2048;
 
@@ -94,7 +71,7 @@ const resizeImageForApi = async (file: File): Promise<{ file: File, mimeType: st
 
             // If no resize and no conversion is needed, we're good.
             if (!needsResize && !needsConversion) {
-                return resolve({ file, mimeType: file.type });
+                return resolve({ file, mimeType: file.type, width, height, scale: 1 });
             }
 
             // Otherwise, we need to draw to canvas.
@@ -129,7 +106,7 @@ const resizeImageForApi = async (file: File): Promise<{ file: File, mimeType: st
                     }
                     const newFileName = (file.name.split('.').slice(0, -1).join('.') || 'image') + '.png';
                     const newFile = new File([blob], newFileName, { type: 'image/png' });
-                    resolve({ file: newFile, mimeType: 'image/png' });
+                    resolve({ file: newFile, mimeType: 'image/png', width: newWidth, height: newHeight, scale: newWidth / width });
                 },
                 'image/png',
                 0.95
@@ -144,14 +121,13 @@ const resizeImageForApi = async (file: File): Promise<{ file: File, mimeType: st
     });
 };
 
-// Helper to convert a File to a base64 string
-const fileToGenerativePart = async (file: File) => {
-    const { file: processedFile, mimeType } = await resizeImageForApi(file);
+// Helper to convert an already processed image to an inline data part
+const blobToGenerativePart = async (blob: Blob, mimeType: string): Promise<{ inlineData: { mimeType: string; data: string } }> => {
     const base64data = await new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
         reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
         reader.onerror = reject;
-        reader.readAsDataURL(processedFile);
+        reader.readAsDataURL(blob);
     });
     return {
         inlineData: {
@@ -161,34 +137,39 @@ const fileToGenerativePart = async (file: File) => {
     };
 };
 
-const callImageEditingModel = async (parts: any[], action: string, seed?: number, temperature?: number): Promise<string> => {
+// Helper to convert a File to a base64 string
+const fileToGenerativePart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string } }> => {
+    const { file: processedFile, mimeType } = await resizeImageForApi(file);
+    return blobToGenerativePart(processedFile, mimeType);
+};
+
+// 单次请求：调用模型并校验响应结构
+const requestImageEdit = async (parts: ModelPart[], action: string, seed?: number, temperature?: number, signal?: AbortSignal): Promise<EditResult> => {
     try {
-        const ai = getGoogleAI();
+        const provider = getImageModelProvider();
         
         // 生成随机种子（如果未提供）
         const actualSeed = seed !== undefined ? seed : Math.floor(Math.random() * 1000000);
         
         // 构建请求配置，包含变化参数
-        const requestConfig: any = {
-            model: 'gemini-2.5-flash-image-preview',
-            contents: { parts: parts },
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-                // 添加温度控制以增加变化
-                temperature: temperature ?? 0.9,
-                // 添加种子参数以控制随机性
-                seed: actualSeed
-            }
+        const request = {
+            parts,
+            // 添加温度控制以增加变化
+            temperature: temperature ?? 0.9,
+            // 添加种子参数以控制随机性
+            seed: actualSeed,
+            signal,
         };
 
         // 调试日志：检查参数是否正确传递
         console.log(`API Request for ${action}:`, {
-            temperature: requestConfig.config.temperature,
-            seed: requestConfig.config.seed,
-            model: requestConfig.model
+            temperature: request.temperature,
+            seed: request.seed,
+            model: provider.models.edit,
+            provider: provider.id
         });
         
-        const response: GenerateContentResponse = await ai.models.generateContent(requestConfig);
+        const response = await provider.editImage(request);
 
         // 调试日志：检查完整响应结构
         console.log(`API Response for ${action}:`, {
@@ -207,21 +188,21 @@ const callImageEditingModel = async (parts: any[], action: string, seed?: number
         // 安全检查响应结构
         if (!response.candidates || !response.candidates[0]) {
             console.error(`API failed for ${action}: No candidates in response`, response);
-            throw new Error(`API 响应中没有候选结果。可能的原因：请求被阻止、模型过载或网络问题。`);
+            throw new NoCandidatesError();
         }
 
         const candidate = response.candidates[0];
         
         // 检查是否因为安全过滤被阻止
-        if (candidate.finishReason === 'SAFETY') {
-            console.error(`API blocked for ${action}: Safety filter triggered`, candidate.safetyRatings);
-            throw new Error(`内容被安全过滤器阻止。请尝试调整提示词或图片内容。`);
+        if (SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+            console.error(`API blocked for ${action}: Safety filter triggered`, candidate.finishReason, candidate.safetyRatings);
+            throw new SafetyBlockedError();
         }
         
         // 检查其他完成原因
         if (candidate.finishReason === 'MAX_TOKENS') {
             console.error(`API truncated for ${action}: Max tokens reached`);
-            throw new Error(`响应被截断（超出最大长度限制）。请简化提示词。`);
+            throw new TruncatedError();
         }
 
         if (!candidate.content) {
@@ -229,219 +210,242 @@ const callImageEditingModel = async (parts: any[], action: string, seed?: number
                 finishReason: candidate.finishReason,
                 safetyRatings: candidate.safetyRatings
             });
-            throw new Error(`API 响应中没有内容。完成原因：${candidate.finishReason || '未知'}。可能需要重试。`);
+            throw new NoImageError(`API 响应中没有内容。完成原因：${candidate.finishReason || '未知'}。可能需要重试。`);
         }
 
         if (!response.candidates[0].content.parts || !Array.isArray(response.candidates[0].content.parts)) {
-            throw new Error('API 响应格式不正确：缺少 parts 数组');
+            throw new NoImageError('API 响应格式不正确：缺少 parts 数组');
         }
 
         for (const part of response.candidates[0].content.parts) {
             if (part.inlineData) {
-                return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+                return {
+                    dataUrl: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+                    // 记录实际使用的参数，用于复现
+                    params: {
+                        seed: request.seed,
+                        temperature: request.temperature,
+                        provider: provider.id,
+                        model: provider.models.edit,
+                        prompt: parts.flatMap(p => 'text' in p ? [p.text] : []).join('\n'),
+                    },
+                };
             }
         }
         
         // This is a special case for prompt-blocking or other non-image responses
         if (response.candidates[0].content.parts[0]?.text) {
-             throw new Error("Model responded with text instead of an image. The prompt may have been blocked.");
+             throw new TextOnlyResponseError();
         }
-        throw new Error('AI 未能返回预期的图片结果。');
+        throw new NoImageError();
     } catch (e) {
-        // Re-throw specific errors, otherwise wrap in a generic handler
-        if (e.message.includes("Model responded with text")) {
-            throw e;
-        }
+        // Typed errors pass through unchanged, anything else is classified
         throw handleApiError(e, action);
     }
 }
 
-export const generateImageFromText = async (prompt: string, aspectRatio: string): Promise<string> => {
+const newSeed = (offset = 0) => Math.floor(Math.random() * 1000000) + offset;
+
+// 带重试的模型调用：可重试的错误按策略退避后重试，安全拦截、密钥无效等立即失败
+const callImageEditingModel = (parts: ModelPart[], action: string, seed?: number, temperature?: number, retry?: RetryOptions): Promise<EditResult> => {
+    return withRetry(() => requestImageEdit(parts, action, seed, temperature, retry?.signal), action, retry);
+}
+
+export const generateImageFromText = async (prompt: string, aspectRatio: string, signal?: AbortSignal): Promise<string> => {
     try {
-        const ai = getGoogleAI();
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt,
-            config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/png',
-                aspectRatio: aspectRatio as "1:1" | "16:9" | "9:16" | "4:3" | "3:4",
-            },
-        });
+        const response = await withRetry(
+            () => getImageModelProvider().generateImage({ prompt, aspectRatio, signal }),
+            '生成图片',
+            { operation: 'generate', signal }
+        );
 
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
-            return `data:image/png;base64,${base64ImageBytes}`;
+        if (response.images.length > 0) {
+            const { mimeType, data } = response.images[0];
+            return `data:${mimeType};base64,${data}`;
         }
-        throw new Error('AI 未能生成图片。');
+        throw new NoImageError('AI 未能生成图片。');
     } catch (e) {
-        console.error('生成图片失败:', e);
-        
-        // 尝试返回默认失败图片
-        try {
-            const response = await fetch('./image_gen_failed.png');
-            if (response.ok) {
-                const blob = await response.blob();
-                return await new Promise((resolve) => {
-                    const reader = new FileReader();
-                    reader.onload = () => resolve(reader.result as string);
-                    reader.readAsDataURL(blob);
-                });
-            }
-        } catch (loadError) {
-            console.error('加载默认失败图片失败:', loadError);
+        if (signal?.aborted) {
+            throw new CancelledError(undefined, { cause: e });
         }
-        
-        // 最终备用：抛出原始错误
+        console.error('生成图片失败:', e);
         throw handleApiError(e, '生成图片');
     }
 };
 
-export const generateEditedImage = async (imageFile: File, prompt: string, hotspot: { x: number; y: number }): Promise<string> => {
-    const imagePart = await fileToGenerativePart(imageFile);
-    const textPart = { text: `Apply this edit at hotspot (${hotspot.x}, ${hotspot.y}): ${prompt}` };
-    const seed = Math.floor(Math.random() * 1000000);
-    return callImageEditingModel([imagePart, textPart], '修饰', seed);
+// hotspot 为原图像素坐标；发送前换算到实际发送（可能缩小过）的图片上，并按设置在副本上画出标记
+export const generateEditedImage = async (imageFile: File, prompt: string, hotspot: RetouchTarget, { seed, temperature, signal }: GenerationOptions = {}): Promise<EditResult> => {
+    const { file, mimeType, width, height, scale } = await resizeImageForApi(imageFile);
+    const target = scaleRetouchTarget(hotspot, scale);
+    const { marker } = getRetouchOptions();
+    const imagePart = marker === 'none'
+        ? await blobToGenerativePart(file, mimeType)
+        : await blobToGenerativePart(await drawHotspotMarker(file, target, marker), 'image/png');
+    const textPart = { text: buildRetouchPrompt(prompt, target, width, height, marker) };
+    return callImageEditingModel([imagePart, textPart], '修饰', seed ?? newSeed(), temperature, { operation: 'retouch', signal });
 };
 
-export const generateFilteredImage = async (imageFile: File, prompt: string): Promise<string> => {
+/**
+ * 蒙版修饰：把黑白蒙版（白色为要修改的区域）作为第二张图片和原图一起发送，
+ * 只让模型修改涂抹的区域。调用方再用同一个蒙版把结果合成回原图，确保其余部分不变。
+ */
+export const generateMaskedEdit = async (imageFile: File, mask: string, prompt: string, { seed, temperature, signal }: GenerationOptions = {}): Promise<EditResult> => {
+    const { file, mimeType, width, height } = await resizeImageForApi(imageFile);
+    const imagePart = await blobToGenerativePart(file, mimeType);
+    const maskPart = await blobToGenerativePart(await renderMaskForModel(mask, width, height), 'image/png');
+    const textPart = {
+        text: `The second image is a black-and-white mask with the same size as the first image. `
+            + `Edit the first image only inside the white area of the mask: ${prompt}\n`
+            + `Keep every pixel in the black area exactly unchanged, blend the edit naturally into its surroundings, and return only the edited first image.`,
+    };
+    return callImageEditingModel([imagePart, maskPart, textPart], '蒙版修饰', seed ?? newSeed(), temperature, { operation: 'retouch', signal });
+};
+
+/**
+ * 高分辨率局部修饰：只把热点周围（或 selection 框选区域加一圈上下文）按原始分辨率裁出来发送，
+ * 热点坐标换算到裁剪区域内，结果羽化贴回原图。
+ */
+export const generateLocalEditedImage = async (imageFile: File, prompt: string, hotspot: { x: number; y: number }, selection: ImageArea | undefined, options: GenerationOptions = {}): Promise<EditResult> => {
+    const { width, height } = await getImageSize(imageFile);
+    const area = selection ? contextWindowForArea(selection, width, height) : contextWindowAround(hotspot, width, height);
+    const crop = await cropImageArea(imageFile, area);
+    const target = {
+        x: hotspot.x - area.x,
+        y: hotspot.y - area.y,
+        area: selection && { ...selection, x: selection.x - area.x, y: selection.y - area.y },
+    };
+    const result = await generateEditedImage(crop, prompt, target, options);
+    return { ...result, dataUrl: await pasteImageArea(imageFile, result.dataUrl, area) };
+};
+
+export const generateFilteredImage = async (imageFile: File, prompt: string, { seed, temperature, signal }: GenerationOptions = {}): Promise<EditResult> => {
     const imagePart = await fileToGenerativePart(imageFile);
     const textPart = { text: `Apply this filter: ${prompt}` };
-    const seed = Math.floor(Math.random() * 1000000);
-    return callImageEditingModel([imagePart, textPart], '滤镜', seed);
+    return callImageEditingModel([imagePart, textPart], '滤镜', seed ?? newSeed(), temperature, { operation: 'filter', signal });
 };
 
-export const generateAdjustedImage = async (imageFile: File, prompt: string): Promise<string> => {
+export const generateAdjustedImage = async (imageFile: File, prompt: string, { seed, temperature, signal }: GenerationOptions = {}): Promise<EditResult> => {
     const imagePart = await fileToGenerativePart(imageFile);
     const textPart = { text: `Apply this adjustment: ${prompt}` };
-    const seed = Math.floor(Math.random() * 1000000);
-    return callImageEditingModel([imagePart, textPart], '调整', seed);
+    return callImageEditingModel([imagePart, textPart], '调整', seed ?? newSeed(), temperature, { operation: 'adjust', signal });
+};
+
+// 根据变化强度定义不同的摄影角度变化描述，融入著名摄影师风格
+const VARIATION_SETS: Record<string, string[]> = {
+    subtle: [
+        "shot from eye level with natural perspective and balanced composition in Ansel Adams documentary style",
+        "captured with slight high angle for gentle flattering perspective inspired by Julia Margaret Cameron portraiture",
+        "photographed with subtle low angle using Henri Cartier-Bresson's decisive moment approach",
+        "composed using rule of thirds with Irving Penn's minimalist studio aesthetic",
+        "shot with centered composition in Richard Avedon's clean portrait style",
+        "captured from three-quarter angle showing natural depth like Annie Leibovitz environmental portraits",
+        "photographed with soft side lighting in the style of Yousuf Karsh dramatic portraiture",
+        "shot with shallow depth of field focusing on main subject using Steve McCurry's intimate approach"
+    ],
+    moderate: [
+        "captured from high angle looking down in Mario Testino's fashion photography style",
+        "shot from low angle with Helmut Newton's powerful and provocative composition",
+        "photographed from side profile showing elegant silhouette like Horst P. Horst's glamour photography",
+        "composed with diagonal lines using Vivian Maier's street photography dynamic framing",
+        "shot with off-center framing inspired by Diane Arbus's unconventional portrait approach",
+        "captured with environmental framing using Gordon Parks's documentary storytelling method",
+        "photographed from behind with subject looking back in the style of Saul Leiter's intimate moments",
+        "shot with foreground elements creating depth like Gregory Crewdson's cinematic compositions"
+    ],
+    dramatic: [
+        "captured from dramatic bird's eye view in the style of Andreas Gursky's architectural perspectives",
+        "shot from ground level worm's eye view using Alexander Rodchenko's revolutionary angles",
+        "photographed with strong Dutch angle inspired by László Moholy-Nagy's experimental compositions",
+        "composed with extreme close-up focusing on details like Richard Avedon's intense portraits",
+        "shot from far distance with telephoto compression using Thomas Struth's large-format approach",
+        "captured with wide-angle perspective in Sebastião Salgado's epic documentary style",
+        "photographed with strong backlighting creating silhouette like Fan Ho's geometric light studies",
+        "shot with subject turning around mid-motion inspired by Jacques Henri Lartigue's spontaneous captures"
+    ]
 };
 
+// 批量中单个位置的生成参数；重试某个位置时沿用 variation 和 temperature，只换种子
+interface BatchSlot {
+    index: number;
+    instruction: string;
+    variation: string;
+    temperature: number;
+    seed: number;
+}
+
+// 生成批量中的一个位置。失败不会抛出，而是返回带错误代码的结果，方便批量继续
+const runBatchSlot = async (
+    buildParts: (slot: BatchSlot) => ModelPart[],
+    buildPrompt: (slot: BatchSlot) => string,
+    slot: BatchSlot,
+    label: string,
+    retry: RetryOptions,
+): Promise<BatchResult> => {
+    const prompt = buildPrompt(slot);
+    const base = {
+        index: slot.index, seed: slot.seed, temperature: slot.temperature, model: getImageModelProvider().models.edit,
+        variation: slot.variation, instruction: slot.instruction, prompt,
+    };
+    const startedAt = performance.now();
+    try {
+        const { dataUrl } = await callImageEditingModel([...buildParts(slot), { text: prompt }], label, slot.seed, slot.temperature, retry);
+        return { ...base, status: 'success', ...await storeBatchImage(dataUrl), durationMs: Math.round(performance.now() - startedAt) };
+    } catch (error: unknown) {
+        // 记录错误信息，但继续处理
+        const modelError = classifyError(error, label);
+        // 取消的请求不算失败结果，交给调度器丢弃
+        if (retry.signal?.aborted) {
+            throw modelError;
+        }
+        console.warn(`${label} 生成失败: [${modelError.code}] ${modelError.message}，跳过并继续...`);
+        return { ...base, status: 'error', errorCode: modelError.code, errorMessage: modelError.message, durationMs: Math.round(performance.now() - startedAt) };
+    }
+};
+
+const buildAdjustmentPrompt = ({ instruction, variation }: BatchSlot) => `Apply this adjustment: ${instruction} ${variation}`;
+
+// 使用不同的temperature和seed来确保变化
+const adjustmentTemperature = (variationIntensity: string) =>
+    variationIntensity === 'subtle' ? 0.5 : variationIntensity === 'moderate' ? 0.8 : 1.0;
+
 // 批量生成调整图片
 export const generateAdjustedImages = async (
     imageFile: File,
     prompt: string, 
     count: number = 1,
     variationIntensity: string = 'moderate',
-    onProgress?: (imageUrl: string, current: number, total: number) => void,
-    abortSignal?: AbortSignal
-): Promise<string[]> => {
+    onProgress?: (event: BatchProgressEvent) => void,
+    abortSignal?: AbortSignal,
+    pinned: PinnedParams = {}
+): Promise<BatchResult[]> => {
     try {
-        const results: string[] = [];
+        const variations = VARIATION_SETS[variationIntensity] || VARIATION_SETS.moderate;
+        const imagePart = await fileToGenerativePart(imageFile);
         
-        // 根据变化强度定义不同的摄影角度变化描述，融入著名摄影师风格
-        const variationSets = {
-            subtle: [
-                "shot from eye level with natural perspective and balanced composition in Ansel Adams documentary style",
-                "captured with slight high angle for gentle flattering perspective inspired by Julia Margaret Cameron portraiture",
-                "photographed with subtle low angle using Henri Cartier-Bresson's decisive moment approach",
-                "composed using rule of thirds with Irving Penn's minimalist studio aesthetic",
-                "shot with centered composition in Richard Avedon's clean portrait style",
-                "captured from three-quarter angle showing natural depth like Annie Leibovitz environmental portraits",
-                "photographed with soft side lighting in the style of Yousuf Karsh dramatic portraiture",
-                "shot with shallow depth of field focusing on main subject using Steve McCurry's intimate approach"
-            ],
-            moderate: [
-                "captured from high angle looking down in Mario Testino's fashion photography style",
-                "shot from low angle with Helmut Newton's powerful and provocative composition",
-                "photographed from side profile showing elegant silhouette like Horst P. Horst's glamour photography",
-                "composed with diagonal lines using Vivian Maier's street photography dynamic framing",
-                "shot with off-center framing inspired by Diane Arbus's unconventional portrait approach",
-                "captured with environmental framing using Gordon Parks's documentary storytelling method",
-                "photographed from behind with subject looking back in the style of Saul Leiter's intimate moments",
-                "shot with foreground elements creating depth like Gregory Crewdson's cinematic compositions"
-            ],
-            dramatic: [
-                "captured from dramatic bird's eye view in the style of Andreas Gursky's architectural perspectives",
-                "shot from ground level worm's eye view using Alexander Rodchenko's revolutionary angles",
-                "photographed with strong Dutch angle inspired by László Moholy-Nagy's experimental compositions",
-                "composed with extreme close-up focusing on details like Richard Avedon's intense portraits",
-                "shot from far distance with telephoto compression using Thomas Struth's large-format approach",
-                "captured with wide-angle perspective in Sebastião Salgado's epic documentary style",
-                "photographed with strong backlighting creating silhouette like Fan Ho's geometric light studies",
-                "shot with subject turning around mid-motion inspired by Jacques Henri Lartigue's spontaneous captures"
-            ]
-        };
-
-        const variations = variationSets[variationIntensity] || variationSets.moderate;
+        // 由共享调度器控制并发和每分钟请求数
+        const results = await runJobs(count, (i, signal) => {
+            // 为每次调用选择不同的变化描述，为每个图片生成不同的种子
+            const slot: BatchSlot = {
+                index: i,
+                instruction: prompt,
+                variation: variations[i % variations.length],
+                temperature: pinned.temperature ?? adjustmentTemperature(variationIntensity),
+                // 固定种子时第 i 张使用 种子 + i，保证整批可复现
+                seed: pinned.seed !== undefined ? pinned.seed + i : newSeed(i),
+            };
+            return runBatchSlot(() => [imagePart], buildAdjustmentPrompt, slot, `图片 ${i + 1}/${count}`, {
+                operation: 'adjust',
+                signal,
+                onRetry: ({ attempt, maxAttempts, delayMs, error }) => onProgress?.({ type: 'retry', index: i, attempt, maxAttempts, delayMs, errorCode: error.code }),
+            });
+        }, {
+            signal: abortSignal,
+            // 调用进度回调，通知UI有新结果（成功或失败）
+            onResult: (result, _index, completed) => onProgress?.({ type: 'result', result, current: completed, total: count }),
+        });
         
-        for (let i = 0; i < count; i++) {
-            // 检查是否已被取消
-            if (abortSignal?.aborted) {
-                console.log(`调整图片生成已取消，已完成 ${results.length}/${count} 张`);
-                break;
-            }
-            
-            try {
-                const imagePart = await fileToGenerativePart(imageFile);
-                
-                // 为每次调用选择不同的变化描述
-                const variationDesc = variations[i % variations.length];
-                
-                // 构建带变化的提示词
-                const adjustmentPrompt = `Apply this adjustment: ${prompt} ${variationDesc}`;
-                const textPart = { text: adjustmentPrompt };
-                
-                // 使用不同的temperature和seed来确保变化
-                const temperature = variationIntensity === 'subtle' ? 0.5 : 
-                                 variationIntensity === 'moderate' ? 0.8 : 1.0;
-                
-                // 为每个图片生成不同的种子
-                const seed = Math.floor(Math.random() * 1000000) + i;
-                
-                const result = await callImageEditingModel([imagePart, textPart], `调整 ${i + 1}/${count}`, seed, temperature);
-                results.push(result);
-                
-                // 调用进度回调，通知UI有新图片生成
-                if (onProgress) {
-                    onProgress(result, i + 1, count);
-                }
-                
-                // 添加延迟避免请求过快
-                if (i < count - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1500)); // 1.5秒延迟
-                }
-            } catch (error: any) {
-                console.error(`Failed to generate adjusted image ${i + 1}/${count}:`, error);
-                
-                // 使用默认失败图片
-                let errorPlaceholder;
-                try {
-                    const response = await fetch('./image_gen_failed.png');
-                    if (response.ok) {
-                        const blob = await response.blob();
-                        errorPlaceholder = await new Promise((resolve) => {
-                            const reader = new FileReader();
-                            reader.onload = () => resolve(reader.result);
-                            reader.readAsDataURL(blob);
-                        });
-                    } else {
-                        // 备用：1x1 透明像素
-                        errorPlaceholder = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
-                    }
-                } catch (loadError) {
-                    // 备用：1x1 透明像素
-                    errorPlaceholder = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
-                }
-                
-                // 记录错误信息，但继续处理
-                const errorMessage = error.message || '未知错误';
-                console.warn(`图片 ${i + 1}/${count} 生成失败: ${errorMessage}，跳过并继续...`);
-                
-                // 添加占位符到结果中（标记为错误）
-                results.push(`${errorPlaceholder}#error=${encodeURIComponent(errorMessage)}`);
-                
-                // 如果有进度回调，通知失败但继续
-                if (onProgress) {
-                    onProgress(`${errorPlaceholder}#error=${encodeURIComponent(`图片 ${i + 1} 失败: ${errorMessage}`)}`, i + 1, count);
-                }
-                
-                // 仍然添加延迟，避免过快请求
-                if (i < count - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1500));
-                }
-            }
+        if (abortSignal?.aborted) {
+            console.log(`调整图片生成已取消，已完成 ${results.length}/${count} 张`);
         }
         
         if (results.length === 0) {
@@ -449,27 +453,36 @@ export const generateAdjustedImages = async (
         }
         
         return results;
-
     } catch (e) {
        throw handleApiError(e, '批量调整');
     }
 };
 
-export const generateTexturedImage = async (imageFile: File, prompt: string): Promise<string> => {
+// 重新生成批量调整中的单个位置：沿用变化描述和温度，换一个新种子，可选地替换用户指令
+export const regenerateAdjustedImage = async (
+    imageFile: File,
+    previous: BatchResult,
+    instruction: string = previous.instruction,
+    abortSignal?: AbortSignal
+): Promise<BatchResult> => {
+    const imagePart = await fileToGenerativePart(imageFile);
+    const slot: BatchSlot = { ...previous, instruction, seed: newSeed(previous.index) };
+    return scheduleJob(signal => runBatchSlot(() => [imagePart], buildAdjustmentPrompt, slot, `图片 ${previous.index + 1}`, { operation: 'adjust', signal }), abortSignal);
+};
+
+export const generateTexturedImage = async (imageFile: File, prompt: string, { seed, temperature, signal }: GenerationOptions = {}): Promise<EditResult> => {
     const imagePart = await fileToGenerativePart(imageFile);
     const textPart = { text: `Apply this texture: ${prompt}` };
-    const seed = Math.floor(Math.random() * 1000000);
-    return callImageEditingModel([imagePart, textPart], '纹理', seed);
+    return callImageEditingModel([imagePart, textPart], '纹理', seed ?? newSeed(), temperature, { operation: 'texture', signal });
 };
 
-export const removeBackgroundImage = async (imageFile: File): Promise<string> => {
+export const removeBackgroundImage = async (imageFile: File, { seed, temperature, signal }: GenerationOptions = {}): Promise<EditResult> => {
     const imagePart = await fileToGenerativePart(imageFile);
     const textPart = { text: 'Remove the background of this image, leaving only the main subject with a transparent background.' };
-    const seed = Math.floor(Math.random() * 1000000);
-    return callImageEditingModel([imagePart, textPart], '抠图', seed);
+    return callImageEditingModel([imagePart, textPart], '抠图', seed ?? newSeed(), temperature, { operation: 'erase', signal });
 };
 
-export const generateFusedImage = async (mainImage: File, sourceImages: File[], prompt: string): Promise<string> => {
+export const generateFusedImage = async (mainImage: File, sourceImages: File[], prompt: string, { seed, temperature, signal }: GenerationOptions = {}): Promise<EditResult> => {
     try {
         const mainImagePart = await fileToGenerativePart(mainImage);
         
@@ -488,14 +501,26 @@ export const generateFusedImage = async (mainImage: File, sourceImages: File[],
         const textPart = { text: fullPrompt };
         const allParts = [mainImagePart, ...sourceImageParts.map(p => ({ inlineData: p.inlineData })), textPart];
         
-        const seed = Math.floor(Math.random() * 1000000);
-        return await callImageEditingModel(allParts, '合成', seed);
+        return await callImageEditingModel(allParts, '合成', seed ?? newSeed(), temperature, { operation: 'fusion', signal });
 
     } catch (e) {
        throw handleApiError(e, '合成');
     }
 };
 
+// 合成提示词：说明各素材图，再附上用户指令和变化描述
+const buildFusionPrompt = (sourceCount: number) => ({ instruction, variation }: BatchSlot) => {
+    let fullPrompt = `Fuse the images. The main image is the one I'm editing. `;
+    for (let i = 1; i <= sourceCount; i++) {
+        fullPrompt += `Source image ${i} is provided. `;
+    }
+    return fullPrompt + `Instructions: ${instruction}. Create ${variation}.`;
+};
+
+const prepareFusionParts = async (mainImage: File, sourceImages: File[]): Promise<ModelPart[]> => {
+    return Promise.all([mainImage, ...sourceImages].map(fileToGenerativePart));
+};
+
 // 批量生成合成图片
 export const generateFusedImages = async (
     mainImage: File, 
@@ -503,149 +528,57 @@ export const generateFusedImages = async (
     prompt: string, 
     count: number = 1,
     variationIntensity: string = 'moderate',
-    onProgress?: (imageUrl: string, current: number, total: number) => void,
-    abortSignal?: AbortSignal
-): Promise<string[]> => {
+    onProgress?: (event: BatchProgressEvent) => void,
+    abortSignal?: AbortSignal,
+    pinned: PinnedParams = {}
+): Promise<BatchResult[]> => {
     try {
-        const results: string[] = [];
-        
-        // 根据变化强度定义不同的摄影角度变化描述，融入著名摄影师风格
-        const variationSets = {
-            subtle: [
-                "shot from eye level with natural perspective and balanced composition in Ansel Adams documentary style",
-                "captured with slight high angle for gentle flattering perspective inspired by Julia Margaret Cameron portraiture",
-                "photographed with subtle low angle using Henri Cartier-Bresson's decisive moment approach",
-                "composed using rule of thirds with Irving Penn's minimalist studio aesthetic",
-                "shot with centered composition in Richard Avedon's clean portrait style",
-                "captured from three-quarter angle showing natural depth like Annie Leibovitz environmental portraits",
-                "photographed with soft side lighting in the style of Yousuf Karsh dramatic portraiture",
-                "shot with shallow depth of field focusing on main subject using Steve McCurry's intimate approach"
-            ],
-            moderate: [
-                "captured from high angle looking down in Mario Testino's fashion photography style",
-                "shot from low angle with Helmut Newton's powerful and provocative composition",
-                "photographed from side profile showing elegant silhouette like Horst P. Horst's glamour photography",
-                "composed with diagonal lines using Vivian Maier's street photography dynamic framing",
-                "shot with off-center framing inspired by Diane Arbus's unconventional portrait approach",
-                "captured with environmental framing using Gordon Parks's documentary storytelling method",
-                "photographed from behind with subject looking back in the style of Saul Leiter's intimate moments",
-                "shot with foreground elements creating depth like Gregory Crewdson's cinematic compositions"
-            ],
-            dramatic: [
-                "captured from dramatic bird's eye view in the style of Andreas Gursky's architectural perspectives",
-                "shot from ground level worm's eye view using Alexander Rodchenko's revolutionary angles",
-                "photographed with strong Dutch angle inspired by László Moholy-Nagy's experimental compositions",
-                "composed with extreme close-up focusing on details like Richard Avedon's intense portraits",
-                "shot from far distance with telephoto compression using Thomas Struth's large-format approach",
-                "captured with wide-angle perspective in Sebastião Salgado's epic documentary style",
-                "photographed with strong backlighting creating silhouette like Fan Ho's geometric light studies",
-                "shot with subject turning around mid-motion inspired by Jacques Henri Lartigue's spontaneous captures"
-            ]
-        };
-        
-        const variations = variationSets[variationIntensity as keyof typeof variationSets] || variationSets.moderate;
+        const variations = VARIATION_SETS[variationIntensity] || VARIATION_SETS.moderate;
         
         // 预先准备图片数据，避免重复处理
-        const mainImagePart = await fileToGenerativePart(mainImage);
-        const sourceImageParts = await Promise.all(
-            sourceImages.map((file, index) => fileToGenerativePart(file).then(part => ({ ...part, index: index + 1 })))
-        );
+        const imageParts = await prepareFusionParts(mainImage, sourceImages);
+        const buildPrompt = buildFusionPrompt(sourceImages.length);
         
-        // 顺序生成每张图片
-        for (let i = 0; i < count; i++) {
-            // 检查是否已被取消
-            if (abortSignal?.aborted) {
-                console.log(`合成图片生成已取消，已完成 ${results.length}/${count} 张`);
-                break;
+        // 由共享调度器控制并发和每分钟请求数
+        const results = await runJobs(count, (i, signal) => {
+            // 根据变化强度调整温度（保持在0-1范围内）
+            let temperature;
+            switch (variationIntensity) {
+                case 'subtle':
+                    // 0.4 到 0.6
+                    temperature = 0.4 + (i * 0.2 / Math.max(count - 1, 1));
+                    break;
+                case 'dramatic':
+                    // 0.7 到 1.0
+                    temperature = 0.7 + (i * 0.3 / Math.max(count - 1, 1));
+                    break;
+                default: // moderate
+                    // 0.5 到 0.8
+                    temperature = 0.5 + (i * 0.3 / Math.max(count - 1, 1));
+                    break;
             }
             
-            try {
-                // 构建 prompt
-                let fullPrompt = `Fuse the images. The main image is the one I'm editing. `;
-
-                sourceImageParts.forEach(part => {
-                    fullPrompt += `Source image ${part.index} is provided. `;
-                });
-                
-                // 添加用户指令和变化描述
-                fullPrompt += `Instructions: ${prompt}. Create ${variations[i % variations.length]}.`;
-                
-                const textPart = { text: fullPrompt };
-                const allParts = [mainImagePart, ...sourceImageParts.map(p => ({ inlineData: p.inlineData })), textPart];
-                
-                // 根据变化强度调整温度（保持在0-1范围内）
-                let temperature;
-                switch (variationIntensity) {
-                    case 'subtle':
-                        // 0.4 到 0.6
-                        temperature = 0.4 + (i * 0.2 / Math.max(count - 1, 1));
-                        break;
-                    case 'dramatic':
-                        // 0.7 到 1.0
-                        temperature = 0.7 + (i * 0.3 / Math.max(count - 1, 1));
-                        break;
-                    default: // moderate
-                        // 0.5 到 0.8
-                        temperature = 0.5 + (i * 0.3 / Math.max(count - 1, 1));
-                        break;
-                }
-                
-                // 为每个合成生成唯一的种子
-                const seed = Math.floor(Math.random() * 1000000) + i * 1000;
-                
-                // 使用种子和温度调用
-                const result = await callImageEditingModel(allParts, `合成 ${i + 1}/${count}`, seed, temperature);
-                results.push(result);
-                
-                // 调用进度回调，通知UI有新图片生成
-                if (onProgress) {
-                    onProgress(result, i + 1, count);
-                }
-                
-                // 添加延迟避免请求过快
-                if (i < count - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1500)); // 1.5秒延迟
-                }
-            } catch (error: any) {
-                console.error(`Failed to generate fusion image ${i + 1}/${count}:`, error);
-                
-                // 使用默认失败图片
-                let errorPlaceholder;
-                try {
-                    const response = await fetch('./image_gen_failed.png');
-                    if (response.ok) {
-                        const blob = await response.blob();
-                        errorPlaceholder = await new Promise((resolve) => {
-                            const reader = new FileReader();
-                            reader.onload = () => resolve(reader.result);
-                            reader.readAsDataURL(blob);
-                        });
-                    } else {
-                        // 备用：1x1 透明像素
-                        errorPlaceholder = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
-                    }
-                } catch (loadError) {
-                    // 备用：1x1 透明像素
-                    errorPlaceholder = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
-                }
-                
-                // 记录错误信息，但继续处理
-                const errorMessage = error.message || '未知错误';
-                console.warn(`图片 ${i + 1}/${count} 生成失败: ${errorMessage}，跳过并继续...`);
-                
-                // 添加占位符到结果中（标记为错误）
-                results.push(`${errorPlaceholder}#error=${encodeURIComponent(errorMessage)}`);
-                
-                // 如果有进度回调，通知失败但继续
-                if (onProgress) {
-                    onProgress(`${errorPlaceholder}#error=${encodeURIComponent(`图片 ${i + 1} 失败: ${errorMessage}`)}`, i + 1, count);
-                }
-                
-                // 仍然添加延迟，避免过快请求
-                if (i < count - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1500));
-                }
-            }
+            // 为每个合成生成唯一的种子
+            const slot: BatchSlot = {
+                index: i,
+                instruction: prompt,
+                variation: variations[i % variations.length],
+                temperature: pinned.temperature ?? temperature,
+                seed: pinned.seed !== undefined ? pinned.seed + i : newSeed(i * 1000),
+            };
+            return runBatchSlot(() => imageParts, buildPrompt, slot, `图片 ${i + 1}/${count}`, {
+                operation: 'fusion',
+                signal,
+                onRetry: ({ attempt, maxAttempts, delayMs, error }) => onProgress?.({ type: 'retry', index: i, attempt, maxAttempts, delayMs, errorCode: error.code }),
+            });
+        }, {
+            signal: abortSignal,
+            // 调用进度回调，通知UI有新结果（成功或失败）
+            onResult: (result, _index, completed) => onProgress?.({ type: 'result', result, current: completed, total: count }),
+        });
+        
+        if (abortSignal?.aborted) {
+            console.log(`合成图片生成已取消，已完成 ${results.length}/${count} 张`);
         }
         
         if (results.length === 0) {
@@ -653,43 +586,33 @@ export const generateFusedImages = async (
         }
         
         return results;
-
     } catch (e) {
        throw handleApiError(e, '批量合成');
     }
 };
 
+// 重新生成批量合成中的单个位置：沿用变化描述和温度，换一个新种子，可选地替换用户指令
+export const regenerateFusedImage = async (
+    mainImage: File,
+    sourceImages: File[],
+    previous: BatchResult,
+    instruction: string = previous.instruction,
+    abortSignal?: AbortSignal
+): Promise<BatchResult> => {
+    const imageParts = await prepareFusionParts(mainImage, sourceImages);
+    const slot: BatchSlot = { ...previous, instruction, seed: newSeed(previous.index * 1000) };
+    return scheduleJob(signal => runBatchSlot(() => imageParts, buildFusionPrompt(sourceImages.length), slot, `图片 ${previous.index + 1}`, { operation: 'fusion', signal }), abortSignal);
+};
+
 export const generateCreativeSuggestions = async (imageFile: File, type: 'filter' | 'adjustment' | 'texture'): Promise<{ name: string, prompt: string }[]> => {
     try {
-        const ai = getGoogleAI();
         const imagePart = await fileToGenerativePart(imageFile);
         const textPrompt = `Analyze this image. Suggest 4 creative and interesting image ${type}s that would look good on it. Provide a very short, catchy name (2-4 words, in Chinese) and the corresponding detailed English prompt for each suggestion.`;
         const textPart = { text: textPrompt };
 
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: { parts: [ imagePart, textPart ]},
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        suggestions: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    name: { type: Type.STRING, description: "A very short, catchy name for the effect in Chinese." },
-                                    prompt: { type: Type.STRING, description: "The detailed English prompt to achieve the effect." }
-                                }
-                            }
-                        }
-                    }
-                }
-            }
-        });
+        const responseText = await getImageModelProvider().suggest({ parts: [imagePart, textPart] });
 
-        const jsonString = response.text.trim();
+        const jsonString = responseText.trim();
         const result = JSON.parse(jsonString);
         return result.suggestions;
     } catch (e) {
@@ -706,7 +629,7 @@ const extractDecade = (prompt: string) => {
     return match ? match[1] : null;
 }
 
-export const generateDecadeImage = async (imageDataUrl: string, prompt: string): Promise<string> => {
+export const generateDecadeImage = async (imageDataUrl: string, prompt: string, signal?: AbortSignal): Promise<string> => {
   const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
   if (!match) {
     throw new Error("Invalid image data URL format.");
@@ -720,10 +643,11 @@ export const generateDecadeImage = async (imageDataUrl: string, prompt: string):
     try {
         // First attempt with the primary prompt
         const textPart = { text: prompt };
-        return await callImageEditingModel([imagePart, textPart], `生成 ${extractDecade(prompt)} 图像`);
+        const { dataUrl } = await callImageEditingModel([imagePart, textPart], `生成 ${extractDecade(prompt)} 图像`, undefined, undefined, { operation: 'decade', signal });
+        return dataUrl;
     } catch (error) {
         // If it failed because the model returned text (prompt was likely blocked)
-        if (error instanceof Error && error.message.includes("Model responded with text instead of an image")) {
+        if (isModelError(error, 'TEXT_ONLY_RESPONSE')) {
             console.warn("Original prompt failed. Trying a fallback.");
             const decade = extractDecade(prompt);
             if (!decade) throw error; 
@@ -731,7 +655,8 @@ export const generateDecadeImage = async (imageDataUrl: string, prompt: string):
             // Second attempt with a safer, fallback prompt
             const fallbackPrompt = getFallbackPrompt(decade);
             const fallbackTextPart = { text: fallbackPrompt };
-            return await callImageEditingModel([imagePart, fallbackTextPart], `生成 ${decade} 图像 (fallback)`);
+            const { dataUrl } = await callImageEditingModel([imagePart, fallbackTextPart], `生成 ${decade} 图像 (fallback)`, undefined, undefined, { operation: 'decade', signal });
+            return dataUrl;
         }
         // For other errors, re-throw them
         throw error;
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+// 发送给模型的内容片段：图片或文本
+export type ModelPart =
+    | { inlineData: { mimeType: string; data: string } }
+    | { text: string };
+
+export interface EditImageRequest {
+    parts: ModelPart[];
+    seed: number;
+    temperature: number;
+    // 取消时中断进行中的请求
+    signal?: AbortSignal;
+}
+
+// 与 Gemini generateContent 响应保持同样的结构，便于 callImageEditingModel 统一校验
+export interface EditImageResponse {
+    candidates?: {
+        finishReason?: string;
+        safetyRatings?: unknown;
+        content?: {
+            parts?: { text?: string; inlineData?: { mimeType?: string; data?: string } }[];
+        };
+    }[];
+}
+
+export interface GenerateImageRequest {
+    prompt: string;
+    aspectRatio: string;
+    signal?: AbortSignal;
+}
+
+export interface GenerateImageResponse {
+    images: { mimeType: string; data: string }[];
+}
+
+export interface SuggestRequest {
+    parts: ModelPart[];
+    signal?: AbortSignal;
+}
+
+/**
+ * 图像模型后端。编辑、文生图和灵感建议三类调用都经过这里，
+ * 以便在不改动各个面板的情况下替换为其他后端。
+ */
+export interface ImageModelProvider {
+    id: string;
+    label: string;
+    models: {
+        edit: string;
+        generate: string;
+        suggest: string;
+    };
+    editImage(request: EditImageRequest): Promise<EditImageResponse>;
+    generateImage(request: GenerateImageRequest): Promise<GenerateImageResponse>;
+    // 返回 { suggestions: [{ name, prompt }] } 结构的 JSON 字符串
+    suggest(request: SuggestRequest): Promise<string>;
+}
+
+const STORAGE_KEY = 'aice-ps:image-provider';
+
+const providers = new Map<string, ImageModelProvider>([
+    [geminiProvider.id, geminiProvider],
+    [mockProvider.id, mockProvider],
+]);
+
+// 设置中保存的选择优先，其次是环境变量 IMAGE_PROVIDER，默认 Gemini
+const resolveInitialProviderId = (): string => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (saved && providers.has(saved)) return saved;
+    } catch {
+        // localStorage 不可用时忽略
+    }
+    const fromEnv = process.env.IMAGE_PROVIDER;
+    return fromEnv && providers.has(fromEnv) ? fromEnv : geminiProvider.id;
+};
+
+let activeProviderId = resolveInitialProviderId();
+
+export const registerImageModelProvider = (provider: ImageModelProvider) => {
+    providers.set(provider.id, provider);
+};
+
+export const listImageModelProviders = (): ImageModelProvider[] => Array.from(providers.values());
+
+export const setActiveImageModelProvider = (id: string) => {
+    if (!providers.has(id)) {
+        throw new Error(`未知的模型后端: ${id}`);
+    }
+    activeProviderId = id;
+    try {
+        localStorage.setItem(STORAGE_KEY, id);
+    } catch (e) {
+        console.warn('Failed to persist image provider choice', e);
+    }
+};
+
+export const getImageModelProvider = (): ImageModelProvider => {
+    return providers.get(activeProviderId) ?? geminiProvider;
+};
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// 令牌桶和并发槽位是模块级状态，每个用例重新加载模块；默认并发 3，每分钟 20 个请求（每 3 秒一个令牌）
+const loadScheduler = async () => {
+    vi.resetModules();
+    return import('./jobScheduler');
+};
+
+// 手动结束的任务，用来观察同时进行的数量
+const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(done => { resolve = done; });
+    return { promise, resolve };
+};
+
+describe('jobScheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        // 测试环境没有 localStorage，设置只在内存中生效
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('allows a burst up to the concurrency, then refills at the per-minute rate', async () => {
+        const { takeRateToken } = await loadScheduler();
+        const taken: number[] = [];
+        for (let i = 0; i < 5; i++) {
+            takeRateToken().then(() => taken.push(Date.now()));
+        }
+        await vi.advanceTimersByTimeAsync(0);
+        expect(taken).toHaveLength(3);
+        await vi.advanceTimersByTimeAsync(2999);
+        expect(taken).toHaveLength(3);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(taken).toHaveLength(4);
+        await vi.advanceTimersByTimeAsync(3000);
+        expect(taken).toHaveLength(5);
+    });
+
+    it('follows rate changes made while waiting', async () => {
+        const { setSchedulerOptions, takeRateToken } = await loadScheduler();
+        await Promise.all([takeRateToken(), takeRateToken(), takeRateToken()]);
+        setSchedulerOptions({ requestsPerMinute: 60 });
+        let taken = false;
+        takeRateToken().then(() => { taken = true; });
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(taken).toBe(true);
+    });
+
+    it('runs at most `concurrency` jobs at once', async () => {
+        const { scheduleJob, setSchedulerOptions } = await loadScheduler();
+        setSchedulerOptions({ concurrency: 2, requestsPerMinute: 6000 });
+        const jobs = Array.from({ length: 4 }, deferred);
+        let running = 0;
+        let maxRunning = 0;
+        const finished = Promise.all(jobs.map(job => scheduleJob(async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await job.promise;
+            running--;
+        })));
+        await vi.advanceTimersByTimeAsync(0);
+        expect(running).toBe(2);
+        jobs.forEach(job => job.resolve());
+        await vi.runAllTimersAsync();
+        await finished;
+        expect(maxRunning).toBe(2);
+    });
+
+    it('rejects queued jobs when their signal is aborted without running them', async () => {
+        const { scheduleJob, setSchedulerOptions } = await loadScheduler();
+        setSchedulerOptions({ concurrency: 1 });
+        const blocker = deferred();
+        const first = scheduleJob(() => blocker.promise);
+        const controller = new AbortController();
+        const queuedJob = vi.fn(async () => 'done');
+        const queued = scheduleJob(queuedJob, controller.signal);
+        const assertion = expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+        await vi.advanceTimersByTimeAsync(0);
+        controller.abort();
+        await assertion;
+        blocker.resolve();
+        await first;
+        expect(queuedJob).not.toHaveBeenCalled();
+    });
+
+    it('returns completed results in index order and drops jobs that never started after cancel', async () => {
+        const { runJobs } = await loadScheduler();
+        const controller = new AbortController();
+        const completed: number[] = [];
+        const results = runJobs(5, async index => {
+            await new Promise(resolve => setTimeout(resolve, (3 - index) * 100));
+            return index;
+        }, { signal: controller.signal, onResult: (_, index) => completed.push(index) });
+        // 前三个任务用掉初始令牌，其余两个要等 3 秒后的令牌
+        await vi.advanceTimersByTimeAsync(1000);
+        controller.abort();
+        await vi.runAllTimersAsync();
+        expect(completed).toEqual([2, 1, 0]);
+        await expect(results).resolves.toEqual([0, 1, 2]);
+    });
+
+    it('makes every retry attempt wait for a token', async () => {
+        const { takeRateToken } = await loadScheduler();
+        // 与重新加载的调度器同一批模块，错误类才能被识别为可重试
+        const { withRetry } = await import('./retryPolicy');
+        const { NetworkError } = await import('./modelErrors');
+        vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+        await Promise.all([takeRateToken(), takeRateToken(), takeRateToken()]);
+
+        let calls = 0;
+        const result = withRetry(async () => {
+            if (calls++ === 0) throw new NetworkError();
+            return 'ok';
+        }, '调整');
+        // 退避只需 1 秒，但下一个令牌要到第 3 秒左右才补充
+        const start = Date.now();
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(calls).toBe(1);
+        await vi.runAllTimersAsync();
+        await expect(result).resolves.toBe('ok');
+        expect(calls).toBe(2);
+        expect(Date.now() - start).toBeGreaterThanOrEqual(3000);
+    });
+});
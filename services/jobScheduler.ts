@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { abortError, sleep } from '../lib/abortable';
+import { createPersistedOptions } from '../lib/persistedOptions';
+
+/**
+ * 全局共享的模型请求调度器：限制同时进行的请求数，并用令牌桶限制每分钟请求数。
+ * 批量合成、批量调整和 Past Forward 都通过它发请求，彼此共享同一份配额。
+ */
+
+export interface SchedulerOptions {
+    // 同时进行的最大请求数
+    concurrency: number;
+    // 每分钟最多发出的请求数（令牌桶的补充速率）
+    requestsPerMinute: number;
+}
+
+const STORAGE_KEY = 'aice-ps:scheduler';
+
+const DEFAULT_OPTIONS: SchedulerOptions = {
+    concurrency: 3,
+    requestsPerMinute: 20,
+};
+
+const persistedOptions = createPersistedOptions<SchedulerOptions>(STORAGE_KEY, DEFAULT_OPTIONS, 'scheduler');
+
+// 令牌桶：容量等于并发数，允许开头一小波突发，之后按每分钟请求数匀速补充
+let tokens = persistedOptions.get().concurrency;
+let lastRefill = Date.now();
+
+const refill = () => {
+    const now = Date.now();
+    const { concurrency, requestsPerMinute } = persistedOptions.get();
+    tokens = Math.min(Math.max(1, concurrency), tokens + (now - lastRefill) * requestsPerMinute / 60000);
+    lastRefill = now;
+};
+
+/**
+ * 取一个令牌，没有时等到补充为止。重试也是一次新的请求，
+ * withRetry 在每次重试前同样取令牌，失败重试不会绕过每分钟请求数的限制。
+ */
+export const takeRateToken = async (signal?: AbortSignal) => {
+    for (;;) {
+        refill();
+        if (tokens >= 1) {
+            tokens -= 1;
+            return;
+        }
+        await sleep(Math.ceil((1 - tokens) * 60000 / Math.max(1, persistedOptions.get().requestsPerMinute)), signal);
+    }
+};
+
+// 并发槽位：按先来后到排队，取消的等待者直接出队
+let active = 0;
+const waiters: (() => void)[] = [];
+
+const acquireSlot = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        return reject(abortError(signal));
+    }
+    if (active < persistedOptions.get().concurrency) {
+        active++;
+        return resolve();
+    }
+    const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        active++;
+        resolve();
+    };
+    const onAbort = () => {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        reject(abortError(signal!));
+    };
+    waiters.push(waiter);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// 并发数调大后可能一次放行多个等待者
+const drainWaiters = () => {
+    while (waiters.length > 0 && active < persistedOptions.get().concurrency) {
+        waiters.shift()!();
+    }
+};
+
+const releaseSlot = () => {
+    active--;
+    drainWaiters();
+};
+
+export const getSchedulerOptions = (): SchedulerOptions => persistedOptions.get();
+
+export const setSchedulerOptions = (next: Partial<SchedulerOptions>) => {
+    persistedOptions.set(next);
+    drainWaiters();
+};
+
+/**
+ * 排队执行一个请求：等到有空闲槽位和令牌时才开始。
+ * signal 在排队期间被取消时直接以 AbortError 拒绝，任务不会执行。
+ */
+export const scheduleJob = async <T>(job: (signal?: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    await acquireSlot(signal);
+    try {
+        await takeRateToken(signal);
+        return await job(signal);
+    } finally {
+        releaseSlot();
+    }
+};
+
+export interface RunJobsOptions<T> {
+    signal?: AbortSignal;
+    // 每完成一个任务调用一次，completed 为已完成的数量
+    onResult?: (result: T, index: number, completed: number) => void;
+}
+
+/**
+ * 批量调度 count 个任务，按索引顺序返回已完成的结果。
+ * 取消后尚未开始的任务被丢弃，已完成的结果照常返回；任务自身的错误会向上抛出。
+ */
+export const runJobs = async <T>(
+    count: number,
+    job: (index: number, signal?: AbortSignal) => Promise<T>,
+    { signal, onResult }: RunJobsOptions<T> = {}
+): Promise<T[]> => {
+    const results: T[] = [];
+    const done: boolean[] = [];
+    let completed = 0;
+
+    await Promise.all(Array.from({ length: count }, (_, index) =>
+        scheduleJob(async jobSignal => {
+            const result = await job(index, jobSignal);
+            results[index] = result;
+            done[index] = true;
+            completed++;
+            onResult?.(result, index, completed);
+        }, signal).catch(error => {
+            if (signal?.aborted) return;
+            throw error;
+        })
+    ));
+
+    return results.filter((_, index) => done[index]);
+};
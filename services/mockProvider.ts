@@ -0,0 +1,288 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { EditImageResponse, ImageModelProvider, ModelPart } from './imageModelProvider';
+import { sleep } from '../lib/abortable';
+import { createPersistedOptions } from '../lib/persistedOptions';
+
+/**
+ * 离线模拟后端：不访问网络、不产生 API 费用。
+ * 输出完全由提示词和种子决定——输入图按哈希色调染色并印上提示词，
+ * 并可模拟安全拦截、纯文本回复、延迟等情况，用于演示和走通各个错误分支。
+ */
+
+export type MockScenario =
+    | 'success'
+    | 'safety'
+    | 'text-only'
+    | 'max-tokens'
+    | 'no-candidates'
+    | 'no-content'
+    | 'recitation'
+    | 'no-parts'
+    | 'no-image'
+    | 'network-error'
+    | 'rate-limit'
+    | 'invalid-key'
+    | 'internal-error';
+
+export interface MockOptions {
+    scenario: MockScenario;
+    // 模拟网络延迟（毫秒）
+    latencyMs: number;
+    // 0-1，按种子哈希确定性地让部分请求改用 failureScenario，便于测试批量失败
+    failureRate: number;
+    failureScenario: MockScenario;
+}
+
+export const MOCK_SCENARIOS: { value: MockScenario; label: string }[] = [
+    { value: 'success', label: '正常返回图片' },
+    { value: 'safety', label: '安全过滤拦截 (SAFETY)' },
+    { value: 'text-only', label: '只返回文本' },
+    { value: 'max-tokens', label: '响应被截断 (MAX_TOKENS)' },
+    { value: 'no-candidates', label: '无候选结果' },
+    { value: 'no-content', label: '候选结果无内容' },
+    { value: 'recitation', label: '因引用原文而中止 (RECITATION)' },
+    { value: 'no-parts', label: '缺少 parts 数组' },
+    { value: 'no-image', label: '空 parts（无图片）' },
+    { value: 'network-error', label: '网络错误 (xhr error)' },
+    { value: 'rate-limit', label: '请求限流 (429)' },
+    { value: 'invalid-key', label: 'API 密钥无效' },
+    { value: 'internal-error', label: '模型内部错误' },
+];
+
+const STORAGE_KEY = 'aice-ps:mock-provider';
+
+const DEFAULT_OPTIONS: MockOptions = {
+    scenario: 'success',
+    latencyMs: 800,
+    failureRate: 0,
+    failureScenario: 'safety',
+};
+
+const persistedOptions = createPersistedOptions<MockOptions>(STORAGE_KEY, DEFAULT_OPTIONS, 'mock provider');
+
+export const getMockOptions = (): MockOptions => persistedOptions.get();
+
+export const setMockOptions = (next: Partial<MockOptions>) => {
+    persistedOptions.set(next);
+};
+
+// FNV-1a 32 位哈希，保证同样的输入得到同样的输出
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const hueFromHash = (hash: number) => hash % 360;
+
+const loadImage = (mimeType: string, data: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Mock provider failed to decode input image.'));
+        img.src = `data:${mimeType};base64,${data}`;
+    });
+};
+
+const canvasToBase64 = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/png').split(',')[1];
+
+// 在画布底部印上提示词（自动换行，最多 4 行）
+const stampPrompt = (ctx: CanvasRenderingContext2D, width: number, height: number, text: string, seed: number) => {
+    const fontSize = Math.max(14, Math.round(Math.min(width, height) / 28));
+    const padding = fontSize;
+    ctx.font = `600 ${fontSize}px Inter, sans-serif`;
+
+    const maxWidth = width - padding * 2;
+    const lines: string[] = [];
+    let current = '';
+    for (const char of Array.from(text)) {
+        if (ctx.measureText(current + char).width > maxWidth) {
+            lines.push(current);
+            current = char;
+            if (lines.length === 3) break;
+        } else {
+            current += char;
+        }
+    }
+    if (current && lines.length < 4) lines.push(current);
+    lines.push(`MOCK · seed ${seed}`);
+
+    const lineHeight = fontSize * 1.3;
+    const boxHeight = lines.length * lineHeight + padding;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, height - boxHeight, width, boxHeight);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'top';
+    lines.forEach((line, i) => {
+        ctx.fillText(line, padding, height - boxHeight + padding / 2 + i * lineHeight);
+    });
+};
+
+const renderEditedImage = async (parts: ModelPart[], seed: number): Promise<string> => {
+    const images = parts.filter((p): p is { inlineData: { mimeType: string; data: string } } => 'inlineData' in p);
+    const prompt = parts.filter((p): p is { text: string } => 'text' in p).map(p => p.text).join(' ');
+    const hash = hashString(`${prompt}|${seed}`);
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not create canvas context.');
+    }
+
+    const [main, ...sources] = await Promise.all(images.map(p => loadImage(p.inlineData.mimeType, p.inlineData.data)));
+    canvas.width = main?.naturalWidth || 1024;
+    canvas.height = main?.naturalHeight || 1024;
+
+    if (main) {
+        ctx.drawImage(main, 0, 0);
+    }
+
+    // 用提示词+种子的哈希色调染色
+    ctx.globalCompositeOperation = 'color';
+    ctx.fillStyle = `hsla(${hueFromHash(hash)}, 70%, 50%, 0.45)`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'source-over';
+
+    // 合成时把素材图以缩略图形式贴在右上角
+    const thumbSize = Math.round(Math.min(canvas.width, canvas.height) / 5);
+    sources.forEach((img, i) => {
+        const scale = thumbSize / Math.max(img.naturalWidth, img.naturalHeight);
+        const w = img.naturalWidth * scale;
+        const h = img.naturalHeight * scale;
+        const x = canvas.width - (i + 1) * (thumbSize + 8);
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 2;
+        ctx.drawImage(img, x, 8, w, h);
+        ctx.strokeRect(x, 8, w, h);
+    });
+
+    stampPrompt(ctx, canvas.width, canvas.height, prompt, seed);
+    return canvasToBase64(canvas);
+};
+
+const ASPECT_SIZES: Record<string, [number, number]> = {
+    '1:1': [1024, 1024],
+    '16:9': [1280, 720],
+    '9:16': [720, 1280],
+    '4:3': [1152, 864],
+    '3:4': [864, 1152],
+};
+
+const renderGeneratedImage = (prompt: string, aspectRatio: string): string => {
+    const [width, height] = ASPECT_SIZES[aspectRatio] ?? ASPECT_SIZES['1:1'];
+    const hash = hashString(prompt);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not create canvas context.');
+    }
+
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hueFromHash(hash)}, 65%, 45%)`);
+    gradient.addColorStop(1, `hsl(${hueFromHash(hash >>> 9)}, 65%, 25%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    stampPrompt(ctx, width, height, prompt, hash % 1000000);
+    return canvasToBase64(canvas);
+};
+
+// 按情景构造与 Gemini 相同结构的响应，或抛出与 SDK 相同措辞的错误
+const buildResponse = async (scenario: MockScenario, parts: ModelPart[], seed: number): Promise<EditImageResponse> => {
+    switch (scenario) {
+        case 'safety':
+            return { candidates: [{ finishReason: 'SAFETY', safetyRatings: [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH' }] }] };
+        case 'text-only':
+            return { candidates: [{ finishReason: 'STOP', content: { parts: [{ text: 'I cannot edit this image as requested.' }] } }] };
+        case 'max-tokens':
+            return { candidates: [{ finishReason: 'MAX_TOKENS', content: { parts: [] } }] };
+        case 'no-candidates':
+            return { candidates: [] };
+        case 'no-content':
+            return { candidates: [{ finishReason: 'OTHER' }] };
+        case 'recitation':
+            return { candidates: [{ finishReason: 'RECITATION' }] };
+        case 'no-parts':
+            return { candidates: [{ finishReason: 'STOP', content: {} }] };
+        case 'no-image':
+            return { candidates: [{ finishReason: 'STOP', content: { parts: [] } }] };
+        case 'network-error':
+            throw new Error('exception TypeError: Failed to fetch sending request (xhr error)');
+        case 'rate-limit':
+            throw new Error(JSON.stringify({
+                error: {
+                    code: 429,
+                    message: 'Resource has been exhausted (e.g. check quota).',
+                    status: 'RESOURCE_EXHAUSTED',
+                    details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '2s' }],
+                },
+            }));
+        case 'invalid-key':
+            throw new Error('API key not valid. Please pass a valid API key.');
+        case 'internal-error':
+            throw new Error('Internal error encountered.');
+        default: {
+            const data = await renderEditedImage(parts, seed);
+            return { candidates: [{ finishReason: 'STOP', content: { parts: [{ inlineData: { mimeType: 'image/png', data } }] } }] };
+        }
+    }
+};
+
+const pickScenario = (seed: number): MockScenario => {
+    const { scenario, failureRate, failureScenario } = persistedOptions.get();
+    if (failureRate > 0 && (hashString(`failure|${seed}`) % 1000) / 1000 < failureRate) {
+        return failureScenario;
+    }
+    return scenario;
+};
+
+export const mockProvider: ImageModelProvider = {
+    id: 'mock',
+    label: '离线模拟',
+    models: {
+        edit: 'mock-image-edit',
+        generate: 'mock-image-generate',
+        suggest: 'mock-suggest',
+    },
+
+    async editImage({ parts, seed, signal }) {
+        await sleep(persistedOptions.get().latencyMs, signal);
+        return buildResponse(pickScenario(seed), parts, seed);
+    },
+
+    async generateImage({ prompt, aspectRatio, signal }) {
+        await sleep(persistedOptions.get().latencyMs, signal);
+        const scenario = pickScenario(hashString(prompt));
+        if (scenario !== 'success') {
+            // 文生图没有候选结构，非成功情景统一表现为没有图片
+            await buildResponse(scenario, [], 0);
+            return { images: [] };
+        }
+        return { images: [{ mimeType: 'image/png', data: renderGeneratedImage(prompt, aspectRatio) }] };
+    },
+
+    async suggest({ parts, signal }) {
+        await sleep(persistedOptions.get().latencyMs, signal);
+        const prompt = parts.filter((p): p is { text: string } => 'text' in p).map(p => p.text).join(' ');
+        const type = prompt.match(/image (\w+)s that/)?.[1] ?? 'effect';
+        const hue = hueFromHash(hashString(prompt));
+        return JSON.stringify({
+            suggestions: [
+                { name: '模拟暖调', prompt: `Mock ${type}: warm tones shifted towards hue ${hue}.` },
+                { name: '模拟冷调', prompt: `Mock ${type}: cool tones shifted towards hue ${(hue + 180) % 360}.` },
+                { name: '模拟高对比', prompt: `Mock ${type}: boost contrast and clarity.` },
+                { name: '模拟柔和', prompt: `Mock ${type}: soften highlights and lift shadows.` },
+            ],
+        });
+    },
+};
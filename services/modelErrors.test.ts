@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { ModelError, QuotaExceededError, SafetyBlockedError, classifyError, describeError } from './modelErrors';
+
+const apiError = (code: number, status: string, message: string, details: unknown[] = []) =>
+    new Error(JSON.stringify({ error: { code, message, status, details } }));
+
+describe('classifyError', () => {
+    it('returns ModelError instances unchanged', () => {
+        const error = new SafetyBlockedError();
+        expect(classifyError(error, '修饰')).toBe(error);
+    });
+
+    it('maps AbortError to CANCELLED', () => {
+        const error = classifyError(new DOMException('The operation was aborted.', 'AbortError'), '修饰');
+        expect(error.code).toBe('CANCELLED');
+        expect(error.retryable).toBe(false);
+    });
+
+    it('maps 429 responses to QUOTA_EXCEEDED with the suggested delay', () => {
+        const error = classifyError(apiError(429, 'RESOURCE_EXHAUSTED', 'Resource has been exhausted (e.g. check quota).', [
+            { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '2s' },
+        ]), '调整');
+        expect(error).toBeInstanceOf(QuotaExceededError);
+        expect(error.retryable).toBe(true);
+        expect((error as QuotaExceededError).retryAfterMs).toBe(2000);
+    });
+
+    it('reads the delay from "retry in" messages', () => {
+        const error = classifyError(new Error('Quota exceeded. Please retry in 7.5s.'), '调整');
+        expect(error.code).toBe('QUOTA_EXCEEDED');
+        expect((error as QuotaExceededError).retryAfterMs).toBe(7500);
+    });
+
+    it('maps invalid keys to AUTH_INVALID', () => {
+        expect(classifyError(new Error('API key not valid. Please pass a valid API key.'), '滤镜').code).toBe('AUTH_INVALID');
+        expect(classifyError(apiError(403, 'PERMISSION_DENIED', 'Forbidden'), '滤镜').code).toBe('AUTH_INVALID');
+        expect(classifyError(Object.assign(new Error('Unauthorized'), { status: 401 }), '滤镜').code).toBe('AUTH_INVALID');
+    });
+
+    it('maps server failures to retryable SERVER_ERROR', () => {
+        const error = classifyError(new Error('Internal error encountered.'), '合成');
+        expect(error.code).toBe('SERVER_ERROR');
+        expect(error.retryable).toBe(true);
+        expect(classifyError(apiError(503, 'UNAVAILABLE', 'The model is overloaded.'), '合成').code).toBe('SERVER_ERROR');
+    });
+
+    it('maps transport failures to NETWORK', () => {
+        expect(classifyError(new Error('exception TypeError: Failed to fetch sending request (xhr error)'), '修饰').code).toBe('NETWORK');
+        expect(classifyError(new TypeError('Failed to fetch'), '修饰').code).toBe('NETWORK');
+    });
+
+    it('falls back to UNKNOWN and keeps the original error as the cause', () => {
+        const original = new Error('Something odd happened');
+        const error = classifyError(original, '修饰');
+        expect(error).toBeInstanceOf(ModelError);
+        expect(error.code).toBe('UNKNOWN');
+        expect(error.retryable).toBe(false);
+        expect(error.message).toContain('修饰');
+        expect(error.cause).toBe(original);
+    });
+
+    it('accepts values that are not errors', () => {
+        expect(classifyError('Internal error', '修饰').code).toBe('SERVER_ERROR');
+        expect(classifyError(undefined, '修饰').code).toBe('UNKNOWN');
+        expect(classifyError(null, '修饰').code).toBe('UNKNOWN');
+        expect(classifyError({ status: 500 }, '修饰').code).toBe('SERVER_ERROR');
+    });
+});
+
+describe('describeError', () => {
+    it('uses the localized description for model errors', () => {
+        const description = describeError(new SafetyBlockedError());
+        expect(description.code).toBe('SAFETY_BLOCKED');
+        expect(description.title).toBe('内容被安全过滤');
+        expect(description.hint).toBeTruthy();
+    });
+
+    it('shows plain strings as the title', () => {
+        expect(describeError('图片文件太大')).toEqual({ title: '图片文件太大' });
+    });
+});
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * 模型调用的错误分类。每类错误有稳定的 code 和是否值得重试的标记，
+ * UI 根据 code 显示本地化的提示，而不是匹配英文错误信息。
+ */
+
+export type ModelErrorCode =
+    | 'SAFETY_BLOCKED'
+    | 'TEXT_ONLY_RESPONSE'
+    | 'TRUNCATED'
+    | 'QUOTA_EXCEEDED'
+    | 'AUTH_INVALID'
+    | 'NETWORK'
+    | 'NO_CANDIDATES'
+    | 'NO_IMAGE'
+    | 'SERVER_ERROR'
+    | 'CANCELLED'
+    | 'UNKNOWN';
+
+export class ModelError extends Error {
+    readonly code: ModelErrorCode;
+    readonly retryable: boolean;
+
+    constructor(code: ModelErrorCode, message: string, retryable: boolean, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'ModelError';
+        this.code = code;
+        this.retryable = retryable;
+    }
+}
+
+export class SafetyBlockedError extends ModelError {
+    constructor(message = '内容被安全过滤器阻止。请尝试调整提示词或图片内容。') {
+        super('SAFETY_BLOCKED', message, false);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+export class TextOnlyResponseError extends ModelError {
+    constructor(message = '模型只返回了文本而不是图片，提示词可能被拒绝。') {
+        super('TEXT_ONLY_RESPONSE', message, false);
+        this.name = 'TextOnlyResponseError';
+    }
+}
+
+export class TruncatedError extends ModelError {
+    constructor(message = '响应被截断（超出最大长度限制）。请简化提示词。') {
+        super('TRUNCATED', message, false);
+        this.name = 'TruncatedError';
+    }
+}
+
+export class QuotaExceededError extends ModelError {
+    // 服务端建议的等待时间（来自 RetryInfo.retryDelay 等提示）
+    readonly retryAfterMs?: number;
+
+    constructor(message = '请求过于频繁或配额已用尽。', options?: { cause?: unknown; retryAfterMs?: number }) {
+        super('QUOTA_EXCEEDED', message, true, options);
+        this.name = 'QuotaExceededError';
+        this.retryAfterMs = options?.retryAfterMs;
+    }
+}
+
+export class AuthInvalidError extends ModelError {
+    constructor(message = '系统 API 密钥无效。', options?: { cause?: unknown }) {
+        super('AUTH_INVALID', message, false, options);
+        this.name = 'AuthInvalidError';
+    }
+}
+
+export class NetworkError extends ModelError {
+    constructor(message = '与 AI 服务的通信失败。这可能是由网络问题或无效的系统 API 密钥引起的。', options?: { cause?: unknown }) {
+        super('NETWORK', message, true, options);
+        this.name = 'NetworkError';
+    }
+}
+
+export class NoCandidatesError extends ModelError {
+    constructor(message = 'API 响应中没有候选结果。可能的原因：请求被阻止、模型过载或网络问题。') {
+        super('NO_CANDIDATES', message, true);
+        this.name = 'NoCandidatesError';
+    }
+}
+
+export class NoImageError extends ModelError {
+    constructor(message = 'AI 未能返回预期的图片结果。') {
+        super('NO_IMAGE', message, true);
+        this.name = 'NoImageError';
+    }
+}
+
+export class ServerError extends ModelError {
+    constructor(message = 'Gemini API 内部错误。', options?: { cause?: unknown }) {
+        super('SERVER_ERROR', message, true, options);
+        this.name = 'ServerError';
+    }
+}
+
+export class CancelledError extends ModelError {
+    constructor(message = '操作已取消。', options?: { cause?: unknown }) {
+        super('CANCELLED', message, false, options);
+        this.name = 'CancelledError';
+    }
+}
+
+// 从 429 响应中解析建议的重试等待时间，例如 "retryDelay": "12s" 或 "Please retry in 7.5s"
+const parseRetryAfterMs = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+export const isModelError = (error: unknown, code?: ModelErrorCode): error is ModelError => {
+    return error instanceof ModelError && (code === undefined || error.code === code);
+};
+
+// 这些完成原因都表示内容被安全策略拦截
+export const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+/**
+ * 把 SDK 或网络层抛出的原始错误归类为 ModelError。
+ * 只有在这里才会查看状态码和原始信息，其他地方一律使用 code。
+ */
+export const classifyError = (error: unknown, action: string): ModelError => {
+    if (error instanceof ModelError) {
+        return error;
+    }
+
+    // SDK、fetch 和 JSON 错误的结构各不相同，只读取可能存在的 name/message/status
+    const fields: { name?: unknown; message?: unknown; status?: unknown } = typeof error === 'object' && error !== null ? error : {};
+
+    // 用户取消：fetch/SDK 抛出 AbortError，直接归为 CANCELLED
+    if (fields.name === 'AbortError') {
+        return new CancelledError(undefined, { cause: error });
+    }
+
+    const rawMessage = String(fields.message ?? error ?? '');
+    let apiMessage = rawMessage;
+    let apiStatus: string | undefined;
+    let httpStatus: number | undefined = typeof fields.status === 'number' ? fields.status : undefined;
+    try {
+        // Errors from the backend might be JSON strings
+        const errorObj = JSON.parse(rawMessage);
+        if (errorObj?.error) {
+            apiMessage = errorObj.error.message ?? rawMessage;
+            apiStatus = errorObj.error.status;
+            httpStatus = httpStatus ?? errorObj.error.code;
+        }
+    } catch {
+        // It's not a JSON string, use the original message
+    }
+
+    const detail = `在"${action}"期间发生错误: ${apiMessage || '未知通信错误'}`;
+    const options = { cause: error };
+
+    if (httpStatus === 429 || apiStatus === 'RESOURCE_EXHAUSTED' || /quota|rate limit/i.test(apiMessage)) {
+        return new QuotaExceededError(detail, { ...options, retryAfterMs: parseRetryAfterMs(rawMessage) });
+    }
+    if (httpStatus === 401 || httpStatus === 403 || apiStatus === 'UNAUTHENTICATED' || apiStatus === 'PERMISSION_DENIED' || apiMessage.includes('API key not valid')) {
+        return new AuthInvalidError('系统 API 密钥无效。', options);
+    }
+    if ((httpStatus !== undefined && httpStatus >= 500) || apiStatus === 'INTERNAL' || apiStatus === 'UNAVAILABLE' || /Internal error|overloaded/i.test(apiMessage)) {
+        return new ServerError(`Gemini API 内部错误。请稍后重试，或者尝试简化提示词/减小图片尺寸。原始错误: ${apiMessage}`, options);
+    }
+    if (apiMessage.includes('xhr error') || /Failed to fetch|NetworkError|network/i.test(apiMessage)) {
+        return new NetworkError(undefined, options);
+    }
+    return new ModelError('UNKNOWN', detail, false, options);
+};
+
+export interface ErrorDescription {
+    code?: ModelErrorCode;
+    title: string;
+    hint?: string;
+    detail?: string;
+}
+
+const ERROR_DESCRIPTIONS: Record<ModelErrorCode, { title: string; hint: string }> = {
+    SAFETY_BLOCKED: { title: '内容被安全过滤', hint: '请调整提示词或更换图片后再试。' },
+    TEXT_ONLY_RESPONSE: { title: '模型只返回了文字', hint: '提示词可能被拒绝，请换一种描述方式。' },
+    TRUNCATED: { title: '响应被截断', hint: '请简化提示词后重试。' },
+    QUOTA_EXCEEDED: { title: '请求过于频繁或配额已用尽', hint: '请稍等片刻再试，或减少批量生成的数量。' },
+    AUTH_INVALID: { title: 'API 密钥无效', hint: '请检查环境变量 GEMINI_API_KEY 的配置。' },
+    NETWORK: { title: '网络连接失败', hint: '请检查网络连接后重试。' },
+    NO_CANDIDATES: { title: '模型没有返回结果', hint: '模型可能暂时过载，请稍后重试。' },
+    NO_IMAGE: { title: '模型没有返回图片', hint: '请重试，或换一种提示词。' },
+    SERVER_ERROR: { title: 'AI 服务内部错误', hint: '请稍后重试，或简化提示词、减小图片尺寸。' },
+    CANCELLED: { title: '操作已取消', hint: '结果不会写入编辑历史。' },
+    UNKNOWN: { title: '发生未知错误', hint: '请重试。' },
+};
+
+export const describeErrorCode = (code: ModelErrorCode) => ERROR_DESCRIPTIONS[code] ?? ERROR_DESCRIPTIONS.UNKNOWN;
+
+// 把任意错误转换成适合在界面上展示的描述
+export const describeError = (error: unknown): ErrorDescription => {
+    if (error instanceof ModelError) {
+        return { code: error.code, ...describeErrorCode(error.code), detail: error.message };
+    }
+    if (typeof error === 'string') {
+        return { title: error };
+    }
+    if (error instanceof Error) {
+        return { title: error.message };
+    }
+    return { title: '发生了未知错误' };
+};
+
+// 单行文本形式，用于只能显示字符串的地方
+export const formatError = (error: unknown): string => {
+    const { title, hint } = describeError(error);
+    return hint ? `${title}：${hint}` : title;
+};
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageArea } from "../lib/localRetouch";
+import { createPersistedOptions } from "../lib/persistedOptions";
+
+/**
+ * 修饰热点：用户点选的坐标是原图像素，发送前图片可能被缩小，
+ * 这里把坐标换算到实际发送的图片上，并可以在发送的副本上画一个醒目的标记——
+ * 模型对图上的标记比对数字坐标可靠得多。
+ */
+
+export type HotspotMarker = 'none' | 'circle' | 'box';
+
+export interface RetouchOptions {
+    // 在发送的图片上标出修饰位置的方式
+    marker: HotspotMarker;
+}
+
+// 修饰位置：热点坐标，以及可选的框选区域（局部修饰时标记为方框）
+export interface RetouchTarget {
+    x: number;
+    y: number;
+    area?: ImageArea;
+}
+
+export const HOTSPOT_MARKERS: { value: HotspotMarker; label: string }[] = [
+    { value: 'none', label: '不标记（仅坐标）' },
+    { value: 'circle', label: '红色圆圈' },
+    { value: 'box', label: '红色方框' },
+];
+
+const STORAGE_KEY = 'aice-ps:retouch';
+
+const DEFAULT_OPTIONS: RetouchOptions = {
+    marker: 'none',
+};
+
+const persistedOptions = createPersistedOptions<RetouchOptions>(STORAGE_KEY, DEFAULT_OPTIONS, 'retouch');
+
+export const getRetouchOptions = (): RetouchOptions => persistedOptions.get();
+
+export const setRetouchOptions = (next: Partial<RetouchOptions>) => {
+    persistedOptions.set(next);
+};
+
+const MARKER_COLOR = '#ff1744';
+// 圆圈半径和线宽相对图片长边的比例
+const MARKER_RADIUS_RATIO = 0.04;
+const MARKER_LINE_RATIO = 0.006;
+
+// 把原图坐标换算到缩放后的图片上
+export const scaleRetouchTarget = (target: RetouchTarget, scale: number): RetouchTarget => ({
+    x: Math.round(target.x * scale),
+    y: Math.round(target.y * scale),
+    area: target.area && {
+        x: Math.round(target.area.x * scale),
+        y: Math.round(target.area.y * scale),
+        width: Math.round(target.area.width * scale),
+        height: Math.round(target.area.height * scale),
+    },
+});
+
+/**
+ * 在图片副本上画出修饰位置。box 标记优先使用框选区域，没有时以热点为中心画一个方框。
+ */
+export const drawHotspotMarker = async (file: Blob, target: RetouchTarget, marker: Exclude<HotspotMarker, 'none'>): Promise<File> => {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        bitmap.close();
+        throw new Error('无法创建画布来标记修饰位置。');
+    }
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const longSide = Math.max(canvas.width, canvas.height);
+    const radius = Math.max(12, longSide * MARKER_RADIUS_RATIO);
+    ctx.strokeStyle = MARKER_COLOR;
+    ctx.lineWidth = Math.max(3, longSide * MARKER_LINE_RATIO);
+    ctx.beginPath();
+    if (marker === 'circle') {
+        ctx.arc(target.x, target.y, radius, 0, Math.PI * 2);
+    } else if (target.area) {
+        ctx.rect(target.area.x, target.area.y, target.area.width, target.area.height);
+    } else {
+        ctx.rect(target.x - radius, target.y - radius, radius * 2, radius * 2);
+    }
+    ctx.stroke();
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob
+            ? resolve(new File([blob], `marked-${Date.now()}.png`, { type: 'image/png' }))
+            : reject(new Error('无法导出标记后的图片。')), 'image/png');
+    });
+};
+
+/**
+ * 修饰提示词。坐标以发送图片的左上角为原点，并写明图片尺寸，避免模型按别的尺寸理解坐标。
+ */
+export const buildRetouchPrompt = (prompt: string, target: RetouchTarget, width: number, height: number, marker: HotspotMarker) => {
+    const position = `pixel (${target.x}, ${target.y}) of this ${width}x${height} image, measured from the top-left corner`;
+    if (marker === 'none') {
+        return `Apply this edit at hotspot (${target.x}, ${target.y}) — ${position}: ${prompt}`;
+    }
+    const shape = marker === 'circle' ? 'red circle' : 'red box';
+    return `Apply this edit at the spot marked by the ${shape}, around ${position}: ${prompt}\n`
+        + `The ${shape} is only a position marker added for you. Remove it completely and do not draw it in the result; keep everything outside the marked spot unchanged.`;
+};
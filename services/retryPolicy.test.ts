@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NetworkError, QuotaExceededError, SafetyBlockedError } from './modelErrors';
+import { withRetry, type RetryAttempt } from './retryPolicy';
+
+// 重试前的限流由调度器负责，这里不等待令牌
+vi.mock('./jobScheduler', () => ({ takeRateToken: vi.fn(() => Promise.resolve()) }));
+
+const failingTask = (errors: Error[], value = 'ok') => {
+    let calls = 0;
+    return vi.fn(async () => {
+        const error = errors[calls++];
+        if (error) throw error;
+        return value;
+    });
+};
+
+describe('withRetry', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('retries retryable errors until the task succeeds', async () => {
+        const task = failingTask([new NetworkError(), new NetworkError()]);
+        const attempts: RetryAttempt[] = [];
+        const result = withRetry(task, '修饰', { onRetry: attempt => attempts.push(attempt) });
+        await vi.runAllTimersAsync();
+        await expect(result).resolves.toBe('ok');
+        expect(task).toHaveBeenCalledTimes(3);
+        expect(attempts.map(({ attempt, maxAttempts }) => [attempt, maxAttempts])).toEqual([[2, 3], [3, 3]]);
+    });
+
+    it('backs off exponentially with jitter between half and the full delay', async () => {
+        const delays = async (random: number) => {
+            vi.spyOn(Math, 'random').mockReturnValue(random);
+            const attempts: RetryAttempt[] = [];
+            const result = withRetry(failingTask([new NetworkError(), new NetworkError(), new NetworkError()]), '调整', {
+                policy: { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 3000 },
+                onRetry: attempt => attempts.push(attempt),
+            });
+            await vi.runAllTimersAsync();
+            await result;
+            return attempts.map(attempt => attempt.delayMs);
+        };
+        // 第三次重试的 4000ms 被限制在 maxDelayMs
+        expect(await delays(0)).toEqual([500, 1000, 1500]);
+        expect(await delays(0.999999)).toEqual([1000, 2000, 3000]);
+    });
+
+    it('waits at least as long as the server asks', async () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        const attempts: RetryAttempt[] = [];
+        const result = withRetry(failingTask([new QuotaExceededError(undefined, { retryAfterMs: 12000 })]), '合成', {
+            onRetry: attempt => attempts.push(attempt),
+        });
+        await vi.runAllTimersAsync();
+        await expect(result).resolves.toBe('ok');
+        expect(attempts[0].delayMs).toBe(12000);
+    });
+
+    it('gives up when the server asks to wait longer than the policy allows', async () => {
+        const task = failingTask([new QuotaExceededError(undefined, { retryAfterMs: 120000 })]);
+        await expect(withRetry(task, '合成', { operation: 'fusion' })).rejects.toBeInstanceOf(QuotaExceededError);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry errors that are not retryable', async () => {
+        const task = failingTask([new SafetyBlockedError()]);
+        await expect(withRetry(task, '修饰')).rejects.toBeInstanceOf(SafetyBlockedError);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops after the operation\'s maximum number of attempts', async () => {
+        const task = failingTask([new NetworkError(), new NetworkError(), new NetworkError()]);
+        const result = withRetry(task, '文生图', { operation: 'generate' });
+        const assertion = expect(result).rejects.toBeInstanceOf(NetworkError);
+        await vi.runAllTimersAsync();
+        await assertion;
+        expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops waiting when the signal is aborted', async () => {
+        const controller = new AbortController();
+        const task = failingTask([new NetworkError()]);
+        const result = withRetry(task, '修饰', { signal: controller.signal });
+        const assertion = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+        await vi.advanceTimersByTimeAsync(100);
+        controller.abort();
+        await assertion;
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ModelError, QuotaExceededError, classifyError } from './modelErrors';
+import { takeRateToken } from './jobScheduler';
+import { sleep } from '../lib/abortable';
+
+export type RetryOperation = 'retouch' | 'filter' | 'adjust' | 'texture' | 'erase' | 'fusion' | 'decade' | 'generate';
+
+export interface RetryPolicy {
+    // 包含第一次请求在内的最大尝试次数
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // 服务端要求等待的时间超过这个值就不再重试，直接报错
+    maxRetryAfterMs: number;
+}
+
+const DEFAULT_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 15000,
+    maxRetryAfterMs: 60000,
+};
+
+// 按操作配置的重试策略；批量操作更能容忍等待，文生图较贵所以少试一次
+export const RETRY_POLICIES: Record<RetryOperation, RetryPolicy> = {
+    retouch: DEFAULT_POLICY,
+    filter: DEFAULT_POLICY,
+    adjust: DEFAULT_POLICY,
+    texture: DEFAULT_POLICY,
+    erase: DEFAULT_POLICY,
+    fusion: { ...DEFAULT_POLICY, maxDelayMs: 30000 },
+    decade: DEFAULT_POLICY,
+    generate: { ...DEFAULT_POLICY, maxAttempts: 2 },
+};
+
+export interface RetryAttempt {
+    // 即将进行的尝试序号（从 2 开始）
+    attempt: number;
+    maxAttempts: number;
+    delayMs: number;
+    error: ModelError;
+}
+
+export interface RetryOptions {
+    operation?: RetryOperation;
+    policy?: Partial<RetryPolicy>;
+    onRetry?: (attempt: RetryAttempt) => void;
+    signal?: AbortSignal;
+}
+
+// 指数退避 + 抖动：在 [50%, 100%] 的退避时间内随机取值，避免批量请求同时重试
+const backoffDelay = (policy: RetryPolicy, attempt: number) => {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(exponential * (0.5 + Math.random() * 0.5));
+};
+
+/**
+ * 按策略重试一个模型调用。只重试标记为 retryable 的错误，
+ * 安全拦截、密钥无效等错误会立即抛出。每次重试前先从调度器的令牌桶取令牌。
+ */
+export const withRetry = async <T>(task: () => Promise<T>, action: string, options: RetryOptions = {}): Promise<T> => {
+    const policy: RetryPolicy = {
+        ...(options.operation ? RETRY_POLICIES[options.operation] : DEFAULT_POLICY),
+        ...options.policy,
+    };
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task();
+        } catch (e) {
+            const error = classifyError(e, action);
+            if (!error.retryable || attempt >= policy.maxAttempts || options.signal?.aborted) {
+                throw error;
+            }
+
+            let delayMs = backoffDelay(policy, attempt);
+            if (error instanceof QuotaExceededError && error.retryAfterMs !== undefined) {
+                if (error.retryAfterMs > policy.maxRetryAfterMs) {
+                    throw error;
+                }
+                delayMs = Math.max(delayMs, error.retryAfterMs);
+            }
+
+            console.warn(`"${action}" 第 ${attempt} 次尝试失败 [${error.code}]，${delayMs}ms 后重试 (${attempt + 1}/${policy.maxAttempts})`);
+            options.onRetry?.({ attempt: attempt + 1, maxAttempts: policy.maxAttempts, delayMs, error });
+            await sleep(delayMs, options.signal);
+            await takeRateToken(options.signal);
+        }
+    }
+};
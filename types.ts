@@ -2,3 +2,65 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import type { ModelErrorCode } from './services/modelErrors';
+
+// 一次生成实际使用的参数，记录下来以便复现同样的结果
+export interface GenerationParams {
+  seed: number;
+  temperature: number;
+  provider: string;
+  model: string;
+  // 实际发送给模型的完整提示词
+  prompt: string;
+}
+
+// 调用方可固定的生成参数；未指定的种子随机选取，温度使用默认值
+export interface GenerationOptions {
+  seed?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+// 面板“高级选项”中用户固定的参数
+export type PinnedParams = Pick<GenerationOptions, 'seed' | 'temperature'>;
+
+// 单次编辑的结果：data URL 以及生成它的参数
+export interface EditResult {
+  dataUrl: string;
+  params: GenerationParams;
+}
+
+// 批量生成中单个位置的结果。失败时没有 imageUrl，改为携带错误代码
+export interface BatchResult {
+  index: number;
+  status: 'success' | 'error';
+  // 预览图的 blob URL，仅在成功时存在
+  imageUrl?: string;
+  // 全尺寸图片在 imageStore 中的键，应用或下载时按需读取
+  imageKey?: string;
+  errorCode?: ModelErrorCode;
+  errorMessage?: string;
+  seed: number;
+  temperature: number;
+  model: string;
+  // 用户输入的指令，重试单个位置时可修改
+  instruction: string;
+  // 本次使用的变化描述（摄影角度/风格）
+  variation: string;
+  // 实际发送给模型的完整提示词
+  prompt: string;
+  durationMs: number;
+}
+
+// 批量生成过程中通过 onProgress 回调报告的事件
+export type BatchProgressEvent =
+  | { type: 'result'; result: BatchResult; current: number; total: number }
+  | { type: 'retry'; index: number; attempt: number; maxAttempts: number; delayMs: number; errorCode: ModelErrorCode };
+
+// 批量生成的进度；retry 表示当前正在重试的图片
+export interface BatchProgress {
+  current: number;
+  total: number;
+  retry?: { index: number; attempt: number; maxAttempts: number };
+}